@@ -0,0 +1,59 @@
+export type DiffPart = { text: string; kind: "same" | "added" | "removed" };
+
+// Words and the whitespace after them stay together so the rebuilt text keeps its line breaks.
+function tokenize(text: string) {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+// Longer texts skip the quadratic LCS table and show as one removal plus one addition.
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Word-level diff (longest common subsequence) from `before` to `after`. */
+export function wordDiff(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ text: before, kind: "removed" as const }] : []),
+      ...(after ? [{ text: after, kind: "added" as const }] : []),
+    ];
+  }
+
+  // Comparison ignores the trailing whitespace; table[i * width + j] is the LCS length of a[i..] and b[j..].
+  const wordsA = a.map((token) => token.trim());
+  const wordsB = b.map((token) => token.trim());
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  const lcs = (i: number, j: number) => table[i * width + j] ?? 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = wordsA[i] === wordsB[j]
+        ? lcs(i + 1, j + 1) + 1
+        : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string | undefined, kind: DiffPart["kind"]) => {
+    if (!text) return;
+    const prev = parts[parts.length - 1];
+    if (prev?.kind === kind) prev.text += text;
+    else parts.push({ text, kind });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (wordsA[i] === wordsB[j]) {
+      push(b[j], "same");
+      i++;
+      j++;
+    } else if (lcs(i + 1, j) >= lcs(i, j + 1)) {
+      push(a[i++], "removed");
+    } else {
+      push(b[j++], "added");
+    }
+  }
+  while (i < a.length) push(a[i++], "removed");
+  while (j < b.length) push(b[j++], "added");
+  return parts;
+}
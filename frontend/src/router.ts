@@ -1,4 +1,6 @@
 import { createRouter, createWebHistory } from "vue-router";
+import BatchPage from "./pages/BatchPage.vue";
+import CastPage from "./pages/CastPage.vue";
 import CharacterPage from "./pages/CharacterPage.vue";
 import GeneratePage from "./pages/GeneratePage.vue";
 import LibraryPage from "./pages/LibraryPage.vue";
@@ -13,6 +15,8 @@ const router = createRouter({
   routes: [
     { path: "/", redirect: "/character" },
     { path: "/character", component: CharacterPage },
+    { path: "/batch", component: BatchPage },
+    { path: "/cast", component: CastPage },
     { path: "/generate", component: GeneratePage },
     { path: "/library", component: LibraryPage },
     { path: "/settings", component: SettingsPage },
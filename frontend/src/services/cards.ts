@@ -0,0 +1,32 @@
+import { httpJson } from "@/services/http";
+import type { CardSpec } from "@/services/library";
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintDiagnostic = {
+  field: string;
+  severity: LintSeverity;
+  code: string;
+  message: string;
+};
+
+export type FieldStats = {
+  words: number;
+  chars: number;
+  paragraphs: number;
+};
+
+export type LintResponse = {
+  ok: boolean;
+  error?: string;
+  spec?: CardSpec;
+  diagnostics?: LintDiagnostic[];
+  stats?: Record<string, FieldStats>;
+};
+
+export function lintCard(card: Record<string, any>, spec?: CardSpec) {
+  return httpJson<LintResponse>("/api/cards/lint", {
+    method: "POST",
+    body: JSON.stringify({ card, spec }),
+  });
+}
@@ -1,10 +1,124 @@
-import { httpJson } from "@/services/http";
+import { httpEventStream, httpJson } from "@/services/http";
+import type { CardSpec, LibrarySaveFormat } from "@/services/library";
+
+export type CharacterBookEntry = {
+  keys: string[];
+  content: string;
+  extensions: Record<string, any>;
+  enabled: boolean;
+  insertion_order: number;
+  case_sensitive?: boolean;
+  name?: string;
+  priority?: number;
+  id?: number;
+  comment?: string;
+  selective?: boolean;
+  secondary_keys?: string[];
+  constant?: boolean;
+  position?: "before_char" | "after_char";
+  [key: string]: any;
+};
+
+export type CharacterBook = {
+  name?: string;
+  description?: string;
+  scan_depth?: number;
+  token_budget?: number;
+  recursive_scanning?: boolean;
+  extensions: Record<string, any>;
+  entries: CharacterBookEntry[];
+  [key: string]: any;
+};
+
+// Output of the finished steps of a step-by-step generation; sent back to resume it.
+export type PipelineResume = { sheet: string; fields: Record<string, any> };
+
+export type PipelineStep = { step: string; index: number; total: number; resume: PipelineResume };
+
+export type StreamHandlers = {
+  // Id of the server-side job, for cancelTextJob.
+  onJob?: (jobId: string) => void;
+  // Fields that have finished streaming; values are raw model output (tags may be a list or a string).
+  onPartial?: (fields: Record<string, any>) => void;
+  onProgress?: (chars: number) => void;
+  // A new attempt discards whatever the previous one streamed.
+  onAttempt?: (attempt: number) => void;
+  // Step-by-step generation moved on to `step`.
+  onStep?: (step: PipelineStep) => void;
+};
+
+async function streamRequest<T>(url: string, req: unknown, handlers: StreamHandlers, signal?: AbortSignal): Promise<T> {
+  let result: any = null;
+  await httpEventStream(url, { method: "POST", body: JSON.stringify(req), signal }, (event, data) => {
+    if (event === "job") handlers.onJob?.(String(data?.jobId ?? ""));
+    else if (event === "partial") handlers.onPartial?.(data?.fields ?? {});
+    else if (event === "progress") handlers.onProgress?.(Number(data?.chars) || 0);
+    else if (event === "attempt") handlers.onAttempt?.(Number(data?.attempt) || 1);
+    else if (event === "step") handlers.onStep?.(data);
+    else if (event === "done") result = { ok: true, ...data };
+    else if (event === "error") {
+      result = {
+        ok: false,
+        error: data?.message,
+        errorCode: data?.code,
+        errorDetails: data?.details,
+        details: data?.details,
+        raw: data?.details?.raw,
+        issues: data?.details?.issues,
+      };
+    }
+  });
+  if (!result) throw new Error("Generation stream ended without a result.");
+  return result as T;
+}
+
+// Fixes the server applied to malformed model JSON before it parsed.
+export type JsonRepair =
+  | "extracted_json"
+  | "smart_quotes"
+  | "escaped_control_chars"
+  | "trailing_commas"
+  | "closed_truncated";
+
+// Provider, model and prompt behind a generated result; kept with each field version in the history.
+export type GenerationMeta = {
+  provider: string;
+  model: string;
+  promptHash: string;
+  nonce?: string;
+  createdAt: string;
+};
+
+// A field measured against its Field Detail preset (words, paragraphs, exchanges or tags).
+export type FieldLengthCheck = {
+  field: string;
+  profile: string;
+  ok: boolean;
+  direction?: "expand" | "shorten";
+  measured: string;
+  expected: string;
+  deviation: number;
+};
+
+export type FieldLengthChecks = Partial<Record<string, FieldLengthCheck>>;
+
+export type FieldVersionSource = "generate" | "regenerate" | "fill-missing" | "translate" | "review" | "edit";
+
+// One stored value of a field. Manual edits are recorded without generation metadata.
+export type FieldVersion = Partial<GenerationMeta> & {
+  id: string;
+  value: any;
+  source: FieldVersionSource;
+  createdAt: string;
+};
+
+export type CharacterHistory = Record<string, FieldVersion[]>;
 
 export type CharacterGenerateRequest = {
   idea: string;
   name?: string;
   pov?: "first" | "second" | "third";
-  lorebook?: string;
+  characterBook?: CharacterBook;
   outputLanguage?: string;
 };
 
@@ -14,6 +128,7 @@ export type CharacterPayload = {
   personality: string;
   scenario: string;
   first_mes: string;
+  alternate_greetings?: string[];
   mes_example: string;
   tags?: string[];
   creator_notes?: string;
@@ -25,21 +140,47 @@ export type CharacterPayload = {
 export type CharacterGenerateResponse = {
   ok: boolean;
   error?: string;
+  errorDetails?: any;
   character?: CharacterPayload;
+  sheet?: string;
   issues?: any;
   raw?: string;
+  repairs?: JsonRepair[];
+  meta?: GenerationMeta;
+  lengths?: FieldLengthChecks;
+  // Fields rewritten by the length pass (Field Detail → enforce lengths).
+  lengthAdjusted?: string[];
 };
 
-export function generateCharacter(req: CharacterGenerateRequest) {
+export function generateCharacter(req: CharacterGenerateRequest, signal?: AbortSignal) {
   return httpJson<CharacterGenerateResponse>("/api/character/generate", {
     method: "POST",
     body: JSON.stringify(req),
+    signal,
+  });
+}
+
+export function generateCharacterStream(req: CharacterGenerateRequest, handlers: StreamHandlers, signal?: AbortSignal) {
+  return streamRequest<CharacterGenerateResponse>("/api/character/generate/stream", req, handlers, signal);
+}
+
+export type CharacterGenerateStepsRequest = CharacterGenerateRequest & { resume?: PipelineResume };
+
+export function generateCharacterSteps(req: CharacterGenerateStepsRequest, signal?: AbortSignal) {
+  return httpJson<CharacterGenerateResponse>("/api/character/generate/steps", {
+    method: "POST",
+    body: JSON.stringify(req),
+    signal,
   });
 }
 
+export function generateCharacterStepsStream(req: CharacterGenerateStepsRequest, handlers: StreamHandlers, signal?: AbortSignal) {
+  return streamRequest<CharacterGenerateResponse>("/api/character/generate/steps/stream", req, handlers, signal);
+}
+
 export type FillMissingRequest = {
   card: CharacterPayload;
-  lorebook?: string;
+  characterBook?: CharacterBook;
   idea?: string;
   pov?: "first" | "second" | "third";
   outputLanguage?: string;
@@ -51,15 +192,24 @@ export type FillMissingResponse = {
   patch?: Partial<CharacterPayload>;
   issues?: any;
   raw?: string;
+  repairs?: JsonRepair[];
+  meta?: GenerationMeta;
+  lengths?: FieldLengthChecks;
+  lengthAdjusted?: string[];
 };
 
-export function fillMissing(req: FillMissingRequest) {
+export function fillMissing(req: FillMissingRequest, signal?: AbortSignal) {
   return httpJson<FillMissingResponse>("/api/character/fill-missing", {
     method: "POST",
     body: JSON.stringify(req),
+    signal,
   });
 }
 
+export function fillMissingStream(req: FillMissingRequest, handlers: StreamHandlers, signal?: AbortSignal) {
+  return streamRequest<FillMissingResponse>("/api/character/fill-missing/stream", req, handlers, signal);
+}
+
 export type ImagePromptRequest = {
   card: {
     name?: string;
@@ -79,6 +229,7 @@ export type ImagePromptResponse = {
   negative_prompt?: string;
   issues?: any;
   raw?: string;
+  repairs?: JsonRepair[];
 };
 
 export function generateImagePrompt(req: ImagePromptRequest) {
@@ -92,10 +243,11 @@ export type RegenerateRequest = {
   idea: string;
   requestedName?: string;
   pov: "first" | "second" | "third";
-  lorebook?: string;
+  characterBook?: CharacterBook;
   outputLanguage?: string;
   card: CharacterPayload;
   maxTokens?: number;
+  n?: number;
   keep: {
     name: boolean;
     description: boolean;
@@ -110,17 +262,300 @@ export type RegenerateRequest = {
   };
 };
 
+export type RegenerateCandidate = {
+  patch: Partial<CharacterPayload>;
+  repairs?: JsonRepair[];
+  meta?: GenerationMeta;
+  lengths?: FieldLengthChecks;
+  lengthAdjusted?: string[];
+};
+
 export type RegenerateResponse = {
   ok: boolean;
   error?: string;
   patch?: Partial<CharacterPayload>;
+  // Present when more than one candidate was requested with `n`.
+  candidates?: RegenerateCandidate[];
   issues?: any;
   raw?: string;
+  repairs?: JsonRepair[];
+  meta?: GenerationMeta;
+  lengths?: FieldLengthChecks;
+  lengthAdjusted?: string[];
 };
 
-export function regenerateCharacter(req: RegenerateRequest) {
+export function regenerateCharacter(req: RegenerateRequest, signal?: AbortSignal) {
   return httpJson<RegenerateResponse>("/api/character/regenerate", {
     method: "POST",
     body: JSON.stringify(req),
+    signal,
+  });
+}
+
+export function regenerateCharacterStream(req: RegenerateRequest, handlers: StreamHandlers, signal?: AbortSignal) {
+  return streamRequest<RegenerateResponse>("/api/character/regenerate/stream", req, handlers, signal);
+}
+
+export type AlternateGreetingsRequest = {
+  card: Partial<CharacterPayload>;
+  characterBook?: CharacterBook;
+  count?: number;
+  pov?: "first" | "second" | "third";
+  outputLanguage?: string;
+};
+
+export type AlternateGreetingsResponse = {
+  ok: boolean;
+  error?: string;
+  greetings?: string[];
+  issues?: any;
+  raw?: string;
+  repairs?: JsonRepair[];
+};
+
+export function generateAlternateGreetings(req: AlternateGreetingsRequest, signal?: AbortSignal) {
+  return httpJson<AlternateGreetingsResponse>("/api/character/alternate-greetings", {
+    method: "POST",
+    body: JSON.stringify(req),
+    signal,
+  });
+}
+
+export type TranslatableField =
+  | "description"
+  | "personality"
+  | "scenario"
+  | "first_mes"
+  | "alternate_greetings"
+  | "mes_example"
+  | "creator_notes"
+  | "system_prompt"
+  | "post_history_instructions"
+  | "tags";
+
+export type TranslatableCard = Partial<CharacterPayload> & {
+  system_prompt?: string;
+  post_history_instructions?: string;
+};
+
+export type TranslateRequest = {
+  card: TranslatableCard;
+  characterBook?: CharacterBook;
+  fields: TranslatableField[];
+  targetLanguage: string;
+  names?: string[];
+};
+
+// A translated field that lost a macro, a <START> marker, a name or a greeting.
+export type TranslationWarning = { field: TranslatableField; message: string };
+
+export type TranslateResponse = {
+  ok: boolean;
+  error?: string;
+  patch?: TranslatableCard;
+  language?: string;
+  warnings?: TranslationWarning[];
+  issues?: any;
+  raw?: string;
+  repairs?: JsonRepair[];
+  meta?: GenerationMeta;
+};
+
+export function translateCharacter(req: TranslateRequest, signal?: AbortSignal) {
+  return httpJson<TranslateResponse>("/api/character/translate", {
+    method: "POST",
+    body: JSON.stringify(req),
+    signal,
+  });
+}
+
+export type ReviewCriterion = "first_mes_hook" | "pov" | "user_agency" | "consistency" | "cliches";
+
+export type ReviewField = "description" | "personality" | "scenario" | "first_mes" | "mes_example" | "creator_notes";
+
+export type ReviewScore = { criterion: ReviewCriterion; score: number; note: string };
+
+// A proposed replacement for one whole field.
+export type ReviewSuggestion = { field: ReviewField; criterion: ReviewCriterion; issue: string; rewrite: string };
+
+export type ReviewRequest = {
+  card: Partial<CharacterPayload>;
+  pov?: "first" | "second" | "third";
+  outputLanguage?: string;
+};
+
+export type ReviewResponse = {
+  ok: boolean;
+  error?: string;
+  scores?: ReviewScore[];
+  suggestions?: ReviewSuggestion[];
+  issues?: any;
+  raw?: string;
+  repairs?: JsonRepair[];
+  meta?: GenerationMeta;
+};
+
+export function reviewCharacter(req: ReviewRequest, signal?: AbortSignal) {
+  return httpJson<ReviewResponse>("/api/character/review", {
+    method: "POST",
+    body: JSON.stringify(req),
+    signal,
+  });
+}
+
+export type CastRelationship = { with: string; relation: string };
+
+export type CastMember = { name: string; role: string; concept: string; relationships: CastRelationship[] };
+
+export type CastPlan = { title: string; setting: string; members: CastMember[] };
+
+export type CastRequest = {
+  idea: string;
+  size: number;
+  pov?: "first" | "second" | "third";
+  outputLanguage?: string;
+  lorebook?: boolean;
+};
+
+export type CastResponse = {
+  ok: boolean;
+  error?: string;
+  plan?: CastPlan;
+  characters?: CharacterPayload[];
+  lorebook?: CharacterBook | null;
+  // Cards that never mention a member they have a relationship with.
+  warnings?: Array<{ name: string; message: string }>;
+  raw?: string;
+  repairs?: JsonRepair[];
+  meta?: GenerationMeta;
+};
+
+export function generateCast(req: CastRequest, signal?: AbortSignal) {
+  return httpJson<CastResponse>("/api/character/cast", {
+    method: "POST",
+    body: JSON.stringify(req),
+    signal,
+  });
+}
+
+// Step events carry the name of the member being written.
+export function generateCastStream(req: CastRequest, handlers: StreamHandlers, signal?: AbortSignal) {
+  return streamRequest<CastResponse>("/api/character/cast/stream", req, handlers, signal);
+}
+
+// A SillyTavern user persona: who {{user}} is when chatting with the character.
+export type Persona = { name: string; description: string; image_prompt: string };
+
+export type PersonaRequest = {
+  card: Partial<CharacterPayload>;
+  // What the user wants to play; empty lets the model fit one to the scenario.
+  hint?: string;
+  name?: string;
+  outputLanguage?: string;
+};
+
+export type PersonaResponse = {
+  ok: boolean;
+  error?: string;
+  persona?: Persona;
+  lengths?: FieldLengthChecks;
+  lengthAdjusted?: string[];
+  issues?: any;
+  raw?: string;
+  repairs?: JsonRepair[];
+  meta?: GenerationMeta;
+};
+
+export function generatePersona(req: PersonaRequest, signal?: AbortSignal) {
+  return httpJson<PersonaResponse>("/api/character/persona", {
+    method: "POST",
+    body: JSON.stringify(req),
+    signal,
+  });
+}
+
+export type BatchIdea = {
+  idea: string;
+  name?: string;
+  pov?: "first" | "second" | "third";
+  outputLanguage?: string;
+};
+
+export type BatchOptions = {
+  repoId?: string;
+  format: LibrarySaveFormat;
+  // Unset lets the server pick: V2 for JSON, V3 with a V2 fallback for PNG.
+  spec?: CardSpec;
+  imagePrompt: boolean;
+  avatar: boolean;
+  pov: "first" | "second" | "third";
+  outputLanguage?: string;
+};
+
+export type BatchItemState = "queued" | "running" | "done" | "error" | "canceled";
+
+export type BatchStep = "card" | "image_prompt" | "avatar" | "save";
+
+export type BatchItem = BatchIdea & {
+  index: number;
+  state: BatchItemState;
+  // The running step, or the step that failed.
+  step?: BatchStep;
+  attempts: number;
+  error?: { code: string; message: string };
+  result?: { id: string; name: string; imageUrl?: string };
+};
+
+export type BatchJob = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  state: "running" | "done" | "canceled";
+  message?: string;
+  options: BatchOptions;
+  items: BatchItem[];
+  counts: Record<BatchItemState, number>;
+};
+
+export type BatchJobResponse = {
+  ok: boolean;
+  error?: string;
+  details?: any;
+  job?: BatchJob;
+};
+
+export function startBatch(ideas: BatchIdea[], options: BatchOptions) {
+  return httpJson<BatchJobResponse>("/api/character/batch", {
+    method: "POST",
+    body: JSON.stringify({ ideas, options }),
+  });
+}
+
+// CSV, JSONL or plain text; the server parses the file.
+export function uploadBatch(file: File, options: BatchOptions) {
+  const form = new FormData();
+  form.append("file", file);
+  form.append("options", JSON.stringify(options));
+  // Empty headers so the browser sets the multipart boundary instead of the JSON content type.
+  return httpJson<BatchJobResponse>("/api/character/batch/upload", { method: "POST", body: form, headers: {} });
+}
+
+export function listBatches() {
+  return httpJson<{ ok: boolean; error?: string; jobs?: BatchJob[] }>("/api/character/batch");
+}
+
+export function getBatch(id: string) {
+  return httpJson<BatchJobResponse>(`/api/character/batch/${encodeURIComponent(id)}`);
+}
+
+export function cancelBatch(id: string) {
+  return httpJson<BatchJobResponse>(`/api/character/batch/${encodeURIComponent(id)}/cancel`, { method: "POST" });
+}
+
+// Without indexes, every failed and canceled item is retried.
+export function retryBatch(id: string, indexes?: number[]) {
+  return httpJson<BatchJobResponse>(`/api/character/batch/${encodeURIComponent(id)}/retry`, {
+    method: "POST",
+    body: JSON.stringify({ indexes }),
   });
 }
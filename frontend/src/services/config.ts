@@ -26,9 +26,11 @@ export type FieldKey =
   | "creator_notes"
   | "tags";
 
+export type TokenizerId = "llama3" | "mistral" | "gpt4o" | "gpt4";
+
 export type AppConfig = {
   text: {
-    provider: "koboldcpp" | "openai_compat" | "google_gemini";
+    provider: "koboldcpp" | "openai_compat" | "google_gemini" | "ollama";
     koboldcpp: {
       baseUrl: string;
       model?: string;
@@ -50,6 +52,14 @@ export type AppConfig = {
       requestTimeoutMs?: number;
       defaultParams?: { temperature?: number; top_p?: number; max_tokens?: number };
     };
+    ollama: {
+      baseUrl: string;
+      model?: string;
+      requestTimeoutMs?: number;
+      keepAlive?: string;
+      numCtx?: number;
+      defaultParams?: { temperature?: number; top_p?: number; max_tokens?: number };
+    };
   };
   image: {
     provider: ImageProvider;
@@ -102,11 +112,19 @@ export type AppConfig = {
   };
   generation: {
     contentRating: "sfw" | "nsfw_allowed";
-    structuredJson?: { enabled: boolean; temperature: number; top_p: number };
+    structuredJson?: {
+      enabled: boolean;
+      constrained?: boolean;
+      continueTruncated?: boolean;
+      temperature: number;
+      top_p: number;
+    };
     fieldDetail?: {
       profile: FieldDetailProfile;
       overrides: Partial<Record<FieldKey, FieldOverrideMode>>;
+      enforceLength?: boolean;
     };
+    tokens?: { tokenizer: TokenizerId; permanentBudget: number };
   };
 };
 
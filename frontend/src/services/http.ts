@@ -54,3 +54,67 @@ export async function httpJson<T>(input: RequestInfo | URL, init?: RequestInit):
 
   return json as T
 }
+
+// POSTs and reads a text/event-stream response, calling onEvent for every event until the server closes it.
+export async function httpEventStream(
+  input: RequestInfo | URL,
+  init: RequestInit,
+  onEvent: (event: string, data: any) => void,
+): Promise<void> {
+  const res = await fetch(input, {
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...(init.headers ?? {}),
+    },
+    ...init,
+  })
+
+  if (!(res.headers.get('content-type') ?? '').includes('text/event-stream') || !res.body) {
+    const text = await res.text().catch(() => '')
+    let message = `HTTP ${res.status} ${res.statusText}`.trim()
+    try {
+      const json = JSON.parse(text)
+      message = json?.error?.message ?? json?.error ?? message
+    } catch {
+      // keep the status line
+    }
+    throw new Error(message)
+  }
+
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let event = 'message'
+  let data: string[] = []
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    let newline: number
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '')
+      buffer = buffer.slice(newline + 1)
+      if (line === '') {
+        if (data.length) {
+          // Only the parse is guarded, so an error thrown by the handler is not dispatched again.
+          let payload: any = data.join('\n')
+          try {
+            payload = JSON.parse(payload)
+          } catch {
+            // not JSON: pass the raw text
+          }
+          onEvent(event, payload)
+        }
+        event = 'message'
+        data = []
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trimStart())
+      }
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { httpJson } from "@/services/http";
+import type { CharacterBook, CharacterHistory } from "@/services/character";
 
 export type LibraryRepo = { id: string; name: string; dir: string; kind: "managed" | "folder"; readOnly: boolean };
 
@@ -28,6 +29,19 @@ export function saveLibraryConfig(payload: { activeRepoId: string; repositories:
   });
 }
 
+// A card saved as a variant (e.g. a translation) of another card in the same repository.
+export type CardVariant = { of: string; language: string };
+
+// Cards saved together, e.g. a generated cast; the shared lorebook is kept with the group.
+export type CardGroup = {
+  id: string;
+  name: string;
+  setting?: string;
+  members: string[];
+  lorebook?: CharacterBook | null;
+  createdAt: string;
+};
+
 export type LibraryItem = {
   id: string;
   name: string;
@@ -36,6 +50,9 @@ export type LibraryItem = {
   updatedAt: string;
   pngUrl: string | null;
   hasJson?: boolean;
+  hasCharx?: boolean;
+  variant?: CardVariant | null;
+  group?: { id: string; name: string } | null;
 };
 
 export type LibraryListResponse = {
@@ -51,10 +68,18 @@ export function listLibrary(repoId?: string) {
   return httpJson<LibraryListResponse>(`/api/library${query}`);
 }
 
+export type CardSpec = "v2" | "v3";
+
+export type LibrarySaveFormat = "json" | "png" | "charx";
+
 export type LibraryLoadResponse = {
   ok: boolean;
   cardV2?: { spec: string; spec_version: string; data: any };
+  spec?: CardSpec;
+  format?: LibrarySaveFormat;
   avatarPngUrl?: string | null;
+  history?: CharacterHistory;
+  variant?: CardVariant | null;
   error?: string;
 };
 
@@ -70,19 +95,33 @@ export type LibrarySaveResponse = {
   error?: string;
 };
 
-export type LibrarySaveFormat = "json" | "png";
-
-export function saveToLibrary(card: any, avatarUrl: string | null, format: LibrarySaveFormat, repoId?: string) {
+export function saveToLibrary(
+  card: any,
+  avatarUrl: string | null,
+  format: LibrarySaveFormat,
+  repoId?: string,
+  spec?: CardSpec,
+  history?: CharacterHistory,
+  variant?: CardVariant,
+) {
   return httpJson<LibrarySaveResponse>("/api/library/save", {
     method: "POST",
-    body: JSON.stringify({ card, avatarUrl, format, repoId }),
+    body: JSON.stringify({ card, avatarUrl, format, repoId, spec, history, variant }),
   });
 }
 
-export function updateLibraryItem(id: string, card: any, avatarUrl: string | null, format: LibrarySaveFormat, repoId?: string) {
+export function updateLibraryItem(
+  id: string,
+  card: any,
+  avatarUrl: string | null,
+  format: LibrarySaveFormat,
+  repoId?: string,
+  spec?: CardSpec,
+  history?: CharacterHistory,
+) {
   return httpJson<LibrarySaveResponse>(`/api/library/update/${encodeURIComponent(id)}`, {
     method: "POST",
-    body: JSON.stringify({ card, avatarUrl, format, repoId }),
+    body: JSON.stringify({ card, avatarUrl, format, repoId, spec, history }),
   });
 }
 
@@ -109,10 +148,37 @@ export function transferLibraryItem(params: {
   toRepoId?: string;
   id: string;
   mode: "copy" | "move";
-  destFormat?: "auto" | "png" | "json";
+  destFormat?: "auto" | LibrarySaveFormat;
 }) {
   return httpJson<LibraryTransferResponse>("/api/library/transfer", {
     method: "POST",
     body: JSON.stringify(params),
   });
 }
+
+export type LibraryGroupResponse = {
+  ok: boolean;
+  dir?: string;
+  group?: CardGroup;
+  error?: string;
+};
+
+export function listLibraryGroups(repoId?: string) {
+  const query = repoId ? `?repo=${encodeURIComponent(repoId)}` : "";
+  return httpJson<{ ok: boolean; groups?: CardGroup[]; error?: string }>(`/api/library/groups${query}`);
+}
+
+export function saveGroupToLibrary(params: {
+  name: string;
+  setting?: string;
+  cards: Array<{ card: any; avatarUrl?: string | null }>;
+  format: LibrarySaveFormat;
+  spec?: CardSpec;
+  repoId?: string;
+  lorebook?: CharacterBook | null;
+}) {
+  return httpJson<LibraryGroupResponse>("/api/library/group", {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+}
@@ -0,0 +1,68 @@
+import { httpJson } from "@/services/http";
+
+export type PromptTemplateId =
+  | "generate"
+  | "generate_tagged"
+  | "fill_missing"
+  | "regenerate"
+  | "image"
+  | "alternate_greetings"
+  | "pipeline_sheet"
+  | "pipeline_field"
+  | "adjust_length"
+  | "translate"
+  | "review"
+  | "cast"
+  | "persona";
+
+export type PromptTemplate = {
+  id: PromptTemplateId;
+  title: string;
+  description: string;
+  placeholders: Array<{ name: string; description: string }>;
+  template: string;
+  defaultTemplate: string;
+  customized: boolean;
+};
+
+export type PromptTemplatesResponse = {
+  ok: boolean;
+  templates?: PromptTemplate[];
+  error?: string;
+};
+
+export type PromptTemplateResponse = {
+  ok: boolean;
+  template?: PromptTemplate;
+  error?: string;
+};
+
+export type PromptPreviewResponse = {
+  ok: boolean;
+  prompt?: string;
+  unknownPlaceholders?: string[];
+  missingPlaceholders?: string[];
+  error?: string;
+};
+
+export function listPromptTemplates() {
+  return httpJson<PromptTemplatesResponse>("/api/prompts");
+}
+
+export function savePromptTemplate(id: PromptTemplateId, template: string) {
+  return httpJson<PromptTemplateResponse>(`/api/prompts/${id}`, {
+    method: "PUT",
+    body: JSON.stringify({ template }),
+  });
+}
+
+export function resetPromptTemplate(id: PromptTemplateId) {
+  return httpJson<PromptTemplateResponse>(`/api/prompts/${id}`, { method: "DELETE" });
+}
+
+export function previewPromptTemplate(id: PromptTemplateId, template?: string) {
+  return httpJson<PromptPreviewResponse>("/api/prompts/preview", {
+    method: "POST",
+    body: JSON.stringify({ id, template }),
+  });
+}
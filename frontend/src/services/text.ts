@@ -1,4 +1,5 @@
 import { httpJson } from "@/services/http";
+import type { TokenizerId } from "@/services/config";
 
 export type TextModelsResponse = {
   ok: boolean;
@@ -12,6 +13,14 @@ export type TextPingResponse = {
   error?: string;
 };
 
+export type TokenizeResponse = {
+  ok: boolean;
+  error?: string;
+  tokenizer?: TokenizerId;
+  counts?: Record<string, number>;
+  total?: number;
+};
+
 export function listTextModels() {
   return httpJson<TextModelsResponse>("/api/text/models");
 }
@@ -19,3 +28,26 @@ export function listTextModels() {
 export function pingTextProvider() {
   return httpJson<TextPingResponse>("/api/text/ping");
 }
+
+export function tokenizeTexts(texts: Record<string, string>, tokenizer?: TokenizerId) {
+  return httpJson<TokenizeResponse>("/api/text/tokenize", {
+    method: "POST",
+    body: JSON.stringify({ texts, tokenizer }),
+  });
+}
+
+export type TextJob = {
+  id: string;
+  kind: string;
+  createdAt: string;
+  updatedAt: string;
+  state: "running" | "done" | "error" | "canceled";
+  message?: string;
+  error?: string;
+};
+
+export function cancelTextJob(jobId: string) {
+  return httpJson<{ ok: boolean; job?: TextJob; error?: string }>(`/api/text/job/${encodeURIComponent(jobId)}/cancel`, {
+    method: "POST",
+  });
+}
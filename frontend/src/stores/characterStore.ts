@@ -1,7 +1,53 @@
 import { defineStore } from "pinia";
 import { computed, ref } from "vue";
 import { useLocalStorage } from "@vueuse/core";
-import type { CharacterPayload } from "@/services/character";
+import type {
+  CharacterBook,
+  CharacterBookEntry,
+  CharacterHistory,
+  CharacterPayload,
+  FieldVersionSource,
+  GenerationMeta,
+} from "@/services/character";
+
+// Card fields the workspace edits directly. Everything else on an opened card (extensions,
+// V3 assets, fields from other tools) is kept in extraFields and written back untouched on save.
+const KNOWN_KEYS = new Set([
+  "name",
+  "description",
+  "personality",
+  "scenario",
+  "first_mes",
+  "alternate_greetings",
+  "mes_example",
+  "tags",
+  "creator_notes",
+  "system_prompt",
+  "post_history_instructions",
+  "creator",
+  "character_version",
+  "image_prompt",
+  "negative_prompt",
+  "character_book",
+]);
+
+// Fields the generation routes write; each keeps its own version list.
+export const HISTORY_FIELDS = [
+  "name",
+  "description",
+  "personality",
+  "scenario",
+  "first_mes",
+  "mes_example",
+  "tags",
+  "creator_notes",
+  "image_prompt",
+  "negative_prompt",
+] as const;
+
+export type HistoryField = (typeof HISTORY_FIELDS)[number];
+
+const MAX_FIELD_VERSIONS = 20;
 
 type CharacterState = {
   name: string;
@@ -9,32 +55,99 @@ type CharacterState = {
   personality: string;
   scenario: string;
   first_mes: string;
+  alternate_greetings: string[];
   mes_example: string;
   tags: string[];
   creator_notes: string;
+  system_prompt: string;
+  post_history_instructions: string;
+  creator: string;
+  character_version: string;
   image_prompt: string;
   negative_prompt: string;
   avatarUrl: string | null;
   lastSeed: number | null;
+  character_book: CharacterBook;
+  extraFields: Record<string, any>;
+  history: CharacterHistory;
 };
 
+function emptyBook(): CharacterBook {
+  return { extensions: {}, entries: [] };
+}
+
+export function makeBookEntry(partial: Partial<CharacterBookEntry> = {}): CharacterBookEntry {
+  return {
+    keys: [],
+    content: "",
+    extensions: {},
+    enabled: true,
+    insertion_order: 100,
+    selective: false,
+    secondary_keys: [],
+    constant: false,
+    position: "before_char",
+    ...partial,
+  };
+}
+
+function normalizeBook(value: any): CharacterBook {
+  if (!value || typeof value !== "object" || !Array.isArray(value.entries)) return emptyBook();
+  const toKeys = (keys: any): string[] =>
+    Array.isArray(keys) ? keys.filter((key) => typeof key === "string") : [];
+  return {
+    ...value,
+    extensions: value.extensions && typeof value.extensions === "object" ? value.extensions : {},
+    entries: value.entries
+      .filter((entry: any) => entry && typeof entry === "object")
+      .map((entry: any) => makeBookEntry({
+        ...entry,
+        keys: toKeys(entry.keys),
+        secondary_keys: toKeys(entry.secondary_keys),
+        content: String(entry.content ?? ""),
+        enabled: entry.enabled !== false,
+        insertion_order: Number.isFinite(entry.insertion_order) ? entry.insertion_order : 100,
+      })),
+  };
+}
+
 const initialState: CharacterState = {
   name: "",
   description: "",
   personality: "",
   scenario: "",
   first_mes: "",
+  alternate_greetings: [],
   mes_example: "",
   tags: [],
   creator_notes: "",
+  system_prompt: "",
+  post_history_instructions: "",
+  creator: "",
+  character_version: "",
   image_prompt: "",
   negative_prompt: "",
   avatarUrl: null,
   lastSeed: null,
+  character_book: emptyBook(),
+  extraFields: {},
+  history: {},
 };
 
 export const useCharacterStore = defineStore("character", () => {
   const state = useLocalStorage<CharacterState>("ccg_character_v1", { ...initialState });
+  // States saved before these fields existed.
+  state.value.alternate_greetings ??= [];
+  state.value.character_book ??= emptyBook();
+  state.value.system_prompt ??= "";
+  state.value.post_history_instructions ??= "";
+  state.value.creator ??= "";
+  state.value.character_version ??= "";
+  state.value.history ??= {};
+  if (!state.value.extraFields) {
+    const { v3Fields, ...rest } = state.value as CharacterState & { v3Fields?: Record<string, any> };
+    state.value = { ...rest, extraFields: v3Fields ?? {} };
+  }
   const libraryId = ref<string | null>(null);
   const libraryRepoId = ref<string | null>(null);
 
@@ -50,26 +163,94 @@ export const useCharacterStore = defineStore("character", () => {
   const personality = field("personality");
   const scenario = field("scenario");
   const first_mes = field("first_mes");
+  const alternate_greetings = field("alternate_greetings");
   const mes_example = field("mes_example");
   const tags = field("tags");
   const creator_notes = field("creator_notes");
+  const system_prompt = field("system_prompt");
+  const post_history_instructions = field("post_history_instructions");
+  const creator = field("creator");
+  const character_version = field("character_version");
   const image_prompt = field("image_prompt");
   const negative_prompt = field("negative_prompt");
   const avatarUrl = field("avatarUrl");
   const lastSeed = field("lastSeed");
+  const character_book = field("character_book");
+  const extraFields = field("extraFields");
+  const history = field("history");
 
   function applyGenerated(payload: CharacterPayload) {
     state.value = {
       ...state.value,
       ...payload,
       tags: payload.tags ?? [],
+      alternate_greetings: payload.alternate_greetings ?? [],
       creator_notes: payload.creator_notes ?? "",
       image_prompt: payload.image_prompt ?? "",
       negative_prompt: payload.negative_prompt ?? "",
+      system_prompt: "",
+      post_history_instructions: "",
+      creator: "",
+      character_version: "",
+      extraFields: {},
     };
   }
 
-  function applyCardData(data: any) {
+  function sameValue(a: any, b: any) {
+    return JSON.stringify(a ?? "") === JSON.stringify(b ?? "");
+  }
+
+  function isEmptyValue(value: any) {
+    return Array.isArray(value) ? value.length === 0 : !String(value ?? "").trim();
+  }
+
+  function pushVersion(key: HistoryField, value: any, source: FieldVersionSource, meta?: GenerationMeta) {
+    const versions = state.value.history[key] ?? [];
+    state.value.history = {
+      ...state.value.history,
+      [key]: [
+        ...versions,
+        {
+          ...meta,
+          id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+          value: JSON.parse(JSON.stringify(value)),
+          source,
+          createdAt: meta?.createdAt ?? new Date().toISOString(),
+        },
+      ].slice(-MAX_FIELD_VERSIONS),
+    };
+  }
+
+  // A value typed by hand since the last recorded version is kept as an "edit" before it is replaced.
+  function keepEdit(key: HistoryField, value: any) {
+    const versions = state.value.history[key] ?? [];
+    const latest = versions[versions.length - 1];
+    if (isEmptyValue(value) || (latest && sameValue(latest.value, value))) return;
+    pushVersion(key, value, "edit");
+  }
+
+  function fieldValues(): Record<HistoryField, any> {
+    return Object.fromEntries(HISTORY_FIELDS.map((key) => [key, state.value[key]])) as Record<HistoryField, any>;
+  }
+
+  // Records the fields a generation changed, compared with `before` (the values when the request started).
+  function recordVersions(before: Record<HistoryField, any>, source: FieldVersionSource, meta?: GenerationMeta) {
+    for (const key of HISTORY_FIELDS) {
+      const value = state.value[key];
+      if (sameValue(before[key], value)) continue;
+      keepEdit(key, before[key]);
+      pushVersion(key, value, source, meta);
+    }
+  }
+
+  function restoreVersion(key: HistoryField, versionId: string) {
+    const version = state.value.history[key]?.find((item) => item.id === versionId);
+    if (!version) return;
+    keepEdit(key, state.value[key]);
+    (state.value as Record<HistoryField, any>)[key] = JSON.parse(JSON.stringify(version.value));
+  }
+
+  function applyCardData(data: any, savedHistory: CharacterHistory = {}) {
     const normalizeMes = (value: any) =>
       Array.isArray(value) ? value.join("\n\n") : typeof value === "string" ? value : "";
     const normalizeTags = (value: unknown): string[] => {
@@ -85,6 +266,13 @@ export const useCharacterStore = defineStore("character", () => {
       }
       return [];
     };
+    const pickExtra = (value: any) => {
+      const picked: Record<string, any> = {};
+      for (const [key, child] of Object.entries(value ?? {})) {
+        if (!KNOWN_KEYS.has(key) && child !== undefined) picked[key] = child;
+      }
+      return picked;
+    };
 
     state.value = {
       ...state.value,
@@ -93,16 +281,66 @@ export const useCharacterStore = defineStore("character", () => {
       personality: String(data?.personality ?? ""),
       scenario: String(data?.scenario ?? ""),
       first_mes: String(data?.first_mes ?? ""),
+      alternate_greetings: Array.isArray(data?.alternate_greetings)
+        ? data.alternate_greetings.filter((greeting: unknown) => typeof greeting === "string")
+        : [],
       mes_example: normalizeMes(data?.mes_example),
       tags: normalizeTags(data?.tags),
       creator_notes: String(data?.creator_notes ?? ""),
+      system_prompt: String(data?.system_prompt ?? ""),
+      post_history_instructions: String(data?.post_history_instructions ?? ""),
+      creator: String(data?.creator ?? ""),
+      character_version: String(data?.character_version ?? ""),
       image_prompt: String(data?.image_prompt ?? ""),
       negative_prompt: String(data?.negative_prompt ?? ""),
+      character_book: normalizeBook(data?.character_book),
+      extraFields: pickExtra(data),
+      history: savedHistory,
+    };
+  }
+
+  function addBookEntry(partial?: Partial<CharacterBookEntry>) {
+    const book = state.value.character_book ?? emptyBook();
+    const nextId = book.entries.reduce((max, entry) => Math.max(max, entry.id ?? 0), 0) + 1;
+    state.value.character_book = {
+      ...book,
+      entries: [...book.entries, makeBookEntry({ id: nextId, ...partial })],
+    };
+  }
+
+  function removeBookEntry(index: number) {
+    const book = state.value.character_book ?? emptyBook();
+    state.value.character_book = {
+      ...book,
+      entries: book.entries.filter((_, i) => i !== index),
     };
   }
 
+  function addAlternateGreetings(greetings: string[]) {
+    state.value.alternate_greetings = [...(state.value.alternate_greetings ?? []), ...greetings];
+  }
+
+  function updateAlternateGreeting(index: number, value: string) {
+    const list = [...(state.value.alternate_greetings ?? [])];
+    list[index] = value;
+    state.value.alternate_greetings = list;
+  }
+
+  function removeAlternateGreeting(index: number) {
+    state.value.alternate_greetings = (state.value.alternate_greetings ?? []).filter((_, i) => i !== index);
+  }
+
+  // Streaming previews write into the live fields; a snapshot lets a failed run put them back.
+  function snapshot(): CharacterState {
+    return JSON.parse(JSON.stringify(state.value));
+  }
+
+  function restore(saved: CharacterState) {
+    state.value = JSON.parse(JSON.stringify(saved));
+  }
+
   function reset() {
-    state.value = { ...initialState };
+    state.value = { ...initialState, alternate_greetings: [], character_book: emptyBook(), history: {} };
     libraryId.value = null;
     libraryRepoId.value = null;
   }
@@ -122,19 +360,37 @@ export const useCharacterStore = defineStore("character", () => {
     personality,
     scenario,
     first_mes,
+    alternate_greetings,
     mes_example,
     tags,
     creator_notes,
+    system_prompt,
+    post_history_instructions,
+    creator,
+    character_version,
     image_prompt,
     negative_prompt,
     avatarUrl,
     lastSeed,
+    character_book,
+    extraFields,
+    history,
     libraryId,
     libraryRepoId,
     setLibraryId,
     setLibraryContext,
     applyGenerated,
     applyCardData,
+    fieldValues,
+    recordVersions,
+    restoreVersion,
+    addBookEntry,
+    removeBookEntry,
+    addAlternateGreetings,
+    updateAlternateGreeting,
+    removeAlternateGreeting,
+    snapshot,
+    restore,
     reset,
   };
 });
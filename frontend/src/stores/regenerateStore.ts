@@ -13,6 +13,7 @@ type RegenerateControls = {
   keepImagePrompt: boolean;
   keepNegativePrompt: boolean;
   keepAvatar: boolean;
+  candidates: number;
 };
 
 const defaults: RegenerateControls = {
@@ -27,9 +28,11 @@ const defaults: RegenerateControls = {
   keepImagePrompt: true,
   keepNegativePrompt: true,
   keepAvatar: true,
+  candidates: 1,
 };
 
 export const useRegenerateStore = defineStore("regenerate", () => {
   const controls = useLocalStorage<RegenerateControls>("ccg_regen_controls_v1", { ...defaults });
+  controls.value.candidates ??= 1;
   return { controls };
 });
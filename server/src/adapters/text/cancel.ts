@@ -0,0 +1,24 @@
+export class TextGenerationCanceledError extends Error {
+  constructor(message = "Text generation was canceled") {
+    super(message);
+    this.name = "TextGenerationCanceledError";
+  }
+}
+
+export function isTextGenerationCanceled(e: any): e is TextGenerationCanceledError {
+  return !!e && typeof e === "object" && e.name === "TextGenerationCanceledError";
+}
+
+/**
+ * Combines the request timeout with an optional caller signal. `canceled()` tells the two apart
+ * after an AbortError: a caller abort is a cancel, anything else is the timeout.
+ */
+export function withTimeout(timeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  return {
+    signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+    canceled: () => Boolean(signal?.aborted),
+    dispose: () => clearTimeout(timer),
+  };
+}
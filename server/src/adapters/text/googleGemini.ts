@@ -1,7 +1,10 @@
 import { getApiKeyFromConfig as getApiKeyFromConfigValue, loadConfig } from "../../config/store.js";
+import { isConstraintRejected, openaiResponseFormat, stripAdditionalProperties } from "../../lib/jsonSchema.js";
 import { readApiKey } from "../../secrets/secretStore.js";
 import type { Message } from "./openaiCompat.js";
-import type { TextGenParams } from "./koboldcpp.js";
+import { TextGenerationCanceledError, withTimeout } from "./cancel.js";
+import type { TextGenOptions, TextGenParams } from "./koboldcpp.js";
+import { fetchTextStream } from "./stream.js";
 
 function normalizeBaseUrl(url: string) {
   return url.replace(/\/+$/, "");
@@ -15,24 +18,25 @@ type FetchTextResult =
   | { ok: true; status: number; statusText: string; text: string }
   | { ok: false; status: number; statusText: "TIMEOUT" | "NETWORK" | string; text: string };
 
-async function fetchTextWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<FetchTextResult> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
+async function fetchTextWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<FetchTextResult> {
+  const abort = withTimeout(timeoutMs, signal);
   try {
     let res: Response;
     try {
-      res = await fetch(url, { ...init, signal: controller.signal });
+      res = await fetch(url, { ...init, signal: abort.signal });
     } catch (e: any) {
+      if (abort.canceled()) throw new TextGenerationCanceledError();
       if (e?.name === "AbortError") {
         return { ok: false, status: 0, statusText: "TIMEOUT", text: `Request timed out after ${timeoutMs}ms` };
       }
       return { ok: false, status: 0, statusText: "NETWORK", text: String(e?.message ?? e) };
     }
     const text = await res.text().catch(() => "");
+    if (abort.canceled()) throw new TextGenerationCanceledError();
     if (!res.ok) return { ok: false, status: res.status, statusText: res.statusText, text };
     return { ok: true, status: res.status, statusText: res.statusText, text };
   } finally {
-    clearTimeout(timer);
+    abort.dispose();
   }
 }
 
@@ -87,7 +91,8 @@ export async function geminiListModels(): Promise<string[]> {
   return geminiListModelsWithKey(apiBaseUrl, apiKey, listTimeoutMs);
 }
 
-export async function geminiChatComplete(messages: Message[], params?: TextGenParams) {
+export async function geminiChatComplete(messages: Message[], params?: TextGenParams, options: TextGenOptions = {}) {
+  const { onDelta, signal, json } = options;
   const cfg = loadConfig();
   const openaiBaseUrl = normalizeBaseUrl(cfg.text.googleGemini?.openaiBaseUrl || "https://generativelanguage.googleapis.com/v1beta/openai/");
   const apiKey = await getApiKeyFromConfig();
@@ -117,21 +122,36 @@ export async function geminiChatComplete(messages: Message[], params?: TextGenPa
   if (top_p !== undefined) body.top_p = top_p;
   if (max_tokens !== undefined) body.max_tokens = max_tokens;
 
-  const r = await fetchTextWithTimeout(`${openaiBaseUrl}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(body),
-  }, requestTimeoutMs);
+  const headers = {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${apiKey}`,
+  };
+  const url = `${openaiBaseUrl}/chat/completions`;
+
+  function send(payload: Record<string, any>) {
+    const init = { method: "POST", headers, body: JSON.stringify(onDelta ? { ...payload, stream: true } : payload) };
+    return onDelta
+      ? fetchTextStream(url, init, requestTimeoutMs, onDelta, signal)
+      : fetchTextWithTimeout(url, init, requestTimeoutMs, signal);
+  }
+
+  // The OpenAI endpoint maps json_schema onto Gemini's responseSchema, which rejects additionalProperties.
+  const responseFormat = json
+    ? openaiResponseFormat(json === true ? true : stripAdditionalProperties(json))
+    : undefined;
+  let r = await send(responseFormat ? { ...body, response_format: responseFormat } : body);
+  if (!r.ok && responseFormat && isConstraintRejected(r.status)) r = await send(body);
   if (!r.ok) {
     if (r.status === 0 && r.statusText === "TIMEOUT") throw new Error(formatTimeout("Gemini", requestTimeoutMs, "request"));
     if (r.status === 0 && r.statusText === "NETWORK") throw new Error(`Gemini network error: ${truncate(r.text)}`.trim());
     throw new Error(`HTTP ${r.status} ${r.statusText} ${truncate(r.text)}`.trim());
   }
-  const json = JSON.parse(r.text);
-  const content = json?.choices?.[0]?.message?.content;
+
+  if (onDelta) {
+    if (!r.text) throw new Error("Gemini stream returned no content.");
+    return r.text;
+  }
+  const content = JSON.parse(r.text)?.choices?.[0]?.message?.content;
   if (typeof content !== "string") throw new Error("Gemini response missing content.");
   return content;
 }
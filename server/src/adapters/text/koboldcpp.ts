@@ -1,4 +1,7 @@
 import { loadConfig } from "../../config/store.js";
+import { isConstraintRejected, jsonSchemaToGbnf, type JsonSchema } from "../../lib/jsonSchema.js";
+import { TextGenerationCanceledError, withTimeout } from "./cancel.js";
+import { fetchTextStream, type OnTextDelta } from "./stream.js";
 
 export type TextGenParams = {
   temperature?: number;
@@ -6,6 +9,19 @@ export type TextGenParams = {
   max_tokens?: number;
 };
 
+export type TextGenOptions = {
+  // Switches the request to streaming; the full text is still returned.
+  onDelta?: OnTextDelta;
+  signal?: AbortSignal;
+  // Ask for JSON output: `true` for any JSON object, or a JSON schema the reply must follow.
+  // Providers without constrained output ignore it and rely on the prompt.
+  json?: boolean | JsonSchema;
+  // Start of the reply to continue from; only the new text is returned. Only sent to providers where
+  // `supportsContinuation` is true: KoboldCPP appends it to a raw completion prompt, Ollama gets it as a
+  // trailing assistant message.
+  assistantPrefix?: string;
+};
+
 type PostResult =
   | { ok: true; json: any }
   | { ok: false; status: number; statusText: string; text: string };
@@ -14,9 +30,8 @@ function normalizeBaseUrl(url: string) {
   return url.replace(/\/+$/, "");
 }
 
-async function postJson(url: string, body: any, timeoutMs: number): Promise<PostResult> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
+async function postJson(url: string, body: any, timeoutMs: number, signal?: AbortSignal): Promise<PostResult> {
+  const abort = withTimeout(timeoutMs, signal);
   try {
     let res: Response;
     try {
@@ -24,9 +39,10 @@ async function postJson(url: string, body: any, timeoutMs: number): Promise<Post
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: abort.signal,
       });
     } catch (e: any) {
+      if (abort.canceled()) throw new TextGenerationCanceledError();
       if (e?.name === "AbortError") {
         return {
           ok: false,
@@ -40,6 +56,7 @@ async function postJson(url: string, body: any, timeoutMs: number): Promise<Post
     }
 
     const text = await res.text().catch(() => "");
+    if (abort.canceled()) throw new TextGenerationCanceledError();
     if (!res.ok) return { ok: false, status: res.status, statusText: res.statusText, text };
     try {
       return { ok: true, json: JSON.parse(text) };
@@ -47,7 +64,7 @@ async function postJson(url: string, body: any, timeoutMs: number): Promise<Post
       return { ok: false, status: res.status, statusText: res.statusText, text };
     }
   } finally {
-    clearTimeout(timer);
+    abort.dispose();
   }
 }
 
@@ -68,13 +85,57 @@ function buildMessages(systemPrompt?: string, userPrompt?: string) {
   return messages;
 }
 
-export async function koboldGenerateText(
+class KoboldHttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+function koboldError(result: { status: number; statusText: string; text: string }, timeoutMs: number) {
+  const snippet = result.text.slice(0, 500);
+  if (result.status === 0 && result.statusText === "TIMEOUT") {
+    return new Error(
+      `KoboldCPP request timed out after ${Math.round(timeoutMs / 1000)}s. ` +
+      "Increase \"Text Completion -> Request timeout\" in Settings, or reduce Max Tokens / use a shorter field preset."
+    );
+  }
+  if (result.status === 0 && result.statusText === "NETWORK") {
+    return new Error(`KoboldCPP network error: ${snippet}`.trim());
+  }
+  return new KoboldHttpError(`KoboldCPP error: HTTP ${result.status} ${result.statusText} ${snippet}`.trim(), result.status);
+}
+
+function jsonPost(body: any): RequestInit {
+  return {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  };
+}
+
+// Dropping the HTTP connection does not stop KoboldCPP, so a cancel also asks it to abort.
+export async function koboldAbort(baseUrl: string) {
+  try {
+    await fetch(`${normalizeBaseUrl(baseUrl)}/api/extra/abort`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+      signal: AbortSignal.timeout(5000),
+    });
+  } catch {
+    // best-effort
+  }
+}
+
+async function koboldRequest(
+  baseUrl: string,
   systemPrompt: string,
   userPrompt: string,
-  params?: TextGenParams,
+  params: TextGenParams | undefined,
+  { onDelta, signal, assistantPrefix }: TextGenOptions,
+  grammar?: string,
 ): Promise<string> {
   const cfg = loadConfig();
-  const baseUrl = normalizeBaseUrl(cfg.text.koboldcpp?.baseUrl || "http://127.0.0.1:5001");
   const model = cfg.text.koboldcpp?.model;
   const defaults = cfg.text.koboldcpp?.defaultParams ?? {};
   const timeoutMs = cfg.text.koboldcpp?.requestTimeoutMs ?? 10 * 60_000;
@@ -83,59 +144,90 @@ export async function koboldGenerateText(
   const top_p = params?.top_p ?? defaults.top_p;
   const max_tokens = params?.max_tokens ?? defaults.max_tokens;
 
-  const chatBody: any = {
-    messages: buildMessages(systemPrompt, userPrompt),
-  };
-  if (model) chatBody.model = model;
-  if (temperature !== undefined) chatBody.temperature = temperature;
-  if (top_p !== undefined) chatBody.top_p = top_p;
-  if (max_tokens !== undefined) chatBody.max_tokens = max_tokens;
+  function withSampling(body: any) {
+    if (model) body.model = model;
+    if (temperature !== undefined) body.temperature = temperature;
+    if (top_p !== undefined) body.top_p = top_p;
+    if (max_tokens !== undefined) body.max_tokens = max_tokens;
+    if (grammar) body.grammar = grammar;
+    return body;
+  }
 
-  const chat = await postJson(`${baseUrl}/v1/chat/completions`, chatBody, timeoutMs);
-  if (!chat.ok && (chat.status === 404 || chat.status === 405)) {
-    const completionBody: any = { prompt: `${systemPrompt}\n\n${userPrompt}`.trim() };
-    if (model) completionBody.model = model;
-    if (temperature !== undefined) completionBody.temperature = temperature;
-    if (top_p !== undefined) completionBody.top_p = top_p;
-    if (max_tokens !== undefined) completionBody.max_tokens = max_tokens;
-    const completion = await postJson(`${baseUrl}/v1/completions`, completionBody, timeoutMs);
-    if (!completion.ok) {
-      const snippet = completion.text.slice(0, 500);
-      if (completion.status === 0 && completion.statusText === "TIMEOUT") {
-        throw new Error(
-          `KoboldCPP request timed out after ${Math.round(timeoutMs / 1000)}s. ` +
-          "Increase \"Text Completion -> Request timeout\" in Settings, or reduce Max Tokens / use a shorter field preset."
-        );
-      }
-      if (completion.status === 0 && completion.statusText === "NETWORK") {
-        throw new Error(`KoboldCPP network error: ${snippet}`.trim());
-      }
-      throw new Error(`KoboldCPP error: HTTP ${completion.status} ${completion.statusText} ${snippet}`.trim());
+  const chatBody = withSampling({ messages: buildMessages(systemPrompt, userPrompt) });
+  const completionBody = () => withSampling({
+    prompt: `${systemPrompt}\n\n${userPrompt}`.trim() + (assistantPrefix ? `\n\n${assistantPrefix}` : ""),
+  });
+
+  // The chat endpoint starts a new reply after an assistant message, so a continuation goes through
+  // the raw completion endpoint where the model picks up right after the partial text.
+  if (assistantPrefix) {
+    if (onDelta) {
+      const streamed = await fetchTextStream(`${baseUrl}/v1/completions`, jsonPost({ ...completionBody(), stream: true }), timeoutMs, onDelta, signal);
+      if (!streamed.ok) throw koboldError(streamed, timeoutMs);
+      return streamed.text;
     }
+    const completion = await postJson(`${baseUrl}/v1/completions`, completionBody(), timeoutMs, signal);
+    if (!completion.ok) throw koboldError(completion, timeoutMs);
+    return extractCompletionText(completion.json) ?? "";
+  }
+
+  if (onDelta) {
+    let streamed = await fetchTextStream(`${baseUrl}/v1/chat/completions`, jsonPost({ ...chatBody, stream: true }), timeoutMs, onDelta, signal);
+    if (!streamed.ok && (streamed.status === 404 || streamed.status === 405)) {
+      streamed = await fetchTextStream(`${baseUrl}/v1/completions`, jsonPost({ ...completionBody(), stream: true }), timeoutMs, onDelta, signal);
+    }
+    if (!streamed.ok) throw koboldError(streamed, timeoutMs);
+    if (!streamed.text) throw new Error("KoboldCPP stream returned no text.");
+    return streamed.text;
+  }
+
+  const chat = await postJson(`${baseUrl}/v1/chat/completions`, chatBody, timeoutMs, signal);
+  if (!chat.ok && (chat.status === 404 || chat.status === 405)) {
+    const completion = await postJson(`${baseUrl}/v1/completions`, completionBody(), timeoutMs, signal);
+    if (!completion.ok) throw koboldError(completion, timeoutMs);
     const text = extractCompletionText(completion.json);
     if (!text) throw new Error("KoboldCPP response missing completion text.");
     return text;
   }
 
-  if (!chat.ok) {
-    const snippet = chat.text.slice(0, 500);
-    if (chat.status === 0 && chat.statusText === "TIMEOUT") {
-      throw new Error(
-        `KoboldCPP request timed out after ${Math.round(timeoutMs / 1000)}s. ` +
-        "Increase \"Text Completion -> Request timeout\" in Settings, or reduce Max Tokens / use a shorter field preset."
-      );
-    }
-    if (chat.status === 0 && chat.statusText === "NETWORK") {
-      throw new Error(`KoboldCPP network error: ${snippet}`.trim());
-    }
-    throw new Error(`KoboldCPP error: HTTP ${chat.status} ${chat.statusText} ${snippet}`.trim());
-  }
+  if (!chat.ok) throw koboldError(chat, timeoutMs);
 
   const content = extractChatContent(chat.json);
   if (!content) throw new Error("KoboldCPP response missing chat content.");
   return content;
 }
 
+// KoboldCPP (llama.cpp) has no JSON mode, so JSON requests carry a GBNF grammar built from the schema.
+async function koboldRequestConstrained(baseUrl: string, systemPrompt: string, userPrompt: string, params: TextGenParams | undefined, options: TextGenOptions) {
+  if (!options.json) return koboldRequest(baseUrl, systemPrompt, userPrompt, params, options);
+  const grammar = jsonSchemaToGbnf(options.json === true ? { type: "object" } : options.json);
+  try {
+    return await koboldRequest(baseUrl, systemPrompt, userPrompt, params, options, grammar);
+  } catch (e) {
+    if (!(e instanceof KoboldHttpError) || !isConstraintRejected(e.status)) throw e;
+    return koboldRequest(baseUrl, systemPrompt, userPrompt, params, options);
+  }
+}
+
+export async function koboldGenerateText(
+  systemPrompt: string,
+  userPrompt: string,
+  params?: TextGenParams,
+  options: TextGenOptions = {},
+): Promise<string> {
+  const cfg = loadConfig();
+  const baseUrl = normalizeBaseUrl(cfg.text.koboldcpp?.baseUrl || "http://127.0.0.1:5001");
+  const { signal } = options;
+  signal?.throwIfAborted();
+  const onAbort = () => void koboldAbort(baseUrl);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    return await koboldRequestConstrained(baseUrl, systemPrompt, userPrompt, params, options);
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
 export async function koboldListModels(): Promise<string[]> {
   const cfg = loadConfig();
   const baseUrl = normalizeBaseUrl(cfg.text.koboldcpp?.baseUrl || "http://127.0.0.1:5001");
@@ -0,0 +1,148 @@
+import { loadConfig } from "../../config/store.js";
+import { isConstraintRejected } from "../../lib/jsonSchema.js";
+import { TextGenerationCanceledError, withTimeout } from "./cancel.js";
+import type { TextGenOptions, TextGenParams } from "./koboldcpp.js";
+import type { Message } from "./openaiCompat.js";
+import { fetchNdjsonStream } from "./stream.js";
+
+type FetchResult =
+  | { ok: true; json: any }
+  | { ok: false; status: number; statusText: string; text: string };
+
+function normalizeBaseUrl(url: string) {
+  return url.replace(/\/+$/, "").replace(/\/api$/, "");
+}
+
+function baseUrlFromConfig() {
+  const cfg = loadConfig();
+  return normalizeBaseUrl(cfg.text.ollama?.baseUrl || "http://127.0.0.1:11434");
+}
+
+async function fetchJson(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<FetchResult> {
+  const abort = withTimeout(timeoutMs, signal);
+  try {
+    let res: Response;
+    try {
+      res = await fetch(url, { ...init, signal: abort.signal });
+    } catch (e: any) {
+      if (abort.canceled()) throw new TextGenerationCanceledError();
+      if (e?.name === "AbortError") {
+        return { ok: false, status: 0, statusText: "TIMEOUT", text: `Request timed out after ${timeoutMs}ms` };
+      }
+      return { ok: false, status: 0, statusText: "NETWORK", text: String(e?.message ?? e) };
+    }
+    const text = await res.text().catch(() => "");
+    if (abort.canceled()) throw new TextGenerationCanceledError();
+    if (!res.ok) return { ok: false, status: res.status, statusText: res.statusText, text };
+    try {
+      return { ok: true, json: JSON.parse(text) };
+    } catch {
+      return { ok: false, status: res.status, statusText: "BAD_JSON", text };
+    }
+  } finally {
+    abort.dispose();
+  }
+}
+
+function ollamaError(result: { status: number; statusText: string; text: string }, timeoutMs: number) {
+  const snippet = result.text.slice(0, 500);
+  if (result.status === 0 && result.statusText === "TIMEOUT") {
+    return new Error(
+      `Ollama request timed out after ${Math.round(timeoutMs / 1000)}s. ` +
+      "Increase \"Text Completion -> Request timeout\" in Settings, or reduce Max Tokens / use a shorter field preset."
+    );
+  }
+  if (result.status === 0 && result.statusText === "NETWORK") {
+    return new Error(`Ollama network error: ${snippet}`.trim());
+  }
+  return new Error(`Ollama error: HTTP ${result.status} ${result.statusText} ${snippet}`.trim());
+}
+
+// Ollama reads a bare number as seconds but rejects unit-less strings such as "-1".
+function keepAliveValue(value: string | undefined) {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  return /^-?\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+function contentOf(payload: any): string | null {
+  const content = payload?.message?.content;
+  return typeof content === "string" ? content : null;
+}
+
+export async function ollamaListModelsAt(baseUrl: string, timeoutMs = 20_000): Promise<string[]> {
+  const r = await fetchJson(`${normalizeBaseUrl(baseUrl)}/api/tags`, {}, timeoutMs);
+  if (!r.ok) throw ollamaError(r, timeoutMs);
+  const models = Array.isArray(r.json?.models) ? r.json.models : [];
+  return models.map((m: any) => m?.name ?? m?.model).filter((name: any) => typeof name === "string");
+}
+
+export async function ollamaListModels(): Promise<string[]> {
+  const cfg = loadConfig();
+  const requestTimeoutMs = cfg.text.ollama?.requestTimeoutMs ?? 10 * 60_000;
+  return ollamaListModelsAt(baseUrlFromConfig(), Math.min(20_000, requestTimeoutMs));
+}
+
+export async function ollamaPing(): Promise<boolean> {
+  const models = await ollamaListModels();
+  return models.length > 0;
+}
+
+/**
+ * Calls the native /api/chat endpoint. `options.json` maps to Ollama's `format`
+ * ("json" or a JSON schema), which constrains decoding instead of only asking for JSON.
+ */
+export async function ollamaChatComplete(messages: Message[], params?: TextGenParams, options: TextGenOptions = {}) {
+  const { onDelta, signal, json } = options;
+  const cfg = loadConfig();
+  const ollama = cfg.text.ollama;
+  const baseUrl = baseUrlFromConfig();
+  const requestTimeoutMs = ollama?.requestTimeoutMs ?? 10 * 60_000;
+
+  let model = ollama?.model;
+  if (!model) {
+    const models = await ollamaListModelsAt(baseUrl, Math.min(20_000, requestTimeoutMs));
+    model = models[0];
+  }
+  if (!model) throw new Error("No model available from Ollama. Pull one with `ollama pull <model>`.");
+
+  const defaults = ollama?.defaultParams ?? {};
+  const modelOptions: Record<string, number> = {};
+  const temperature = params?.temperature ?? defaults.temperature;
+  const top_p = params?.top_p ?? defaults.top_p;
+  const max_tokens = params?.max_tokens ?? defaults.max_tokens;
+  if (temperature !== undefined) modelOptions.temperature = temperature;
+  if (top_p !== undefined) modelOptions.top_p = top_p;
+  if (max_tokens !== undefined) modelOptions.num_predict = max_tokens;
+  if (ollama?.numCtx !== undefined) modelOptions.num_ctx = ollama.numCtx;
+
+  const body: Record<string, any> = {
+    model,
+    messages,
+    stream: Boolean(onDelta),
+    options: modelOptions,
+  };
+  const keepAlive = keepAliveValue(ollama?.keepAlive);
+  if (keepAlive !== undefined) body.keep_alive = keepAlive;
+  const url = `${baseUrl}/api/chat`;
+
+  function send(payload: Record<string, any>) {
+    const init = { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(payload) };
+    return onDelta
+      ? fetchNdjsonStream(url, init, requestTimeoutMs, onDelta, contentOf, signal)
+      : fetchJson(url, init, requestTimeoutMs, signal);
+  }
+
+  // Ollama before 0.5 only knows format "json" and rejects a schema.
+  let r = await send(json ? { ...body, format: json === true ? "json" : json } : body);
+  if (!r.ok && json && isConstraintRejected(r.status)) r = await send(body);
+  if (!r.ok) throw ollamaError(r, requestTimeoutMs);
+
+  if ("text" in r) {
+    if (!r.text) throw new Error("Ollama stream returned no content.");
+    return r.text;
+  }
+  const content = contentOf(r.json);
+  if (content === null) throw new Error("Ollama response missing message content.");
+  return content;
+}
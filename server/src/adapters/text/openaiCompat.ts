@@ -1,6 +1,9 @@
 import { getApiKeyFromConfig as getApiKeyFromConfigValue, loadConfig } from "../../config/store.js";
+import { isConstraintRejected, openaiResponseFormat } from "../../lib/jsonSchema.js";
 import { readApiKey } from "../../secrets/secretStore.js";
-import type { TextGenParams } from "./koboldcpp.js";
+import { TextGenerationCanceledError, withTimeout } from "./cancel.js";
+import type { TextGenOptions, TextGenParams } from "./koboldcpp.js";
+import { fetchTextStream } from "./stream.js";
 
 export type Message = { role: "system" | "user" | "assistant"; content: string };
 
@@ -18,24 +21,25 @@ type FetchTextResult =
   | { ok: true; status: number; statusText: string; text: string }
   | { ok: false; status: number; statusText: "TIMEOUT" | "NETWORK" | string; text: string };
 
-async function fetchTextWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<FetchTextResult> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
+async function fetchTextWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<FetchTextResult> {
+  const abort = withTimeout(timeoutMs, signal);
   try {
     let res: Response;
     try {
-      res = await fetch(url, { ...init, signal: controller.signal });
+      res = await fetch(url, { ...init, signal: abort.signal });
     } catch (e: any) {
+      if (abort.canceled()) throw new TextGenerationCanceledError();
       if (e?.name === "AbortError") {
         return { ok: false, status: 0, statusText: "TIMEOUT", text: `Request timed out after ${timeoutMs}ms` };
       }
       return { ok: false, status: 0, statusText: "NETWORK", text: String(e?.message ?? e) };
     }
     const text = await res.text().catch(() => "");
+    if (abort.canceled()) throw new TextGenerationCanceledError();
     if (!res.ok) return { ok: false, status: res.status, statusText: res.statusText, text };
     return { ok: true, status: res.status, statusText: res.statusText, text };
   } finally {
-    clearTimeout(timer);
+    abort.dispose();
   }
 }
 
@@ -58,23 +62,6 @@ async function getJson(url: string, apiKey: string | null | undefined, timeoutMs
   return JSON.parse(r.text);
 }
 
-async function postJson(url: string, body: any, apiKey: string | null | undefined, timeoutMs: number) {
-  const headers: Record<string, string> = { "Content-Type": "application/json" };
-  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
-  const r = await fetchTextWithTimeout(
-    url,
-    { method: "POST", headers, body: JSON.stringify(body) },
-    timeoutMs
-  );
-
-  if (!r.ok) {
-    if (r.status === 0 && r.statusText === "TIMEOUT") throw new Error(formatTimeout("OpenAI-compatible", timeoutMs, "request"));
-    if (r.status === 0 && r.statusText === "NETWORK") throw new Error(`OpenAI-compatible network error: ${truncate(r.text)}`.trim());
-    throw new Error(`HTTP ${r.status} ${r.statusText} ${truncate(r.text)}`.trim());
-  }
-  return JSON.parse(r.text);
-}
-
 export async function openaiListModelsWithKey(baseUrl: string, apiKey?: string | null, timeoutMs = 20_000): Promise<string[]> {
   const normalized = normalizeBaseUrl(baseUrl);
   const data = await getJson(`${normalized}/models`, apiKey ?? undefined, timeoutMs);
@@ -103,7 +90,14 @@ export async function openaiListModels(): Promise<string[]> {
   return openaiListModelsWithKey(baseUrl, apiKey, listTimeoutMs);
 }
 
-export async function openaiChatComplete(messages: Message[], params?: TextGenParams) {
+function requestError(r: { status: number; statusText: string; text: string }, timeoutMs: number) {
+  if (r.status === 0 && r.statusText === "TIMEOUT") return new Error(formatTimeout("OpenAI-compatible", timeoutMs, "request"));
+  if (r.status === 0 && r.statusText === "NETWORK") return new Error(`OpenAI-compatible network error: ${truncate(r.text)}`.trim());
+  return new Error(`HTTP ${r.status} ${r.statusText} ${truncate(r.text)}`.trim());
+}
+
+export async function openaiChatComplete(messages: Message[], params?: TextGenParams, options: TextGenOptions = {}) {
+  const { onDelta, signal, json } = options;
   const cfg = loadConfig();
   const baseUrl = normalizeBaseUrl(cfg.text.openaiCompat?.baseUrl || "http://127.0.0.1:1234/v1");
   const apiKey = await getApiKeyFromConfig();
@@ -130,8 +124,26 @@ export async function openaiChatComplete(messages: Message[], params?: TextGenPa
   if (top_p !== undefined) body.top_p = top_p;
   if (max_tokens !== undefined) body.max_tokens = max_tokens;
 
-  const json = await postJson(`${baseUrl}/chat/completions`, body, apiKey, requestTimeoutMs);
-  const content = json?.choices?.[0]?.message?.content;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  const url = `${baseUrl}/chat/completions`;
+
+  function send(payload: Record<string, any>) {
+    const init = { method: "POST", headers, body: JSON.stringify(onDelta ? { ...payload, stream: true } : payload) };
+    return onDelta
+      ? fetchTextStream(url, init, requestTimeoutMs, onDelta, signal)
+      : fetchTextWithTimeout(url, init, requestTimeoutMs, signal);
+  }
+
+  let r = await send(json ? { ...body, response_format: openaiResponseFormat(json) } : body);
+  if (!r.ok && json && isConstraintRejected(r.status)) r = await send(body);
+  if (!r.ok) throw requestError(r, requestTimeoutMs);
+
+  if (onDelta) {
+    if (!r.text) throw new Error("OpenAI-compatible stream returned no content.");
+    return r.text;
+  }
+  const content = JSON.parse(r.text)?.choices?.[0]?.message?.content;
   if (typeof content !== "string") throw new Error("OpenAI-compatible response missing content.");
   return content;
 }
@@ -1,25 +1,55 @@
 import { loadConfig } from "../../config/store.js";
-import { koboldGenerateText, koboldListModels, koboldPing, type TextGenParams } from "./koboldcpp.js";
+import { koboldGenerateText, koboldListModels, koboldPing, type TextGenOptions, type TextGenParams } from "./koboldcpp.js";
 import { openaiChatComplete, openaiListModels, openaiPing, type Message } from "./openaiCompat.js";
 import { geminiChatComplete, geminiListModels, geminiPing } from "./googleGemini.js";
+import { ollamaChatComplete, ollamaListModels, ollamaPing } from "./ollama.js";
+import type { OnTextDelta } from "./stream.js";
 
-export type TextProvider = "koboldcpp" | "openai_compat" | "google_gemini";
+export type TextProvider = "koboldcpp" | "openai_compat" | "google_gemini" | "ollama";
 
-export async function generateText(systemPrompt: string, userPrompt: string, params?: TextGenParams) {
+export type { OnTextDelta, TextGenOptions, TextGenParams };
+
+function chatMessages(systemPrompt: string, userPrompt: string, options?: TextGenOptions) {
+  const messages: Message[] = [];
+  if (systemPrompt) messages.push({ role: "system", content: systemPrompt });
+  messages.push({ role: "user", content: userPrompt });
+  if (options?.assistantPrefix) messages.push({ role: "assistant", content: options.assistantPrefix });
+  return messages;
+}
+
+// Whether a reply can be continued from `assistantPrefix`. OpenAI-compatible servers and Gemini usually
+// start a new reply after an assistant message instead of extending it.
+export function supportsContinuation() {
+  const provider: TextProvider = loadConfig().text.provider;
+  return provider === "koboldcpp" || provider === "ollama";
+}
+
+export async function generateText(systemPrompt: string, userPrompt: string, params?: TextGenParams, options?: TextGenOptions) {
   const cfg = loadConfig();
   if (cfg.text.provider === "openai_compat") {
-    const messages: Message[] = [];
-    if (systemPrompt) messages.push({ role: "system", content: systemPrompt });
-    messages.push({ role: "user", content: userPrompt });
-    return openaiChatComplete(messages, params);
+    return openaiChatComplete(chatMessages(systemPrompt, userPrompt, options), params, options);
   }
   if (cfg.text.provider === "google_gemini") {
-    const messages: Message[] = [];
-    if (systemPrompt) messages.push({ role: "system", content: systemPrompt });
-    messages.push({ role: "user", content: userPrompt });
-    return geminiChatComplete(messages, params);
+    return geminiChatComplete(chatMessages(systemPrompt, userPrompt, options), params, options);
+  }
+  if (cfg.text.provider === "ollama") {
+    return ollamaChatComplete(chatMessages(systemPrompt, userPrompt, options), params, options);
   }
-  return koboldGenerateText(systemPrompt, userPrompt, params);
+  return koboldGenerateText(systemPrompt, userPrompt, params, options);
+}
+
+// Provider and configured model for generation metadata; an unset model means the backend's default.
+export function activeTextModel() {
+  const cfg = loadConfig();
+  const provider: TextProvider = cfg.text.provider;
+  const model = provider === "openai_compat"
+    ? cfg.text.openaiCompat.model
+    : provider === "google_gemini"
+      ? cfg.text.googleGemini.model
+      : provider === "ollama"
+        ? cfg.text.ollama.model
+        : cfg.text.koboldcpp.model;
+  return { provider, model: model || "default" };
 }
 
 export async function listModels() {
@@ -30,6 +60,9 @@ export async function listModels() {
   if (cfg.text.provider === "google_gemini") {
     return geminiListModels();
   }
+  if (cfg.text.provider === "ollama") {
+    return ollamaListModels();
+  }
   return koboldListModels();
 }
 
@@ -41,5 +74,8 @@ export async function pingProvider() {
   if (cfg.text.provider === "google_gemini") {
     return geminiPing();
   }
+  if (cfg.text.provider === "ollama") {
+    return ollamaPing();
+  }
   return koboldPing();
 }
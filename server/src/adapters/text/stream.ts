@@ -0,0 +1,130 @@
+import { TextGenerationCanceledError, withTimeout } from "./cancel.js";
+
+export type OnTextDelta = (delta: string, text: string) => void;
+
+export type StreamResult =
+  | { ok: true; text: string }
+  | { ok: false; status: number; statusText: "TIMEOUT" | "NETWORK" | string; text: string };
+
+// What one line of a streamed response contributes: more text, the end of the stream, or an error.
+type StreamLine = { delta?: string | null; done?: boolean; error?: unknown } | null;
+
+function deltaFromChunk(payload: any): string | null {
+  const choice = payload?.choices?.[0];
+  const content = choice?.delta?.content ?? choice?.text;
+  return typeof content === "string" ? content : null;
+}
+
+function parseSseLine(line: string): StreamLine {
+  if (!line.startsWith("data:")) return null;
+  const data = line.slice("data:".length).trim();
+  if (data === "[DONE]") return { done: true };
+  try {
+    const payload = JSON.parse(data);
+    if (payload?.error) return { error: payload.error };
+    return { delta: deltaFromChunk(payload) };
+  } catch {
+    return null;
+  }
+}
+
+async function readLineStream(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  onDelta: OnTextDelta,
+  parseLine: (line: string) => StreamLine,
+  signal?: AbortSignal,
+): Promise<StreamResult> {
+  const abort = withTimeout(timeoutMs, signal);
+  let text = "";
+  try {
+    let res: Response;
+    try {
+      res = await fetch(url, { ...init, signal: abort.signal });
+    } catch (e: any) {
+      if (abort.canceled()) throw new TextGenerationCanceledError();
+      if (e?.name === "AbortError") {
+        return { ok: false, status: 0, statusText: "TIMEOUT", text: `Request timed out after ${timeoutMs}ms` };
+      }
+      return { ok: false, status: 0, statusText: "NETWORK", text: String(e?.message ?? e) };
+    }
+    if (!res.ok) {
+      const body = await res.text().catch(() => "");
+      return { ok: false, status: res.status, statusText: res.statusText, text: body };
+    }
+    if (!res.body) return { ok: false, status: res.status, statusText: "NETWORK", text: "Response has no body" };
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let newline: number;
+        while ((newline = buffer.indexOf("\n")) >= 0) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          const parsed = line ? parseLine(line) : null;
+          if (!parsed) continue;
+          if (parsed.error) {
+            return { ok: false, status: res.status, statusText: "STREAM_ERROR", text: JSON.stringify(parsed.error) };
+          }
+          if (parsed.delta) {
+            text += parsed.delta;
+            onDelta(parsed.delta, text);
+          }
+          if (parsed.done) return { ok: true, text };
+        }
+      }
+    } catch (e: any) {
+      if (abort.canceled()) throw new TextGenerationCanceledError();
+      if (e?.name === "AbortError") {
+        return { ok: false, status: 0, statusText: "TIMEOUT", text: `Request timed out after ${timeoutMs}ms` };
+      }
+      return { ok: false, status: 0, statusText: "NETWORK", text: String(e?.message ?? e) };
+    }
+    return { ok: true, text };
+  } finally {
+    abort.dispose();
+  }
+}
+
+/**
+ * POSTs a request with `stream: true` and reads the OpenAI-style server-sent events
+ * (chat `delta.content` or completion `text`), forwarding each piece as it arrives.
+ * The timeout covers the whole stream, not just the first byte; aborting `signal` throws
+ * TextGenerationCanceledError.
+ */
+export async function fetchTextStream(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  onDelta: OnTextDelta,
+  signal?: AbortSignal,
+): Promise<StreamResult> {
+  return readLineStream(url, init, timeoutMs, onDelta, parseSseLine, signal);
+}
+
+/** Same as fetchTextStream for APIs that stream one JSON object per line (Ollama). */
+export async function fetchNdjsonStream(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  onDelta: OnTextDelta,
+  deltaOf: (payload: any) => string | null,
+  signal?: AbortSignal,
+): Promise<StreamResult> {
+  return readLineStream(url, init, timeoutMs, onDelta, (line) => {
+    try {
+      const payload = JSON.parse(line);
+      if (payload?.error) return { error: payload.error };
+      return { delta: deltaOf(payload), done: payload?.done === true };
+    } catch {
+      return null;
+    }
+  }, signal);
+}
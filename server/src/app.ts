@@ -17,6 +17,7 @@ import { libraryRouter } from "./routes/library.js";
 import { textRouter } from "./routes/text.js";
 import { keysRouter } from "./routes/keys.js";
 import { jobsRouter } from "./routes/jobs.js";
+import { promptsRouter } from "./routes/prompts.js";
 import { fail } from "./lib/api.js";
 import { getOutputDirPath } from "./lib/imageStore.js";
 import { zodToDetails } from "./lib/errorMap.js";
@@ -50,6 +51,7 @@ export function createApp() {
   app.use("/api/image", jobsRouter);
   app.use("/api/text", textRouter);
   app.use("/api/keys", keysRouter);
+  app.use("/api/prompts", promptsRouter);
 
   // If an /api route wasn't matched, return a JSON 404 (don't fall into SPA)
   app.use("/api", (req: any, res: any) => {
@@ -5,7 +5,7 @@ const defaultLibraryDir = path.resolve(process.cwd(), "data", "library");
 
 export const ConfigSchema = z.object({
   text: z.object({
-    provider: z.enum(["koboldcpp", "openai_compat", "google_gemini"]).default("koboldcpp"),
+    provider: z.enum(["koboldcpp", "openai_compat", "google_gemini", "ollama"]).default("koboldcpp"),
     koboldcpp: z.object({
       baseUrl: z.string().default("http://127.0.0.1:5001"),
       model: z.string().optional(),
@@ -39,6 +39,19 @@ export const ConfigSchema = z.object({
         max_tokens: z.number().int().optional(),
       }).default({}),
     }).default({}),
+    ollama: z.object({
+      baseUrl: z.string().default("http://127.0.0.1:11434"),
+      model: z.string().optional(),
+      requestTimeoutMs: z.number().int().min(1000).max(60 * 60 * 1000).default(10 * 60 * 1000),
+      // Duration ("5m", "1h") or seconds; "-1" keeps the model loaded.
+      keepAlive: z.string().default("5m"),
+      numCtx: z.number().int().min(512).max(1_048_576).optional(),
+      defaultParams: z.object({
+        temperature: z.number().optional(),
+        top_p: z.number().optional(),
+        max_tokens: z.number().int().optional(),
+      }).default({}),
+    }).default({}),
   }).default({}),
 
   image: z.object({
@@ -198,6 +211,8 @@ export const ConfigSchema = z.object({
     contentRating: z.enum(["sfw", "nsfw_allowed"]).default("nsfw_allowed"),
     structuredJson: z.object({
       enabled: z.boolean().default(true),
+      constrained: z.boolean().default(true),
+      continueTruncated: z.boolean().default(true),
       temperature: z.number().min(0).max(2).default(0.3),
       top_p: z.number().min(0).max(1).default(0.9),
     }).default({}),
@@ -212,6 +227,12 @@ export const ConfigSchema = z.object({
         creator_notes: z.enum(["inherit", "short", "detailed", "verbose"]).optional(),
         tags: z.enum(["inherit", "short", "detailed", "verbose"]).optional(),
       }).default({}),
+      // Re-request generated fields that land outside their preset range (one extra request).
+      enforceLength: z.boolean().default(false),
+    }).default({}),
+    tokens: z.object({
+      tokenizer: z.enum(["llama3", "mistral", "gpt4o", "gpt4"]).default("llama3"),
+      permanentBudget: z.number().int().min(0).max(100000).default(1200),
     }).default({}),
   }).default({}),
 
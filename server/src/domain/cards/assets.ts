@@ -0,0 +1,86 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+export type CardAsset = {
+  type: string;
+  uri: string;
+  name: string;
+  ext: string;
+  [key: string]: any;
+};
+
+// Asset files (CharX audio, backgrounds, ...) stay here so cards sent to the browser only carry a
+// reference; the workspace is persisted in localStorage, which cannot hold them.
+const ASSETS_DIR = path.join(process.cwd(), "data", "assets");
+const STORED_PREFIX = "ccg-asset://";
+const STORED_NAME = /^[a-f0-9]{64}\.[a-z0-9]{1,10}$/;
+
+const MIME_BY_EXT: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+  mp3: "audio/mpeg",
+  ogg: "audio/ogg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  webm: "video/webm",
+};
+
+export function mimeForExt(ext: string) {
+  return MIME_BY_EXT[ext.toLowerCase()] ?? "application/octet-stream";
+}
+
+export function parseDataUri(uri: string) {
+  const match = uri.match(/^data:([^;,]+)?(;base64)?,(.*)$/is);
+  if (!match) return null;
+  return match[2]
+    ? Buffer.from(match[3], "base64")
+    : Buffer.from(decodeURIComponent(match[3]), "utf-8");
+}
+
+function safeExt(ext: string) {
+  return ext.toLowerCase().replace(/[^a-z0-9]/g, "").slice(0, 10) || "bin";
+}
+
+/** Stores asset bytes under their hash and returns the reference to put in the card. */
+export function storeAsset(bytes: Buffer, ext: string) {
+  const name = `${crypto.createHash("sha256").update(bytes).digest("hex")}.${safeExt(ext)}`;
+  const filePath = path.join(ASSETS_DIR, name);
+  if (!fs.existsSync(filePath)) {
+    fs.mkdirSync(ASSETS_DIR, { recursive: true });
+    fs.writeFileSync(filePath, bytes);
+  }
+  return `${STORED_PREFIX}${name}`;
+}
+
+export function readStoredAsset(uri: string): Buffer | null {
+  if (!uri.startsWith(STORED_PREFIX)) return null;
+  const name = uri.slice(STORED_PREFIX.length);
+  if (!STORED_NAME.test(name)) return null;
+  const filePath = path.join(ASSETS_DIR, name);
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+}
+
+/** Moves data: URI assets of a card into the asset store. */
+export function stashInlineAssets<T extends { data: Record<string, any> }>(card: T): T {
+  const assets = card.data?.assets;
+  if (!Array.isArray(assets)) return card;
+  const stashed = assets.map((asset: CardAsset) => {
+    const bytes = typeof asset?.uri === "string" && asset.uri.startsWith("data:") ? parseDataUri(asset.uri) : null;
+    return bytes ? { ...asset, uri: storeAsset(bytes, String(asset.ext ?? "")) } : asset;
+  });
+  return { ...card, data: { ...card.data, assets: stashed } };
+}
+
+/** Turns stored asset references back into data: URIs for files written outside the app. */
+export function inlineStoredAssets(assets: CardAsset[]): CardAsset[] {
+  return assets.map((asset) => {
+    const bytes = typeof asset?.uri === "string" ? readStoredAsset(asset.uri) : null;
+    if (!bytes) return asset;
+    return { ...asset, uri: `data:${mimeForExt(String(asset.ext ?? ""))};base64,${bytes.toString("base64")}` };
+  });
+}
@@ -0,0 +1,140 @@
+import { z } from "zod";
+
+export type CharacterBookPosition = "before_char" | "after_char";
+
+export type CharacterBookEntry = {
+  keys: string[];
+  content: string;
+  extensions: Record<string, any>;
+  enabled: boolean;
+  insertion_order: number;
+  case_sensitive?: boolean;
+  name?: string;
+  priority?: number;
+  id?: number;
+  comment?: string;
+  selective?: boolean;
+  secondary_keys?: string[];
+  constant?: boolean;
+  position?: CharacterBookPosition;
+  [key: string]: any;
+};
+
+export type CharacterBook = {
+  name?: string;
+  description?: string;
+  scan_depth?: number;
+  token_budget?: number;
+  recursive_scanning?: boolean;
+  extensions: Record<string, any>;
+  entries: CharacterBookEntry[];
+  [key: string]: any;
+};
+
+const KeyListSchema = z
+  .union([z.array(z.string()), z.string()])
+  .optional()
+  .transform((value) => {
+    if (value == null) return [];
+    const list = Array.isArray(value) ? value : value.split(",");
+    return list.map((key) => key.trim()).filter(Boolean);
+  });
+
+const POSITIONS = new Set<unknown>(["before_char", "after_char"]);
+
+export const CharacterBookEntrySchema = z.object({
+  keys: KeyListSchema,
+  content: z.string().optional().default(""),
+  extensions: z.record(z.any()).optional().default({}),
+  enabled: z.boolean().optional().default(true),
+  insertion_order: z.number().optional().default(100),
+  case_sensitive: z.boolean().optional(),
+  name: z.string().optional(),
+  priority: z.number().optional(),
+  // SillyTavern and other editors often write ids as strings.
+  id: z
+    .union([z.number(), z.string()])
+    .optional()
+    .transform((value) => {
+      if (typeof value === "number" || value === undefined) return value;
+      const parsed = Number(value.trim());
+      return value.trim() && Number.isFinite(parsed) ? parsed : undefined;
+    }),
+  comment: z.string().optional(),
+  selective: z.boolean().optional(),
+  secondary_keys: KeyListSchema,
+  constant: z.boolean().optional(),
+  position: z.unknown().optional(),
+}).passthrough().transform(({ position, ...entry }) => {
+  if (POSITIONS.has(position)) return { ...entry, position: position as CharacterBookPosition };
+  // Positions outside the spec (e.g. SillyTavern's numeric ones) are kept where SillyTavern reads them.
+  if (position !== undefined && position !== null && entry.extensions.position === undefined) {
+    return { ...entry, extensions: { ...entry.extensions, position } };
+  }
+  return entry;
+});
+
+export type DroppedBookEntry = { index: number; message: string };
+
+// Entries are parsed one by one so a single broken entry does not discard the whole book.
+function parseEntries(entries: unknown[], dropped: DroppedBookEntry[]) {
+  const out: CharacterBookEntry[] = [];
+  entries.forEach((entry, index) => {
+    const parsed = CharacterBookEntrySchema.safeParse(entry);
+    if (parsed.success) {
+      out.push(parsed.data as CharacterBookEntry);
+      return;
+    }
+    const issue = parsed.error.issues[0];
+    const message = issue ? `${issue.path.join(".") || "entry"}: ${issue.message}` : "Invalid entry";
+    dropped.push({ index, message });
+  });
+  return out;
+}
+
+export const CharacterBookSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  scan_depth: z.number().optional(),
+  token_budget: z.number().optional(),
+  recursive_scanning: z.boolean().optional(),
+  extensions: z.record(z.any()).optional().default({}),
+  entries: z
+    .array(z.unknown())
+    .optional()
+    .default([])
+    .transform((entries) => parseEntries(entries, [])),
+}).passthrough();
+
+/**
+ * Parses a character_book and lists the entries that could not be recovered. The book is null
+ * when its top-level fields are unusable.
+ */
+export function parseCharacterBook(value: unknown): { book: CharacterBook | null; dropped: DroppedBookEntry[] } {
+  const dropped: DroppedBookEntry[] = [];
+  if (!value || typeof value !== "object") return { book: null, dropped };
+  const { entries: rawEntries, ...rest } = value as Record<string, any>;
+  const parsed = CharacterBookSchema.safeParse(rest);
+  if (!parsed.success) return { book: null, dropped };
+  const entries = Array.isArray(rawEntries) ? parseEntries(rawEntries, dropped) : [];
+  return { book: { ...parsed.data, entries } as CharacterBook, dropped };
+}
+
+/**
+ * Coerces a character_book from any card into spec shape. Returns null when there is nothing
+ * worth writing so empty books are left out of saved cards.
+ */
+export function normalizeCharacterBook(value: unknown): CharacterBook | null {
+  const { book } = parseCharacterBook(value);
+  if (!book) return null;
+  book.entries = book.entries.filter((entry) => entry.content.trim() || entry.keys.length);
+  if (!book.entries.length && !book.name?.trim() && !book.description?.trim()) return null;
+  return book;
+}
+
+export function sortedActiveEntries(book: CharacterBook | null | undefined) {
+  if (!book) return [];
+  return book.entries
+    .filter((entry) => entry.enabled !== false && entry.content.trim())
+    .sort((a, b) => (a.insertion_order ?? 0) - (b.insertion_order ?? 0));
+}
@@ -0,0 +1,141 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import sanitizeFilename from "sanitize-filename";
+
+import { mimeForExt, parseDataUri, storeAsset, type CardAsset } from "./assets.js";
+import { buildV3CardFromStorePayload } from "./v3.js";
+
+// The CharX spec spells the scheme "embeded://"; some writers use the correct spelling.
+const EMBED_PREFIXES = ["embeded://", "embedded://"];
+const EMBED_PREFIX = "embeded://";
+
+function categoryForExt(ext: string) {
+  const mime = mimeForExt(ext);
+  if (mime.startsWith("image/")) return "images";
+  if (mime.startsWith("audio/")) return "audio";
+  if (mime.startsWith("video/")) return "videos";
+  return "other";
+}
+
+function isMainIcon(asset: CardAsset) {
+  return asset.type === "icon" && asset.name === "main";
+}
+
+function embeddedPath(uri: string) {
+  const prefix = EMBED_PREFIXES.find((p) => uri.toLowerCase().startsWith(p));
+  return prefix ? uri.slice(prefix.length).replace(/^\/+/, "") : null;
+}
+
+export function isCharx(buffer: Buffer) {
+  // Local file header signature "PK\x03\x04".
+  return buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50;
+}
+
+function unzipCharx(buffer: Buffer, wanted?: (name: string) => boolean) {
+  const names: string[] = [];
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(buffer), {
+      filter: (file) => {
+        names.push(file.name);
+        return !wanted || wanted(file.name);
+      },
+    });
+  } catch {
+    throw new Error("Invalid CharX archive");
+  }
+  const cardFile = files["card.json"];
+  if (!cardFile) throw new Error("CharX archive has no card.json");
+  return { card: JSON.parse(strFromU8(cardFile)), files, names: new Set(names) };
+}
+
+function cardAssets(card: any): CardAsset[] {
+  return Array.isArray(card?.data?.assets) ? card.data.assets : [];
+}
+
+function mainIconPath(card: any, names: Set<string>) {
+  for (const asset of cardAssets(card)) {
+    const filePath = isMainIcon(asset) && typeof asset.uri === "string" ? embeddedPath(asset.uri) : null;
+    if (filePath && names.has(filePath) && mimeForExt(String(asset.ext ?? "")).startsWith("image/")) return filePath;
+  }
+  return null;
+}
+
+/**
+ * Reads a .charx archive. Embedded assets go to the asset store and the card keeps references to
+ * them; the main icon is returned separately as the avatar, in whatever image format it has.
+ */
+export function readCharx(buffer: Buffer): { card: any; icon: Buffer | null } {
+  const { card, files, names } = unzipCharx(buffer);
+  const iconPath = mainIconPath(card, names);
+
+  const resolved = cardAssets(card).map((asset) => {
+    const filePath = typeof asset?.uri === "string" ? embeddedPath(asset.uri) : null;
+    const file = filePath ? files[filePath] : undefined;
+    if (!file) return asset;
+    if (filePath === iconPath) return { ...asset, uri: "ccdefault:" };
+    return { ...asset, uri: storeAsset(Buffer.from(file), String(asset.ext ?? "")) };
+  });
+  if (card?.data && typeof card.data === "object") card.data.assets = resolved;
+
+  return { card, icon: iconPath ? Buffer.from(files[iconPath]!) : null };
+}
+
+/** Reads only card.json, for listings that do not need the assets. */
+export function readCharxCard(buffer: Buffer): { card: any; hasIcon: boolean } {
+  const { card, names } = unzipCharx(buffer, (name) => name === "card.json");
+  return { card, hasIcon: Boolean(mainIconPath(card, names)) };
+}
+
+/** Reads only the main icon (and card.json to find it). */
+export function readCharxIcon(buffer: Buffer): Buffer | null {
+  const { card } = unzipCharx(buffer, (name) => name === "card.json");
+  const iconPaths = new Set(
+    cardAssets(card)
+      .filter(isMainIcon)
+      .map((asset) => (typeof asset.uri === "string" ? embeddedPath(asset.uri) : null))
+      .filter((filePath): filePath is string => Boolean(filePath)),
+  );
+  const { files, names } = unzipCharx(buffer, (name) => name === "card.json" || iconPaths.has(name));
+  const iconPath = mainIconPath(card, names);
+  return iconPath ? Buffer.from(files[iconPath]!) : null;
+}
+
+/**
+ * Builds a .charx archive (card.json + assets/) from a store payload. Stored and data: URI assets
+ * are unpacked into the archive and the avatar, when given, becomes the main icon.
+ */
+export function buildCharx(payload: Record<string, any>, avatarPng?: Buffer | null): Buffer {
+  const card = buildV3CardFromStorePayload(payload);
+  const files: Record<string, Uint8Array> = {};
+  const usedPaths = new Set<string>();
+
+  function addFile(asset: CardAsset, bytes: Buffer) {
+    const ext = sanitizeFilename(String(asset.ext || "bin")).toLowerCase() || "bin";
+    const type = sanitizeFilename(String(asset.type || "other")) || "other";
+    const base = sanitizeFilename(String(asset.name || "asset")).replace(/\s+/g, "_") || "asset";
+    let filePath = `assets/${type}/${categoryForExt(ext)}/${base}.${ext}`;
+    for (let i = 1; usedPaths.has(filePath); i++) {
+      filePath = `assets/${type}/${categoryForExt(ext)}/${base}_${i}.${ext}`;
+    }
+    usedPaths.add(filePath);
+    files[filePath] = new Uint8Array(bytes);
+    return `${EMBED_PREFIX}${filePath}`;
+  }
+
+  const assets: CardAsset[] = (card.data.assets as CardAsset[]).filter((asset) => !(avatarPng && isMainIcon(asset)));
+  const written = assets.map((asset) => {
+    const bytes = typeof asset.uri === "string" && asset.uri.startsWith("data:") ? parseDataUri(asset.uri) : null;
+    if (!bytes) return asset;
+    return { ...asset, uri: addFile(asset, bytes) };
+  });
+
+  if (avatarPng) {
+    const icon: CardAsset = { type: "icon", uri: "", name: "main", ext: "png" };
+    icon.uri = addFile(icon, avatarPng);
+    written.unshift(icon);
+  }
+
+  card.data.assets = written;
+  files["card.json"] = strToU8(JSON.stringify(card, null, 2));
+  return Buffer.from(zipSync(files, { level: 6 }));
+}
@@ -0,0 +1,360 @@
+import { parseCharacterBook, type CharacterBook, type CharacterBookEntry } from "./characterBook.js";
+import type { V2Card } from "./v2.js";
+
+export type ImportFormat =
+  | "chara_card_v3"
+  | "chara_card_v2"
+  | "tavern_v1"
+  | "pygmalion"
+  | "text_gen_webui"
+  | "agnai"
+  | "risu_character"
+  | "risu_module"
+  | "unknown";
+
+export type ImportReport = {
+  format: ImportFormat;
+  // Card fields that received a value.
+  mapped: string[];
+  // Source keys that had a value but no place in the card.
+  dropped: string[];
+};
+
+type Mapped = {
+  data: Record<string, any>;
+  used: string[];
+};
+
+type Mapper = (obj: Record<string, any>) => Mapped;
+
+const V1_KEYS = ["name", "description", "personality", "scenario", "first_mes", "mes_example"];
+
+// V2/V3 data fields that many exporters write at the top level without a `spec` wrapper.
+const FLAT_CARD_KEYS = [
+  "creator_notes",
+  "system_prompt",
+  "post_history_instructions",
+  "alternate_greetings",
+  "character_book",
+  "tags",
+  "creator",
+  "character_version",
+  "extensions",
+  "nickname",
+  "group_only_greetings",
+  "creator_notes_multilingual",
+  "source",
+  "assets",
+  "creation_date",
+  "modification_date",
+];
+
+// Source keys that only carry app state (avatars, chat logs, timestamps) and are not worth reporting.
+const IGNORED_KEYS = new Set([
+  "avatar",
+  "chat",
+  "chats",
+  "create_date",
+  "createdAt",
+  "updatedAt",
+  "_id",
+  "id",
+  "userId",
+  "kind",
+  "type",
+  "spec",
+  "spec_version",
+]);
+
+function str(value: any) {
+  return typeof value === "string" ? value : "";
+}
+
+function strList(value: any): string[] {
+  if (Array.isArray(value)) return value.filter((item) => typeof item === "string" && item.trim());
+  if (typeof value === "string") return value.split(",").map((item) => item.trim()).filter(Boolean);
+  return [];
+}
+
+function hasValue(value: any) {
+  if (value === undefined || value === null) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "object") return Object.keys(value).length > 0;
+  return true;
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+// Pygmalion/Ooba dialogue uses "You:" for the user and the character name for the bot.
+function normalizeDialogue(text: string, charName: string) {
+  let out = text.replace(/^\s*You\s*:/gim, "{{user}}:");
+  if (charName.trim()) {
+    const escaped = charName.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    out = out.replace(new RegExp(`^\\s*${escaped}\\s*:`, "gim"), "{{char}}:");
+  }
+  return out;
+}
+
+function bookFromEntries(name: string, entries: CharacterBookEntry[]): CharacterBook | undefined {
+  if (!entries.length) return undefined;
+  return { name: name || undefined, extensions: {}, entries };
+}
+
+function agnaiPersonaText(persona: any) {
+  if (!isObject(persona) || !isObject(persona.attributes)) return "";
+  const attributes = persona.attributes as Record<string, any>;
+  if (persona.kind === "text") return strList(attributes.text).join("\n").trim();
+  return Object.entries(attributes)
+    .map(([key, values]) => `${key}: ${strList(values).join(", ")}`)
+    .join("\n")
+    .trim();
+}
+
+function agnaiBook(book: any): CharacterBook | undefined {
+  if (!isObject(book) || !Array.isArray(book.entries)) return undefined;
+  const entries = book.entries
+    .filter(isObject)
+    .map((entry: Record<string, any>, index: number) => ({
+      keys: strList(entry.keywords),
+      content: str(entry.entry),
+      extensions: {},
+      enabled: entry.enabled !== false,
+      insertion_order: typeof entry.weight === "number" ? entry.weight : 100,
+      priority: typeof entry.priority === "number" ? entry.priority : undefined,
+      name: str(entry.name) || undefined,
+      id: index + 1,
+    }));
+  return bookFromEntries(str(book.name), entries);
+}
+
+function risuBook(name: string, lore: any): CharacterBook | undefined {
+  if (!Array.isArray(lore)) return undefined;
+  const entries = lore
+    .filter((entry: any) => isObject(entry) && entry.mode !== "folder")
+    .map((entry: Record<string, any>, index: number) => ({
+      keys: strList(entry.key),
+      content: str(entry.content),
+      extensions: {},
+      enabled: true,
+      insertion_order: typeof entry.insertorder === "number" ? entry.insertorder : 100,
+      comment: str(entry.comment) || undefined,
+      selective: entry.selective === true,
+      secondary_keys: strList(entry.secondkey),
+      constant: entry.alwaysActive === true || entry.mode === "constant",
+      id: index + 1,
+    }));
+  return bookFromEntries(name, entries);
+}
+
+// Other top-level keys (SillyTavern's talkativeness, fav, create_date, ...) are kept under extensions.
+const mapTavernV1: Mapper = (obj) => {
+  const data: Record<string, any> = {};
+  for (const key of V1_KEYS) data[key] = str(obj[key]);
+  for (const key of FLAT_CARD_KEYS) {
+    if (obj[key] !== undefined && obj[key] !== null) data[key] = obj[key];
+  }
+  const known = new Set<string>([...V1_KEYS, ...FLAT_CARD_KEYS, "spec", "spec_version"]);
+  const extensions: Record<string, any> = isObject(data.extensions) ? { ...data.extensions } : {};
+  const kept = Object.keys(obj).filter((key) => !known.has(key) && obj[key] !== undefined && !(key in extensions));
+  for (const key of kept) extensions[key] = obj[key];
+  if (kept.length) data.extensions = extensions;
+  return { data, used: [...V1_KEYS, ...FLAT_CARD_KEYS, ...kept] };
+};
+
+const mapPygmalion: Mapper = (obj) => {
+  const name = str(obj.char_name);
+  return {
+    data: {
+      name,
+      description: str(obj.char_persona),
+      personality: "",
+      scenario: str(obj.world_scenario),
+      first_mes: str(obj.char_greeting),
+      mes_example: normalizeDialogue(str(obj.example_dialogue), name),
+    },
+    used: ["char_name", "char_persona", "world_scenario", "char_greeting", "example_dialogue"],
+  };
+};
+
+const mapTextGenWebui: Mapper = (obj) => {
+  const name = str(obj.name);
+  return {
+    data: {
+      name,
+      description: str(obj.context),
+      personality: "",
+      scenario: "",
+      first_mes: str(obj.greeting),
+      mes_example: normalizeDialogue(str(obj.example_dialogue), name),
+    },
+    used: ["name", "context", "greeting", "example_dialogue"],
+  };
+};
+
+const mapAgnai: Mapper = (obj) => {
+  const book = agnaiBook(obj.characterBook);
+  return {
+    data: {
+      name: str(obj.name),
+      description: agnaiPersonaText(obj.persona),
+      personality: "",
+      scenario: str(obj.scenario),
+      first_mes: str(obj.greeting),
+      mes_example: str(obj.sampleChat),
+      creator_notes: str(obj.description),
+      image_prompt: str(obj.appearance),
+      tags: strList(obj.tags),
+      alternate_greetings: strList(obj.alternateGreetings),
+      system_prompt: str(obj.systemPrompt),
+      post_history_instructions: str(obj.postHistoryInstructions),
+      creator: str(obj.creator),
+      character_version: str(obj.characterVersion),
+      ...(book ? { character_book: book } : {}),
+    },
+    used: [
+      "name",
+      "persona",
+      "scenario",
+      "greeting",
+      "sampleChat",
+      "description",
+      "appearance",
+      "tags",
+      "alternateGreetings",
+      "systemPrompt",
+      "postHistoryInstructions",
+      "creator",
+      "characterVersion",
+      "characterBook",
+    ],
+  };
+};
+
+const mapRisuCharacter: Mapper = (obj) => {
+  const book = risuBook(`${str(obj.name)} lore`.trim(), obj.globalLore);
+  return {
+    data: {
+      name: str(obj.name),
+      description: str(obj.desc),
+      personality: str(obj.personality),
+      scenario: str(obj.scenario),
+      first_mes: str(obj.firstMessage),
+      mes_example: str(obj.exampleMessage),
+      creator_notes: str(obj.creatorNotes),
+      tags: strList(obj.tags),
+      alternate_greetings: strList(obj.alternateGreetings),
+      system_prompt: str(obj.systemPrompt),
+      post_history_instructions: str(obj.postHistoryInstructions),
+      creator: str(obj.creator),
+      character_version: str(obj.characterVersion),
+      ...(book ? { character_book: book } : {}),
+    },
+    used: [
+      "name",
+      "desc",
+      "personality",
+      "scenario",
+      "firstMessage",
+      "exampleMessage",
+      "creatorNotes",
+      "tags",
+      "alternateGreetings",
+      "systemPrompt",
+      "postHistoryInstructions",
+      "creator",
+      "characterVersion",
+      "globalLore",
+    ],
+  };
+};
+
+// A Risu module is only a lorebook (plus scripts we cannot use), so it imports as a blank card holding the book.
+const mapRisuModule: Mapper = (obj) => {
+  const book = risuBook(str(obj.name), obj.lorebook);
+  return {
+    data: {
+      name: str(obj.name),
+      description: "",
+      personality: "",
+      scenario: "",
+      first_mes: "",
+      mes_example: "",
+      creator_notes: str(obj.description),
+      ...(book ? { character_book: book } : {}),
+    },
+    used: ["name", "description", "lorebook"],
+  };
+};
+
+const MAPPERS: Partial<Record<ImportFormat, Mapper>> = {
+  tavern_v1: mapTavernV1,
+  pygmalion: mapPygmalion,
+  text_gen_webui: mapTextGenWebui,
+  agnai: mapAgnai,
+  risu_character: mapRisuCharacter,
+  risu_module: mapRisuModule,
+};
+
+export function detectImportFormat(obj: any): ImportFormat {
+  if (!isObject(obj)) return "unknown";
+  if (obj.spec === "chara_card_v3" && isObject(obj.data)) return "chara_card_v3";
+  if (obj.spec === "chara_card_v2" && isObject(obj.data)) return "chara_card_v2";
+  if (obj.type === "risuModule" || (Array.isArray(obj.lorebook) && "trigger" in obj)) return "risu_module";
+  if ("firstMessage" in obj && "desc" in obj) return "risu_character";
+  if (obj.kind === "character" || ("persona" in obj && "greeting" in obj && "sampleChat" in obj)) return "agnai";
+  if ("char_name" in obj || "char_persona" in obj || "char_greeting" in obj) return "pygmalion";
+  if ("context" in obj && "greeting" in obj && !("first_mes" in obj)) return "text_gen_webui";
+  if ("first_mes" in obj || "mes_example" in obj) return "tavern_v1";
+  return "unknown";
+}
+
+function filledKeys(data: Record<string, any>) {
+  return Object.keys(data).filter((key) => hasValue(data[key]));
+}
+
+// Lorebook entries that are too broken to keep are removed when the card is saved.
+function droppedBookEntries(data: Record<string, any>) {
+  if (!hasValue(data.character_book)) return [];
+  return parseCharacterBook(data.character_book).dropped.map((entry) => `character_book.entries[${entry.index}]`);
+}
+
+/**
+ * Converts any supported character file into V2 card shape and reports which card fields were
+ * filled and which source keys could not be carried over.
+ */
+export function importCardObject(obj: any): { card: V2Card; report: ImportReport } {
+  const format = detectImportFormat(obj);
+
+  if (format === "chara_card_v3" || format === "chara_card_v2") {
+    const data = { ...obj.data };
+    return {
+      card: { spec: "chara_card_v2", spec_version: "2.0", data },
+      report: { format, mapped: filledKeys(data), dropped: droppedBookEntries(data) },
+    };
+  }
+
+  const mapper = MAPPERS[format];
+  if (!mapper) {
+    if (!isObject(obj)) throw new Error("Invalid card payload");
+    // Unrecognized objects are kept as-is so nothing is lost; the user can clean up in the editor.
+    const { spec, spec_version, ...rest } = obj;
+    return {
+      card: { spec: "chara_card_v2", spec_version: "2.0", data: { ...rest } },
+      report: { format, mapped: filledKeys(rest), dropped: droppedBookEntries(rest) },
+    };
+  }
+
+  const { data, used } = mapper(obj);
+  const usedSet = new Set(used);
+  const dropped = [
+    ...Object.keys(obj).filter((key) => !usedSet.has(key) && !IGNORED_KEYS.has(key) && hasValue(obj[key])),
+    ...droppedBookEntries(data),
+  ];
+  return {
+    card: { spec: "chara_card_v2", spec_version: "2.0", data },
+    report: { format, mapped: filledKeys(data), dropped },
+  };
+}
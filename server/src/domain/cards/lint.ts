@@ -0,0 +1,254 @@
+import { parseCharacterBook } from "./characterBook.js";
+import type { CardSpec } from "./v3.js";
+import {
+  checkCardLengths,
+  countParagraphs,
+  countWords,
+  FIELD_KEYS,
+  type FieldDetailSettings,
+} from "../character/fieldDetail.js";
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintDiagnostic = {
+  field: string;
+  severity: LintSeverity;
+  code: string;
+  message: string;
+};
+
+export type FieldStats = {
+  words: number;
+  chars: number;
+  paragraphs: number;
+};
+
+const REQUIRED_STRING_FIELDS = ["name", "description", "personality", "scenario", "first_mes", "mes_example"];
+const ERROR_WHEN_EMPTY = new Set(["name", "description", "first_mes"]);
+const V2_OPTIONAL_STRING_FIELDS = ["creator_notes", "system_prompt", "post_history_instructions", "creator", "character_version"];
+const NAME_CHECK_FIELDS = ["personality", "scenario", "first_mes", "mes_example", "alternate_greetings"];
+const STATS_FIELDS = ["description", "personality", "scenario", "first_mes", "mes_example", "creator_notes", "image_prompt", "negative_prompt"];
+
+const IMAGE_PROMPT_MAX = 500;
+const NEGATIVE_PROMPT_MAX = 300;
+
+// Verbs that describe what {{user}} thinks, feels or decides. The opening should leave those to the player.
+const USER_AGENCY_VERBS = [
+  "feel", "feels", "felt", "think", "thinks", "thought", "decide", "decides", "decided",
+  "realize", "realizes", "realized", "wonder", "wonders", "wondered", "want", "wants", "wanted",
+  "know", "knows", "knew", "notice", "notices", "noticed", "remember", "remembers", "remembered",
+  "can't help", "cannot help",
+];
+
+function str(value: any) {
+  return typeof value === "string" ? value : "";
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function unwrapCard(input: Record<string, any>): { data: Record<string, any>; spec?: CardSpec } {
+  if ((input.spec === "chara_card_v2" || input.spec === "chara_card_v3") && input.data && typeof input.data === "object") {
+    return { data: input.data, spec: input.spec === "chara_card_v3" ? "v3" : "v2" };
+  }
+  return { data: input };
+}
+
+function lintSpecShape(data: Record<string, any>, spec: CardSpec, out: LintDiagnostic[]) {
+  for (const key of [...REQUIRED_STRING_FIELDS, ...V2_OPTIONAL_STRING_FIELDS]) {
+    if (data[key] !== undefined && typeof data[key] !== "string") {
+      out.push({ field: key, severity: "error", code: "spec_type", message: `${key} must be a string.` });
+    }
+  }
+  for (const key of ["tags", "alternate_greetings"]) {
+    const value = data[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some((item) => typeof item !== "string"))) {
+      out.push({ field: key, severity: "error", code: "spec_type", message: `${key} must be an array of strings.` });
+    }
+  }
+  if (data.extensions !== undefined && (typeof data.extensions !== "object" || Array.isArray(data.extensions) || !data.extensions)) {
+    out.push({ field: "extensions", severity: "error", code: "spec_type", message: "extensions must be an object." });
+  }
+  if (data.character_book !== undefined && data.character_book !== null) {
+    const { book, dropped } = parseCharacterBook(data.character_book);
+    if (!book) {
+      out.push({ field: "character_book", severity: "error", code: "spec_type", message: "character_book does not match the spec." });
+    }
+    for (const entry of dropped) {
+      out.push({
+        field: "character_book",
+        severity: "warning",
+        code: "book_entry_dropped",
+        message: `Lorebook entry ${entry.index + 1} is dropped on save (${entry.message}).`,
+      });
+    }
+  }
+
+  if (spec === "v3") {
+    if (data.assets !== undefined) {
+      const validAssets = Array.isArray(data.assets) && data.assets.every((asset: any) =>
+        asset && typeof asset.type === "string" && typeof asset.uri === "string" && typeof asset.name === "string" && typeof asset.ext === "string"
+      );
+      if (!validAssets) {
+        out.push({ field: "assets", severity: "error", code: "spec_type", message: "assets entries need type, uri, name and ext strings." });
+      }
+    }
+    for (const key of ["creation_date", "modification_date"]) {
+      if (data[key] !== undefined && typeof data[key] !== "number") {
+        out.push({ field: key, severity: "error", code: "spec_type", message: `${key} must be a unix timestamp in seconds.` });
+      }
+    }
+    if (data.group_only_greetings !== undefined && !Array.isArray(data.group_only_greetings)) {
+      out.push({ field: "group_only_greetings", severity: "error", code: "spec_type", message: "group_only_greetings must be an array of strings." });
+    }
+  }
+}
+
+function lintRequired(data: Record<string, any>, out: LintDiagnostic[]) {
+  for (const key of REQUIRED_STRING_FIELDS) {
+    if (str(data[key]).trim()) continue;
+    out.push({
+      field: key,
+      severity: ERROR_WHEN_EMPTY.has(key) ? "error" : "warning",
+      code: "empty_field",
+      message: `${key} is empty.`,
+    });
+  }
+}
+
+function lintMesExample(data: Record<string, any>, name: string, out: LintDiagnostic[]) {
+  const text = str(data.mes_example);
+  if (!text.trim()) return;
+
+  if (!/<START>/i.test(text)) {
+    out.push({ field: "mes_example", severity: "warning", code: "missing_start", message: "Example blocks should each begin with <START>." });
+  }
+  if (!/^\s*\{\{user\}\}\s*:/im.test(text)) {
+    out.push({ field: "mes_example", severity: "warning", code: "missing_user_label", message: "No {{user}}: lines found." });
+  }
+  if (!/^\s*\{\{char\}\}\s*:/im.test(text)) {
+    out.push({ field: "mes_example", severity: "warning", code: "missing_char_label", message: "No {{char}}: lines found." });
+  }
+
+  const otherLabels = new Set<string>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^\s*([^:{}<>\n]{1,40}):/);
+    if (!match) continue;
+    const label = match[1].trim();
+    if (/^(you|user|char)$/i.test(label) || (name && label === name)) otherLabels.add(label);
+  }
+  if (otherLabels.size) {
+    out.push({
+      field: "mes_example",
+      severity: "warning",
+      code: "raw_speaker_label",
+      message: `Use {{user}}: / {{char}}: instead of ${[...otherLabels].map((l) => `"${l}:"`).join(", ")}.`,
+    });
+  }
+}
+
+function lintOpening(field: string, text: string, out: LintDiagnostic[], label = "") {
+  if (!text.trim()) return;
+  const verbs = USER_AGENCY_VERBS.map(escapeRegExp).join("|");
+  const narratesUser = new RegExp(`\\{\\{user\\}\\}(?:'s)?\\s+(?:\\w+\\s+)?(?:${verbs})\\b`, "i").test(text)
+    || new RegExp(`\\byou\\s+(?:${verbs})\\b`, "i").test(text.replace(/"[^"]*"|“[^”]*”/g, ""));
+  if (narratesUser) {
+    out.push({
+      field,
+      severity: "warning",
+      code: "narrates_user",
+      message: `${label}Narrates what {{user}} thinks, feels or decides; leave that to the player.`,
+    });
+  }
+}
+
+function lintHardcodedName(data: Record<string, any>, name: string, out: LintDiagnostic[]) {
+  if (!name) return;
+  const pattern = new RegExp(`(^|[^\\w])${escapeRegExp(name)}(?![\\w])`, "g");
+  for (const key of NAME_CHECK_FIELDS) {
+    const values = key === "alternate_greetings" && Array.isArray(data[key]) ? data[key] : [data[key]];
+    const count = values.reduce((sum: number, value: any) => sum + (str(value).match(pattern)?.length ?? 0), 0);
+    if (!count) continue;
+    out.push({
+      field: key,
+      severity: "info",
+      code: "hardcoded_name",
+      message: `"${name}" appears ${count}× — {{char}} keeps the card working if the character is renamed.`,
+    });
+  }
+}
+
+function lintTags(data: Record<string, any>, out: LintDiagnostic[]) {
+  const tags: string[] = Array.isArray(data.tags) ? data.tags.filter((tag: any) => typeof tag === "string") : [];
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const tag of tags) {
+    const key = tag.trim().toLowerCase();
+    if (!key) continue;
+    if (seen.has(key)) duplicates.add(tag.trim());
+    seen.add(key);
+  }
+  if (duplicates.size) {
+    out.push({ field: "tags", severity: "warning", code: "duplicate_tags", message: `Duplicate tags: ${[...duplicates].join(", ")}.` });
+  }
+}
+
+// Uses the same measure as the generator's length enforcement, so both agree on a card.
+function lintLengths(data: Record<string, any>, settings: FieldDetailSettings | undefined, out: LintDiagnostic[]) {
+  for (const check of Object.values(checkCardLengths(settings, data, FIELD_KEYS))) {
+    if (!check || check.ok) continue;
+    out.push({
+      field: check.field,
+      severity: "info",
+      code: "length",
+      message: `${check.measured}; the ${check.profile} preset expects ${check.expected}.`,
+    });
+  }
+}
+
+function lintImagePrompts(data: Record<string, any>, out: LintDiagnostic[]) {
+  const image = str(data.image_prompt);
+  if (image.length > IMAGE_PROMPT_MAX) {
+    out.push({ field: "image_prompt", severity: "warning", code: "prompt_too_long", message: `${image.length} characters; keep it under ${IMAGE_PROMPT_MAX}.` });
+  }
+  if (/\n/.test(image.trim())) {
+    out.push({ field: "image_prompt", severity: "warning", code: "prompt_multiline", message: "Image prompt should be a single paragraph." });
+  }
+  const negative = str(data.negative_prompt);
+  if (negative.length > NEGATIVE_PROMPT_MAX) {
+    out.push({ field: "negative_prompt", severity: "warning", code: "prompt_too_long", message: `${negative.length} characters; keep it under ${NEGATIVE_PROMPT_MAX}.` });
+  }
+}
+
+/**
+ * Checks a card (store payload or a full V2/V3 card) against the spec and the app's writing
+ * conventions. Length checks use the configured Field Detail preset.
+ */
+export function lintCard(input: Record<string, any>, options: { spec?: CardSpec; fieldDetail?: FieldDetailSettings } = {}) {
+  const { data, spec: detected } = unwrapCard(input);
+  const spec = options.spec ?? detected ?? "v2";
+  const name = str(data.name).trim();
+  const diagnostics: LintDiagnostic[] = [];
+
+  lintSpecShape(data, spec, diagnostics);
+  lintRequired(data, diagnostics);
+  lintMesExample(data, name, diagnostics);
+  lintOpening("first_mes", str(data.first_mes), diagnostics);
+  if (Array.isArray(data.alternate_greetings)) {
+    data.alternate_greetings.forEach((greeting: any, index: number) =>
+      lintOpening("alternate_greetings", str(greeting), diagnostics, `Greeting ${index + 1}: `));
+  }
+  lintHardcodedName(data, name, diagnostics);
+  lintTags(data, diagnostics);
+  lintLengths(data, options.fieldDetail, diagnostics);
+  lintImagePrompts(data, diagnostics);
+
+  const stats: Record<string, FieldStats> = {};
+  for (const field of STATS_FIELDS) {
+    const text = str(data[field]);
+    stats[field] = { words: countWords(text), chars: text.length, paragraphs: countParagraphs(text) };
+  }
+
+  return { spec, diagnostics, stats };
+}
@@ -0,0 +1,37 @@
+import { filenameFromCard } from "./v2.js";
+
+export type Persona = {
+  name: string;
+  description: string;
+};
+
+// SillyTavern's "In Prompt" description position, and its defaults for the in-chat depth and role.
+const POSITION_IN_PROMPT = 0;
+const DEFAULT_DEPTH = 2;
+const ROLE_SYSTEM = 0;
+
+/** The user avatar file the persona is keyed by; the avatar export uses the same name. */
+export function personaAvatarFile(persona: Persona) {
+  return `${filenameFromCard({ data: persona }, "persona")}.png`;
+}
+
+/**
+ * A SillyTavern persona backup (Persona Management > Restore): personas and their descriptions keyed by
+ * avatar file name. SillyTavern adds a placeholder image when the avatar file is not in User Avatars yet.
+ */
+export function buildPersonaBackup(persona: Persona, avatarFile = personaAvatarFile(persona)) {
+  return {
+    personas: { [avatarFile]: persona.name.trim() },
+    persona_descriptions: {
+      [avatarFile]: {
+        description: persona.description,
+        position: POSITION_IN_PROMPT,
+        depth: DEFAULT_DEPTH,
+        role: ROLE_SYSTEM,
+        lorebook: "",
+        title: "",
+      },
+    },
+    default_persona: null,
+  };
+}
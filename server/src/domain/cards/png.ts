@@ -12,35 +12,53 @@ function isKeywordChunk(chunk: any, keyword: string) {
   }
 }
 
-export function embedCardIntoPng(pngBuffer: Buffer, cardJsonString: string): Buffer {
+function encodeCardChunk(keyword: string, cardJsonString: string) {
+  const base64 = Buffer.from(cardJsonString, "utf-8").toString("base64");
+  return textChunk.encode(keyword, base64);
+}
+
+/**
+ * Writes the card into the PNG as a `chara` tEXt chunk (V2). When a V3 JSON string is given,
+ * a `ccv3` chunk is written as well so current SillyTavern reads V3 and older tools keep working.
+ */
+export function embedCardIntoPng(pngBuffer: Buffer, cardJsonString: string, v3JsonString?: string): Buffer {
   const chunks = extractChunks(pngBuffer);
   const filtered = chunks.filter((chunk: any) =>
     !(isKeywordChunk(chunk, "chara") || isKeywordChunk(chunk, "ccv3"))
   );
 
-  const base64 = Buffer.from(cardJsonString, "utf-8").toString("base64");
-  const charaChunk = textChunk.encode("chara", base64);
+  const cardChunks = [encodeCardChunk("chara", cardJsonString)];
+  if (v3JsonString) cardChunks.push(encodeCardChunk("ccv3", v3JsonString));
 
   const iendIndex = filtered.findIndex((chunk: any) => chunk.name === "IEND");
   if (iendIndex === -1) throw new Error("Invalid PNG: missing IEND chunk");
-  filtered.splice(iendIndex, 0, charaChunk);
+  filtered.splice(iendIndex, 0, ...cardChunks);
 
   return Buffer.from(encodeChunks(filtered));
 }
 
+/**
+ * Returns the embedded card JSON, preferring the `ccv3` chunk over `chara` when both exist.
+ */
 export function extractCardFromPng(pngBuffer: Buffer): string {
   const chunks = extractChunks(pngBuffer);
+  const found: Record<string, string> = {};
   for (const chunk of chunks) {
     if (chunk.name !== "tEXt") continue;
     try {
       const decoded = textChunk.decode(chunk.data);
-      if (decoded?.keyword?.toLowerCase() !== "chara") continue;
+      const keyword = decoded?.keyword?.toLowerCase();
+      if (keyword !== "chara" && keyword !== "ccv3") continue;
+      if (found[keyword]) continue;
       const json = Buffer.from(decoded.text, "base64").toString("utf-8");
       if (!json) throw new Error("Empty character data");
-      return json;
+      JSON.parse(json);
+      found[keyword] = json;
     } catch {
       // ignore parse errors for unrelated chunks
     }
   }
-  throw new Error("No character data");
+  const json = found.ccv3 ?? found.chara;
+  if (!json) throw new Error("No character data");
+  return json;
 }
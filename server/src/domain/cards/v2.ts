@@ -1,41 +1,42 @@
 import sanitizeFilename from "sanitize-filename";
 
+import { inlineStoredAssets } from "./assets.js";
+import { normalizeCharacterBook } from "./characterBook.js";
+import { importCardObject } from "./importers.js";
+
 export type V2Card = {
   spec: "chara_card_v2";
   spec_version: "2.0";
   data: Record<string, any>;
 };
 
+// Fields the V2 spec requires. Missing ones are filled so strict readers accept the card.
+const V2_STRING_DEFAULTS = ["creator_notes", "system_prompt", "post_history_instructions", "creator", "character_version"];
+
 export function buildV2CardFromStorePayload(payload: Record<string, any>): V2Card {
+  const data: Record<string, any> = { ...payload };
+  for (const key of V2_STRING_DEFAULTS) {
+    if (typeof data[key] !== "string") data[key] = "";
+  }
+  if (!Array.isArray(data.alternate_greetings)) data.alternate_greetings = [];
+  if (!data.extensions || typeof data.extensions !== "object" || Array.isArray(data.extensions)) data.extensions = {};
+  const book = normalizeCharacterBook(payload.character_book);
+  if (book) data.character_book = book;
+  else delete data.character_book;
+  if (Array.isArray(data.assets)) data.assets = inlineStoredAssets(data.assets);
+
   return {
     spec: "chara_card_v2",
     spec_version: "2.0",
-    data: { ...payload },
+    data,
   };
 }
 
 export function normalizeImportedCard(obj: any): V2Card {
-  if (obj && obj.spec === "chara_card_v2" && obj.data && typeof obj.data === "object") {
-    return {
-      spec: "chara_card_v2",
-      spec_version: "2.0",
-      data: { ...obj.data },
-    };
-  }
-
-  if (obj && typeof obj === "object") {
-    const { spec, spec_version, ...rest } = obj;
-    return {
-      spec: "chara_card_v2",
-      spec_version: "2.0",
-      data: { ...rest },
-    };
-  }
-
-  throw new Error("Invalid card payload");
+  return importCardObject(obj).card;
 }
 
-export function filenameFromCard(card: V2Card, fallback = "character") {
+export function filenameFromCard(card: { data: Record<string, any> }, fallback = "character") {
   const raw = String(card.data?.name ?? "").trim();
   const cleaned = sanitizeFilename(raw).replace(/\s+/g, "_");
   return cleaned || fallback;
@@ -0,0 +1,106 @@
+import { inlineStoredAssets } from "./assets.js";
+import { normalizeCharacterBook } from "./characterBook.js";
+import { embedCardIntoPng } from "./png.js";
+import { buildV2CardFromStorePayload, type V2Card } from "./v2.js";
+
+export type V3Card = {
+  spec: "chara_card_v3";
+  spec_version: "3.0";
+  data: Record<string, any>;
+};
+
+export type CardSpec = "v2" | "v3";
+
+// Fields that only exist in the V3 spec. They are stripped from the V2 fallback chunk.
+export const V3_ONLY_KEYS = [
+  "assets",
+  "nickname",
+  "creator_notes_multilingual",
+  "source",
+  "group_only_greetings",
+  "creation_date",
+  "modification_date",
+] as const;
+
+const DEFAULT_ASSETS = [{ type: "icon", uri: "ccdefault:", name: "main", ext: "png" }];
+
+function asString(value: any) {
+  return typeof value === "string" ? value : "";
+}
+
+function asStringArray(value: any): string[] {
+  return Array.isArray(value) ? value.filter((item) => typeof item === "string") : [];
+}
+
+function asObject(value: any): Record<string, any> {
+  return value && typeof value === "object" && !Array.isArray(value) ? { ...value } : {};
+}
+
+function unixSeconds(value: any): number | undefined {
+  if (typeof value !== "number" || !Number.isFinite(value)) return undefined;
+  // Some tools write milliseconds even though the spec says seconds.
+  return value > 1e11 ? Math.floor(value / 1000) : Math.floor(value);
+}
+
+export function isV3Card(obj: any): obj is V3Card {
+  return Boolean(obj && obj.spec === "chara_card_v3" && obj.data && typeof obj.data === "object");
+}
+
+export function buildV3CardFromStorePayload(payload: Record<string, any>): V3Card {
+  const now = Math.floor(Date.now() / 1000);
+  const data: Record<string, any> = { ...payload };
+
+  data.name = asString(payload.name);
+  data.description = asString(payload.description);
+  data.personality = asString(payload.personality);
+  data.scenario = asString(payload.scenario);
+  data.first_mes = asString(payload.first_mes);
+  data.mes_example = Array.isArray(payload.mes_example)
+    ? payload.mes_example.join("\n\n")
+    : asString(payload.mes_example);
+  data.creator_notes = asString(payload.creator_notes);
+  data.system_prompt = asString(payload.system_prompt);
+  data.post_history_instructions = asString(payload.post_history_instructions);
+  data.alternate_greetings = asStringArray(payload.alternate_greetings);
+  data.group_only_greetings = asStringArray(payload.group_only_greetings);
+  data.tags = asStringArray(payload.tags);
+  data.creator = asString(payload.creator);
+  data.character_version = asString(payload.character_version);
+  data.extensions = asObject(payload.extensions);
+  const book = normalizeCharacterBook(payload.character_book);
+  if (book) data.character_book = book;
+  else delete data.character_book;
+  // Stored assets only exist on this server, so written cards carry them inline.
+  data.assets = Array.isArray(payload.assets) && payload.assets.length ? inlineStoredAssets(payload.assets) : DEFAULT_ASSETS;
+  data.creation_date = unixSeconds(payload.creation_date) ?? now;
+  data.modification_date = now;
+
+  return {
+    spec: "chara_card_v3",
+    spec_version: "3.0",
+    data,
+  };
+}
+
+export function buildV2FallbackCard(payload: Record<string, any>): V2Card {
+  const card = buildV2CardFromStorePayload(payload);
+  for (const key of V3_ONLY_KEYS) delete card.data[key];
+  return card;
+}
+
+export function buildCardForSpec(payload: Record<string, any>, spec: CardSpec): V2Card | V3Card {
+  return spec === "v3" ? buildV3CardFromStorePayload(payload) : buildV2CardFromStorePayload(payload);
+}
+
+export function detectCardSpec(obj: any): CardSpec {
+  return isV3Card(obj) ? "v3" : "v2";
+}
+
+export function embedCardPayloadIntoPng(pngBuffer: Buffer, payload: Record<string, any>, spec: CardSpec): Buffer {
+  if (spec === "v3") {
+    const v2 = buildV2FallbackCard(payload);
+    const v3 = buildV3CardFromStorePayload(payload);
+    return embedCardIntoPng(pngBuffer, JSON.stringify(v2), JSON.stringify(v3));
+  }
+  return embedCardIntoPng(pngBuffer, JSON.stringify(buildV2CardFromStorePayload(payload)));
+}
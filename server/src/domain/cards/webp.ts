@@ -0,0 +1,85 @@
+import sharp from "sharp";
+
+import { buildV2FallbackCard, buildV3CardFromStorePayload, type CardSpec } from "./v3.js";
+import { buildV2CardFromStorePayload } from "./v2.js";
+
+const XMP_NS = "urn:character-card:1.0";
+
+function toBase64(json: string) {
+  return Buffer.from(json, "utf-8").toString("base64");
+}
+
+function fromBase64(value: string) {
+  return Buffer.from(value, "base64").toString("utf-8");
+}
+
+function buildXmp(fields: Record<string, string>) {
+  const attrs = Object.entries(fields)
+    .map(([key, value]) => ` ccard:${key}="${value}"`)
+    .join("");
+  return [
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:ccard="${XMP_NS}"${attrs}/>`,
+    "</rdf:RDF>",
+    "</x:xmpmeta>",
+  ].join("");
+}
+
+/**
+ * Writes the card into a WebP image. The base64 card JSON goes into XMP (`chara`, plus `ccv3`
+ * for V3) and the V2 card into the EXIF UserComment, which is where most WebP-aware tools look.
+ * Animation is kept.
+ */
+export async function embedCardPayloadIntoWebp(
+  image: Buffer,
+  payload: Record<string, any>,
+  spec: CardSpec,
+): Promise<Buffer> {
+  const v2 = spec === "v3" ? buildV2FallbackCard(payload) : buildV2CardFromStorePayload(payload);
+  const chara = toBase64(JSON.stringify(v2));
+  const fields: Record<string, string> = { chara };
+  if (spec === "v3") fields.ccv3 = toBase64(JSON.stringify(buildV3CardFromStorePayload(payload)));
+
+  return sharp(image, { animated: true })
+    .webp({ quality: 90 })
+    .withExif({ IFD2: { UserComment: chara } })
+    .withXmp(buildXmp(fields))
+    .toBuffer();
+}
+
+function readXmpField(xmp: string, key: string) {
+  const match = xmp.match(new RegExp(`ccard:${key}="([A-Za-z0-9+/=]+)"`));
+  return match ? fromBase64(match[1]) : null;
+}
+
+function readExifUserComment(exif: Buffer) {
+  // UserComment starts with an 8-byte charset marker ("ASCII\0\0\0") followed by the value.
+  const marker = exif.indexOf("ASCII\0\0\0", 0, "latin1");
+  if (marker === -1) return null;
+  const match = exif.toString("latin1", marker + 8).match(/^[A-Za-z0-9+/=]+/);
+  return match ? fromBase64(match[0]) : null;
+}
+
+/**
+ * Returns the embedded card JSON from a WebP, preferring `ccv3` over the V2 copies.
+ */
+export async function extractCardFromWebp(image: Buffer): Promise<string> {
+  const meta = await sharp(image).metadata();
+  const xmp = meta.xmp?.toString("utf-8") ?? "";
+  const candidates = [
+    readXmpField(xmp, "ccv3"),
+    readXmpField(xmp, "chara"),
+    meta.exif ? readExifUserComment(meta.exif) : null,
+  ];
+  for (const json of candidates) {
+    if (!json) continue;
+    try {
+      JSON.parse(json);
+      return json;
+    } catch {
+      // try next location
+    }
+  }
+  throw new Error("No character data");
+}
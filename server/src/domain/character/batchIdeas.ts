@@ -0,0 +1,103 @@
+export type BatchIdeaInput = {
+  idea?: unknown;
+  name?: unknown;
+  pov?: unknown;
+  outputLanguage?: unknown;
+};
+
+// Column names accepted in a CSV header row, lowercased.
+const CSV_COLUMNS: Record<string, keyof BatchIdeaInput> = {
+  idea: "idea",
+  prompt: "idea",
+  name: "name",
+  pov: "pov",
+  outputlanguage: "outputLanguage",
+  output_language: "outputLanguage",
+  language: "outputLanguage",
+};
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === "\"" && text[i + 1] === "\"") {
+        cell += "\"";
+        i += 1;
+      } else if (ch === "\"") {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === "\"" && !cell.trim()) {
+      cell = "";
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+function fromCsv(text: string): BatchIdeaInput[] {
+  const rows = parseCsvRows(text);
+  const header = rows[0]?.map((value) => CSV_COLUMNS[value.trim().toLowerCase()]);
+  if (header?.includes("idea")) {
+    return rows.slice(1).map((cells) => {
+      const item: BatchIdeaInput = {};
+      header.forEach((key, index) => {
+        const value = cells[index]?.trim();
+        if (key && value) item[key] = value;
+      });
+      return item;
+    });
+  }
+  // No header: the first column is the idea, an optional second column the name.
+  return rows.map((cells) => ({ idea: cells[0]?.trim(), name: cells[1]?.trim() || undefined }));
+}
+
+function fromJsonl(text: string): BatchIdeaInput[] {
+  return text.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    let value: any;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON.`);
+    }
+    if (typeof value === "string") return [{ idea: value }];
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return [{ idea: value.idea ?? value.prompt, name: value.name, pov: value.pov, outputLanguage: value.outputLanguage }];
+    }
+    throw new Error(`Line ${index + 1} must be a string or an object with an "idea".`);
+  });
+}
+
+/**
+ * Reads an uploaded idea list: CSV (header row with an `idea` column, or idea/name columns without one),
+ * JSONL (one string or `{idea, name, pov, outputLanguage}` per line), or plain text with one idea per line.
+ * Values are validated by the caller.
+ */
+export function parseIdeaFile(fileName: string, text: string): BatchIdeaInput[] {
+  const name = fileName.toLowerCase();
+  const body = text.replace(/^\uFEFF/, "");
+  if (name.endsWith(".csv")) return fromCsv(body);
+  if (name.endsWith(".jsonl") || name.endsWith(".ndjson")) return fromJsonl(body);
+  return body.split(/\r?\n/).map((line) => line.trim()).filter(Boolean).map((idea) => ({ idea }));
+}
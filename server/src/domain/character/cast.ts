@@ -0,0 +1,113 @@
+import type { CharacterBook, CharacterBookEntry } from "../cards/characterBook.js";
+
+export const CAST_SIZE = { min: 2, max: 6 } as const;
+
+export type CastRelationship = { with: string; relation: string };
+
+export type CastMember = {
+  name: string;
+  role: string;
+  concept: string;
+  relationships: CastRelationship[];
+};
+
+// The first pass of a cast generation: who is in it and how they relate, before any card is written.
+export type CastPlan = {
+  title: string;
+  setting: string;
+  members: CastMember[];
+};
+
+export type CastWarning = { name: string; message: string };
+
+function firstName(name: string) {
+  return name.trim().split(/\s+/)[0] ?? name;
+}
+
+function sameName(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Trims the plan to `size` members with distinct names and keeps only relationships that point at
+ * another member, one per pair and direction.
+ */
+export function normalizeCastPlan(plan: CastPlan, size: number): CastPlan {
+  const members: CastMember[] = [];
+  for (const member of plan.members) {
+    const name = member.name.trim();
+    if (!name || members.some((other) => sameName(other.name, name))) continue;
+    members.push({ ...member, name, role: member.role.trim(), concept: member.concept.trim() });
+    if (members.length >= size) break;
+  }
+  return {
+    title: plan.title.trim() || "Cast",
+    setting: plan.setting.trim(),
+    members: members.map((member) => {
+      const relationships: CastRelationship[] = [];
+      for (const relationship of member.relationships) {
+        const target = members.find((other) => sameName(other.name, relationship.with));
+        if (!target || target.name === member.name || !relationship.relation.trim()) continue;
+        if (relationships.some((other) => other.with === target.name)) continue;
+        relationships.push({ with: target.name, relation: relationship.relation.trim() });
+      }
+      return { ...member, relationships };
+    }),
+  };
+}
+
+/** The idea text for one member's card: the shared setting, the member's role and their ties to the others. */
+export function memberIdea(idea: string, plan: CastPlan, member: CastMember) {
+  const others = plan.members.filter((other) => other.name !== member.name);
+  return [
+    `${member.name} is one of ${plan.members.length} characters in the ensemble "${plan.title}".`,
+    `Shared setting: ${plan.setting}`,
+    `This character: ${member.role}. ${member.concept}`,
+    "Relationships (mention these characters by name in description, personality and scenario, and keep them consistent):",
+    ...member.relationships.map((relationship) => `- ${relationship.with}: ${relationship.relation}`),
+    `Other cast members: ${others.map((other) => `${other.name} (${other.role})`).join(", ")}.`,
+    `Original idea for the whole cast: ${idea.trim()}`,
+  ].join("\n");
+}
+
+/** One always-on entry for the setting and one keyed entry per member, shared by every card in the cast. */
+export function buildCastLorebook(plan: CastPlan): CharacterBook {
+  const entries: CharacterBookEntry[] = [
+    {
+      id: 0,
+      name: plan.title,
+      keys: [plan.title],
+      content: plan.setting,
+      constant: true,
+      enabled: true,
+      insertion_order: 100,
+      extensions: {},
+    },
+    ...plan.members.map((member, index): CharacterBookEntry => ({
+      id: index + 1,
+      name: member.name,
+      keys: Array.from(new Set([member.name, firstName(member.name)])),
+      content: [
+        `${member.name}: ${member.role}. ${member.concept}`,
+        ...member.relationships.map((relationship) => `${member.name} and ${relationship.with}: ${relationship.relation}`),
+      ].join("\n"),
+      enabled: true,
+      insertion_order: 100,
+      extensions: {},
+    })),
+  ];
+  return { name: plan.title, description: plan.setting, extensions: {}, entries };
+}
+
+const REFERENCE_FIELDS = ["description", "personality", "scenario", "first_mes", "mes_example"];
+
+/** Flags cards that never mention a member they are supposed to have a relationship with. */
+export function checkCrossReferences(plan: CastPlan, cards: Array<Record<string, any>>): CastWarning[] {
+  return plan.members.flatMap((member, index) => {
+    const card = cards[index] ?? {};
+    const text = REFERENCE_FIELDS.map((key) => String(card[key] ?? "")).join("\n").toLowerCase();
+    return member.relationships
+      .filter((relationship) => !text.includes(firstName(relationship.with).toLowerCase()))
+      .map((relationship) => ({ name: member.name, message: `Does not mention ${relationship.with}.` }));
+  });
+}
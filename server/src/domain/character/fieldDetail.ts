@@ -16,7 +16,7 @@ export type FieldDetailSettings = {
   overrides?: Partial<Record<FieldKey, FieldOverrideMode>>;
 };
 
-type FieldSpec = {
+export type FieldSpec = {
   wordsMin?: number;
   wordsMax?: number;
   paragraphsMin?: number;
@@ -74,6 +74,20 @@ export function specFor(settings: FieldDetailSettings | undefined, field: FieldK
   return PROFILE_SPECS[profile][field];
 }
 
+export function countWords(text: string) {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+export function countParagraphs(text: string) {
+  return text.split(/\n\s*\n/).filter((part) => part.trim()).length;
+}
+
+// One exchange is a {{user}} line answered by a {{char}} line.
+function countExchanges(text: string) {
+  return (text.match(/^\s*\{\{user\}\}\s*:/gim) ?? []).length;
+}
+
 function range(min?: number, max?: number) {
   if (min == null && max == null) return "";
   if (min != null && max != null) return `${min}–${max}`;
@@ -131,3 +145,86 @@ export function buildFieldDetailLines(settings: FieldDetailSettings | undefined,
 
   return lines;
 }
+
+export const FIELD_KEYS: FieldKey[] = ["description", "personality", "scenario", "first_mes", "mes_example", "creator_notes", "tags"];
+
+function isFieldKey(value: string): value is FieldKey {
+  return (FIELD_KEYS as string[]).includes(value);
+}
+
+export type LengthDirection = "expand" | "shorten";
+
+export type FieldLengthCheck = {
+  field: FieldKey;
+  profile: FieldDetailProfile;
+  ok: boolean;
+  direction?: LengthDirection;
+  measured: string;
+  expected: string;
+  // How far outside the spec the field is, summed over its measures as a fraction of the violated bound.
+  deviation: number;
+};
+
+type LengthMeasure = { unit: string; value: number; min?: number; max?: number };
+
+function fieldText(value: any) {
+  if (Array.isArray(value)) return value.filter((item) => typeof item === "string").join("\n\n");
+  return typeof value === "string" ? value : "";
+}
+
+function tagCount(value: any) {
+  const tags: string[] = Array.isArray(value)
+    ? value.filter((tag) => typeof tag === "string")
+    : typeof value === "string" ? value.split(",") : [];
+  return new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)).size;
+}
+
+function measuresFor(field: FieldKey, spec: FieldSpec, value: any): LengthMeasure[] {
+  if (field === "tags") return [{ unit: "tags", value: tagCount(value), min: spec.tagsMin, max: spec.tagsMax }];
+  const text = fieldText(value);
+  if (field === "mes_example") {
+    return [{ unit: "exchanges", value: countExchanges(text), min: spec.exchangesMin, max: spec.exchangesMax }];
+  }
+  const measures: LengthMeasure[] = [
+    { unit: "words", value: countWords(text), min: spec.wordsMin, max: spec.wordsMax },
+    { unit: "paragraphs", value: countParagraphs(text), min: spec.paragraphsMin, max: spec.paragraphsMax },
+  ];
+  if (spec.minChars) measures.push({ unit: "characters", value: text.trim().length, min: spec.minChars });
+  return measures;
+}
+
+/** Measures one field against its Field Detail spec; null when the field is empty. */
+export function checkFieldLength(settings: FieldDetailSettings | undefined, field: FieldKey, value: any): FieldLengthCheck | null {
+  if (field === "tags" ? !tagCount(value) : !fieldText(value).trim()) return null;
+  const measures = measuresFor(field, specFor(settings, field), value).filter((m) => m.min != null || m.max != null);
+
+  let deviation = 0;
+  let direction: LengthDirection | undefined;
+  for (const m of measures) {
+    const under = m.min != null && m.value < m.min ? (m.min - m.value) / m.min : 0;
+    const over = m.max != null && m.value > m.max ? (m.value - m.max) / m.max : 0;
+    deviation += under + over;
+    // The first measure out of range (words before paragraphs) decides which way to rewrite.
+    if (!direction && (under || over)) direction = under ? "expand" : "shorten";
+  }
+
+  return {
+    field,
+    profile: effectiveProfile(settings, field),
+    ok: deviation === 0,
+    direction,
+    measured: measures.map((m) => `${m.value} ${m.unit}`).join(", "),
+    expected: measures.map((m) => `${range(m.min, m.max)} ${m.unit}`).join(", "),
+    deviation,
+  };
+}
+
+export function checkCardLengths(settings: FieldDetailSettings | undefined, card: Record<string, any>, fields: string[]) {
+  const checks: Partial<Record<FieldKey, FieldLengthCheck>> = {};
+  for (const field of fields) {
+    if (!isFieldKey(field)) continue;
+    const check = checkFieldLength(settings, field, card[field]);
+    if (check) checks[field] = check;
+  }
+  return checks;
+}
@@ -17,32 +17,186 @@ const TAGS = [
 const TAG_SET = new Set(TAGS);
 
 export function extractJsonBlock(raw: string): string | null {
-  const match = raw.match(/```json\s*([\s\S]*?)```/i);
+  const match = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
   return match ? match[1].trim() : null;
 }
 
-export function tryParseJson(raw: string): any | null {
-  const candidates: string[] = [];
-  const block = extractJsonBlock(raw);
-  if (block) candidates.push(block);
-  candidates.push(raw.trim());
+export type JsonRepair =
+  | "extracted_json"
+  | "smart_quotes"
+  | "escaped_control_chars"
+  | "trailing_commas"
+  | "closed_truncated";
 
-  for (const candidate of candidates) {
-    if (!candidate) continue;
-    try {
-      return JSON.parse(candidate);
-    } catch {
-      // try next candidate
+export type RepairedJson = { value: any; repairs: JsonRepair[] };
+
+function parseOrUndefined(text: string) {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+// Walks `text` outside of strings, calling `visit` for each structural character.
+function scanStructure(text: string, visit: (ch: string, index: number) => void) {
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else visit(ch, i);
+  }
+  return { inString };
+}
+
+// Drops prose around the first object (or array); an unclosed object runs to the end of the text.
+function extractJsonValue(text: string) {
+  const objectStart = text.indexOf("{");
+  const start = objectStart >= 0 ? objectStart : text.indexOf("[");
+  if (start < 0) return text;
+  const end = scanNested(text, start);
+  return end < 0 ? text.slice(start) : text.slice(start, end);
+}
+
+// Curly quotes used as JSON delimiters (next to braces, colons or commas). Only applied when a key is
+// curly-quoted, so dialogue quotes inside otherwise valid values are left alone.
+function replaceSmartQuotes(text: string) {
+  if (!/[{,]\s*[\u201C\u201D][^\u201C\u201D"\n]*[\u201C\u201D]\s*:/.test(text)) return text;
+  return text
+    .replace(/([{[,:]\s*)[\u201C\u201D]/g, '$1"')
+    .replace(/[\u201C\u201D](\s*[:,}\]])/g, '"$1');
+}
+
+// Raw newlines and tabs inside strings are invalid JSON but common in long fields.
+function escapeControlChars(text: string) {
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") {
+        out += ch + (text[i + 1] ?? "");
+        i++;
+        continue;
+      }
+      if (ch === '"') inString = false;
+      else if (ch === "\n") {
+        out += "\\n";
+        continue;
+      } else if (ch === "\r") {
+        out += "\\r";
+        continue;
+      } else if (ch === "\t") {
+        out += "\\t";
+        continue;
+      }
+    } else if (ch === '"') {
+      inString = true;
     }
+    out += ch;
   }
+  return out;
+}
+
+function removeTrailingCommas(text: string) {
+  const drop = new Set<number>();
+  scanStructure(text, (ch, index) => {
+    if (ch !== ",") return;
+    const next = text.slice(index + 1).search(/\S/);
+    if (next >= 0 && (text[index + 1 + next] === "}" || text[index + 1 + next] === "]")) drop.add(index);
+  });
+  if (!drop.size) return text;
+  // scanStructure indexes UTF-16 code units, so split the same way (not by code point).
+  return text.split("").filter((_, index) => !drop.has(index)).join("");
+}
+
+// Closes an output that stopped mid-value: first as-is, then cut back to each earlier member boundary.
+function closeTruncated(text: string) {
+  const stack: string[] = [];
+  const cuts: Array<{ index: number; stack: string[] }> = [];
+  const { inString } = scanStructure(text, (ch, index) => {
+    if (ch === "{" || ch === "[") stack.push(ch === "{" ? "}" : "]");
+    else if (ch === "}" || ch === "]") stack.pop();
+    else if (ch === ",") cuts.push({ index, stack: [...stack] });
+  });
+  if (!stack.length && !inString) return undefined;
+
+  const closers = (open: string[]) => [...open].reverse().join("");
+  const body = inString ? text.replace(/\\$/, "") + '"' : text;
+  const attempts = [body.replace(/[\s,:]+$/, "") + closers(stack)];
+  for (const cut of cuts.slice(-3).reverse()) attempts.push(text.slice(0, cut.index) + closers(cut.stack));
+  for (const attempt of attempts) {
+    const parsed = parseOrUndefined(attempt);
+    if (parsed) return parsed;
+  }
+  return undefined;
+}
+
+const REPAIR_STEPS: Array<[JsonRepair, (text: string) => string]> = [
+  ["extracted_json", extractJsonValue],
+  ["smart_quotes", replaceSmartQuotes],
+  ["escaped_control_chars", escapeControlChars],
+  ["trailing_commas", removeTrailingCommas],
+];
+
+/**
+ * Parses model output as JSON, repairing the usual local-model mistakes step by step: prose
+ * around the object, curly quotes, raw newlines in strings, trailing commas and a truncated end.
+ * Returns the value with the repairs that were needed, or null if nothing worked.
+ */
+export function parseJsonWithRepairs(raw: string): RepairedJson | null {
+  const block = extractJsonBlock(raw);
+  for (const candidate of [block, raw.trim()]) {
+    const parsed = candidate ? parseOrUndefined(candidate) : undefined;
+    if (parsed) return { value: parsed.value, repairs: [] };
+  }
+
+  let text = block ?? raw.trim();
+  const repairs: JsonRepair[] = [];
+  for (const [repair, step] of REPAIR_STEPS) {
+    const next = step(text);
+    if (next === text) continue;
+    text = next;
+    repairs.push(repair);
+    const parsed = parseOrUndefined(text);
+    if (parsed) return { value: parsed.value, repairs };
+  }
+
+  // Closing cuts values off, so only do it for a reply that actually stopped early; a complete but
+  // broken reply fails here and goes to the caller's retry or fallback instead.
+  if (classifyRawFailure(block ?? raw) !== "truncated") return null;
+  const closed = closeTruncated(text);
+  if (closed) return { value: closed.value, repairs: [...repairs, "closed_truncated"] };
   return null;
 }
 
+export function tryParseJson(raw: string): any | null {
+  return parseJsonWithRepairs(raw)?.value ?? null;
+}
+
 export function classifyRawFailure(raw: string): "truncated" | "invalid_json" | "schema_mismatch" | "unknown" {
-  const t = raw.trim();
-  if (t.startsWith("{") && !t.includes("}")) return "truncated";
-  if (t.startsWith("{") && !t.endsWith("}")) return "truncated";
-  return "invalid_json";
+  const t = extractJsonValue(raw.trim());
+  if (!t.startsWith("{") && !t.startsWith("[")) return "invalid_json";
+  let depth = 0;
+  const { inString } = scanStructure(t, (ch) => {
+    if (ch === "{" || ch === "[") depth++;
+    else if (ch === "}" || ch === "]") depth--;
+  });
+  return inString || depth > 0 ? "truncated" : "invalid_json";
+}
+
+/**
+ * Joins a truncated reply with the text the model produced when asked to continue it. Backends that
+ * echo the prefix return the whole reply; otherwise the new text picks up right after the partial one.
+ */
+export function joinContinuation(partial: string, continuation: string) {
+  if (partial && continuation.startsWith(partial)) return continuation;
+  return partial + continuation;
 }
 
 export function parseTaggedSections(raw: string): Record<string, string> {
@@ -106,14 +260,139 @@ export function buildCharacterFromTaggedSections(map: Record<string, string>) {
   return result;
 }
 
-export function parseCharacterResponse(raw: string): CharacterGen {
-  const json = tryParseJson(raw);
+const TAG_FIELDS: Record<string, string> = {
+  NAME: "name",
+  DESCRIPTION: "description",
+  PERSONALITY: "personality",
+  SCENARIO: "scenario",
+  FIRST_MESSAGE: "first_mes",
+  EXAMPLE_MESSAGES: "mes_example",
+  TAGS: "tags",
+  CREATOR_NOTES: "creator_notes",
+  IMAGE_PROMPT: "image_prompt",
+  NEGATIVE_PROMPT: "negative_prompt",
+};
+
+const FIELD_TAGS = Object.fromEntries(Object.entries(TAG_FIELDS).map(([tag, key]) => [key, tag]));
+
+/**
+ * Reads the plain-text answer of a single-field step: drops a code fence, a leading field label
+ * ("first_mes:" or "#FIRST_MESSAGE#") and quotes wrapping the whole answer. Tags become a list.
+ */
+export function parseFieldText(field: string, raw: string): string | string[] {
+  let text = raw.trim();
+  const fenced = text.match(/^```[a-z]*\s*([\s\S]*?)\s*```$/i);
+  if (fenced) text = fenced[1].trim();
+  const tag = FIELD_TAGS[field];
+  const label = new RegExp(`^(?:#${tag ?? field.toUpperCase()}#|\\**${field}\\**\\s*:)\\s*`, "i");
+  text = text.replace(label, "").trim();
+  if (/^"[^"]*"$/.test(text)) text = text.slice(1, -1).trim();
+
+  if (field === "tags") return parseTags(text).map((t) => t.replace(/^#/, ""));
+  if (field === "image_prompt" || field === "negative_prompt") return text.replace(/\s*\n\s*/g, " ");
+  return text;
+}
+
+/** The name from a character sheet's "Name:" line, if it has one. */
+export function sheetName(sheet: string) {
+  const match = sheet.match(/^\W*name\W*:\s*(.+)$/im);
+  return match ? match[1].replace(/[*"]/g, "").trim() : "";
+}
+
+// Index just past the JSON string that opens at `start`, or -1 if it has not closed yet.
+function scanString(text: string, start: number) {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "\\") i++;
+    else if (text[i] === '"') return i + 1;
+  }
+  return -1;
+}
+
+// Index just past the array/object that opens at `start`, or -1 if it has not closed yet.
+function scanNested(text: string, start: number) {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      const end = scanString(text, i);
+      if (end < 0) return -1;
+      i = end - 1;
+    } else if (ch === "[" || ch === "{") {
+      depth++;
+    } else if (ch === "]" || ch === "}") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+function partialJsonFields(raw: string) {
+  const fields: Record<string, any> = {};
+  let i = raw.indexOf("{");
+  if (i < 0) return fields;
+  i++;
+
+  while (i < raw.length) {
+    const keyOffset = raw.slice(i).search(/[^\s,]/);
+    if (keyOffset < 0 || raw[i + keyOffset] !== '"') break;
+    const keyStart = i + keyOffset;
+    const keyEnd = scanString(raw, keyStart);
+    if (keyEnd < 0) break;
+    const colon = raw.slice(keyEnd).search(/\S/);
+    if (colon < 0 || raw[keyEnd + colon] !== ":") break;
+    const valueOffset = raw.slice(keyEnd + colon + 1).search(/\S/);
+    if (valueOffset < 0) break;
+    const valueStart = keyEnd + colon + 1 + valueOffset;
+
+    const first = raw[valueStart];
+    const valueEnd = first === '"'
+      ? scanString(raw, valueStart)
+      : first === "[" || first === "{"
+        ? scanNested(raw, valueStart)
+        : -1;
+    if (valueEnd < 0) break;
+
+    try {
+      fields[JSON.parse(raw.slice(keyStart, keyEnd))] = JSON.parse(raw.slice(valueStart, valueEnd));
+    } catch {
+      break;
+    }
+    i = valueEnd;
+  }
+  return fields;
+}
+
+/**
+ * Reads the fields that are already complete in a response that is still streaming: JSON
+ * properties whose value has closed, or tagged sections that another tag has followed.
+ */
+export function extractPartialFields(raw: string): Record<string, any> {
+  const fence = raw.search(/```json/i);
+  const body = fence >= 0 ? raw.slice(fence + "```json".length) : raw;
+  if (body.trimStart().startsWith("{")) return partialJsonFields(body);
+
+  const sections = parseTaggedSections(raw);
+  const complete = Object.keys(sections);
+  // The last section may still be receiving text.
+  complete.pop();
+  const fields: Record<string, any> = {};
+  for (const tag of complete) {
+    const key = TAG_FIELDS[tag];
+    if (!key) continue;
+    fields[key] = key === "tags" ? parseTags(sections[tag]) : sections[tag].trim();
+  }
+  return fields;
+}
+
+export function parseCharacterResponse(raw: string): { character: CharacterGen; repairs: JsonRepair[] } {
+  const json = parseJsonWithRepairs(raw);
   if (json) {
-    const validated = CharacterGenSchema.safeParse(json);
+    const validated = CharacterGenSchema.safeParse(json.value);
     if (!validated.success) {
       throw new Error("LLM response parsed but did not match schema");
     }
-    return validated.data;
+    return { character: validated.data, repairs: json.repairs };
   }
 
   const sections = parseTaggedSections(raw);
@@ -126,5 +405,5 @@ export function parseCharacterResponse(raw: string): CharacterGen {
   if (!validated.success) {
     throw new Error("Tagged response did not match schema");
   }
-  return validated.data;
+  return { character: validated.data, repairs: [] };
 }
@@ -1,4 +1,13 @@
-import { buildFieldDetailLines, type FieldDetailSettings, type FieldKey } from "./fieldDetail.js";
+import { sortedActiveEntries, type CharacterBook, type CharacterBookEntry } from "../cards/characterBook.js";
+import {
+  buildFieldDetailLines,
+  checkFieldLength,
+  type FieldDetailSettings,
+  type FieldKey,
+  type FieldLengthCheck,
+} from "./fieldDetail.js";
+import { loadPromptTemplate, renderPromptTemplate, type PromptTemplateId } from "./promptTemplates.js";
+import { buildRubricLines, REVIEW_FIELDS } from "./review.js";
 
 function normalizeOutputLanguage(lang?: string): string | null {
   const value = (lang ?? "").trim();
@@ -7,234 +16,236 @@ function normalizeOutputLanguage(lang?: string): string | null {
   return value;
 }
 
+function describeEntryTrigger(entry: CharacterBookEntry) {
+  if (entry.constant) return "always active";
+  const keys = entry.keys.length ? entry.keys.join(", ") : "(no keys)";
+  const secondary = entry.selective && entry.secondary_keys?.length
+    ? `; only with: ${entry.secondary_keys.join(", ")}`
+    : "";
+  return `keys: ${keys}${secondary}`;
+}
+
+export function buildLorebookBlock(book?: CharacterBook | null) {
+  const entries = sortedActiveEntries(book);
+  if (!entries.length) return "Lorebook: (none)";
+
+  const lines = ["Lorebook (world info the character knows; stay consistent with it, do not copy it verbatim):"];
+  for (const entry of entries) {
+    const title = entry.name?.trim() || entry.comment?.trim();
+    const label = title ? `${title} (${describeEntryTrigger(entry)})` : `(${describeEntryTrigger(entry)})`;
+    lines.push(`- ${label}: ${entry.content.trim()}`);
+  }
+  return lines.join("\n");
+}
+
+function languageBlock(lang: string | null, subject = "field values", includeImageRule = true) {
+  if (!lang) return "";
+  return [
+    "LANGUAGE REQUIREMENT (CRITICAL):",
+    `- Write ALL ${subject} in ${lang} (do not mix languages).`,
+    "- Keep proper names as names, but everything else must be in the selected language.",
+    "- Avoid English filler words (e.g., 'but', 'and', 'so') in non-English text.",
+    ...(includeImageRule ? ["- Always write image_prompt and negative_prompt in English."] : []),
+    "",
+  ].join("\n");
+}
+
+function contentRatingRule(contentRating: "sfw" | "nsfw_allowed") {
+  return contentRating === "sfw"
+    ? "Content rating: SFW only. Keep content safe and avoid sexual content."
+    : "Content rating: NSFW allowed. Do not add safety constraints unless requested; focus negative_prompt on quality/artifacts.";
+}
+
+function firstMesRules(scope: "missing" | "target" | "field") {
+  return [
+    scope === "field"
+      ? "FIRST MESSAGE requirements (MANDATORY):"
+      : `If first_mes is among the ${scope} keys, apply these FIRST MESSAGE requirements:`,
+    "- first_mes MUST read like the opening of a story scene, not a greeting.",
+    "- Length & structure: follow the Field Length preset above for first_mes.",
+    "- Start in medias res with concrete sensory detail and immediate context (place/time/weather/sounds).",
+    "- Show {{char}} doing something *right now* (actions, body language, small beats) before/around dialogue.",
+    "- Include at least ONE spoken line from {{char}} (quoted dialogue).",
+    "- Acknowledge {{user}} without controlling their thoughts/choices.",
+    "- End with a HOOK that demands a response (a question, an urgent request, a reveal, or an interrupting event).",
+    "- Avoid generic openers like: 'Greetings', 'Hello', 'How may I help', 'Welcome'.",
+    "- Do not include meta commentary (no 'as an AI', no writing notes).",
+    "",
+  ].join("\n");
+}
+
+const CARD_FIELD_KEYS: FieldKey[] = [
+  "description",
+  "personality",
+  "scenario",
+  "first_mes",
+  "mes_example",
+  "creator_notes",
+  "tags",
+];
+
+function cardFieldKeys(keys: string[]) {
+  return keys.filter((k) => (CARD_FIELD_KEYS as string[]).includes(k)) as FieldKey[];
+}
+
 export type CharacterGenInput = {
   idea: string;
   name?: string;
   pov: "first" | "second" | "third";
-  lorebook?: string;
+  characterBook?: CharacterBook | null;
   outputLanguage?: string;
 };
 
+type CharacterGenOptions = {
+  contentRating: "sfw" | "nsfw_allowed";
+  fieldDetail?: FieldDetailSettings;
+  useDefaultNegativePrompt?: boolean;
+};
+
+function characterGenValues(input: CharacterGenInput, options: CharacterGenOptions) {
+  const useDefaultNegativePrompt = options.useDefaultNegativePrompt === true;
+  return {
+    idea: input.idea.trim(),
+    name: input.name?.trim() || "(invent a fitting name)",
+    pov: input.pov,
+    lorebook: buildLorebookBlock(input.characterBook),
+    field_detail: buildFieldDetailLines(options.fieldDetail, CARD_FIELD_KEYS).join("\n"),
+    language_block: languageBlock(normalizeOutputLanguage(input.outputLanguage)),
+    content_rating: contentRatingRule(options.contentRating),
+    negative_prompt_rating: useDefaultNegativePrompt
+      ? ""
+      : options.contentRating === "sfw"
+        ? "- negative_prompt must include nudity and explicit sexual content to avoid."
+        : "- negative_prompt should focus on quality/artifacts unless the user requests otherwise.",
+  };
+}
+
 export function buildCharacterGenPrompt(
   input: CharacterGenInput,
-  options: {
-    contentRating: "sfw" | "nsfw_allowed";
-    fieldDetail?: FieldDetailSettings;
-    useDefaultNegativePrompt?: boolean;
-  }
+  options: CharacterGenOptions,
+  template = loadPromptTemplate("generate")
 ) {
-  const nameLine = input.name?.trim()
-    ? `Preferred name: ${input.name.trim()}`
-    : "Preferred name: (invent a fitting name)";
-  const loreLine = input.lorebook?.trim()
-    ? `Lorebook:\n${input.lorebook.trim()}`
-    : "Lorebook: (none)";
-  const lang = normalizeOutputLanguage(input.outputLanguage);
-
   const useDefaultNegativePrompt = options.useDefaultNegativePrompt === true;
   const jsonKeys = useDefaultNegativePrompt
     ? "name, description, personality, scenario, first_mes, mes_example, tags, creator_notes, image_prompt, pov"
     : "name, description, personality, scenario, first_mes, mes_example, tags, creator_notes, image_prompt, negative_prompt, pov";
 
-  return [
-    "You are generating a SillyTavern character card.",
-    "Return ONLY valid JSON. No markdown, no commentary.",
-    "Rules:",
-    ...(lang ? [
-      "LANGUAGE REQUIREMENT (CRITICAL):",
-      `- Write ALL field values in ${lang} (do not mix languages).`,
-      "- Keep proper names as names, but everything else must be in the selected language.",
-      "- Avoid English filler words (e.g., 'but', 'and', 'so') in non-English text.",
-      "- Always write image_prompt and negative_prompt in English.",
-      "",
-    ] : []),
-    "- Output must be a single JSON object with keys exactly:",
-    `  ${jsonKeys}`,
-    "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
-    "- tags must be an array of short strings.",
-    "- image_prompt must be a concise, detailed portrait prompt for the avatar.",
-    "- image_prompt: English, exactly ONE paragraph, 350–500 characters max, no newlines.",
-    ...(useDefaultNegativePrompt ? [
-      "- Do NOT output negative_prompt; the app will supply it.",
-    ] : [
-      "- negative_prompt should list what to avoid.",
-      "- negative_prompt: English, single line, comma-separated phrases, 200–300 characters max, no newlines.",
-    ]),
-    "- If you exceed limits, rewrite shorter before responding.",
-    "- Do not use quotes or markdown in image_prompt/negative_prompt.",
-    "- mes_example must use {{user}} and {{char}} labels.",
-    options.contentRating === "sfw"
-      ? "Content rating: SFW only. Keep content safe and avoid sexual content."
-      : "Content rating: NSFW allowed. Do not add safety constraints unless requested; focus negative_prompt on quality/artifacts.",
-    ...(useDefaultNegativePrompt
-      ? []
+  return renderPromptTemplate(template, {
+    ...characterGenValues(input, options),
+    json_keys: jsonKeys,
+    negative_prompt_format: useDefaultNegativePrompt
+      ? "- Do NOT output negative_prompt; the app will supply it."
       : [
-          options.contentRating === "sfw"
-            ? "- negative_prompt must include nudity and explicit sexual content to avoid."
-            : "- negative_prompt should focus on quality/artifacts unless the user requests otherwise.",
-        ]),
-    "POV rules for first_mes:",
-    "- first: {{char}} speaks in first person.",
-    "- second: address {{user}} in second person without controlling their actions.",
-    "- third: write in third person, acknowledge {{user}} presence without controlling them.",
-    "",
-    "FIELD LENGTH & STRUCTURE PRESET (MANDATORY):",
-    ...buildFieldDetailLines(options.fieldDetail, [
-      "description",
-      "personality",
-      "scenario",
-      "first_mes",
-      "mes_example",
-      "creator_notes",
-      "tags",
-    ] as FieldKey[]),
-    "",
-    "FIRST MESSAGE (first_mes) QUALITY BAR (MANDATORY):",
-    "- first_mes MUST read like the opening of a story scene, not a greeting.",
-    "- Length & structure: follow the Field Length preset above for first_mes.",
-    "- Start in medias res with concrete sensory detail and immediate context (place/time/weather/sounds).",
-    "- Show {{char}} doing something *right now* (actions, body language, small beats) before/around dialogue.",
-    "- Include at least ONE spoken line from {{char}} (quoted dialogue).",
-    "- Acknowledge {{user}}’s presence naturally, but DO NOT narrate {{user}}’s thoughts, feelings, or decisions.",
-    "- You MAY establish a minimal premise for {{user}} entering the scene (arriving, noticing, standing there),",
-    "  but do not force choices or internal monologue onto {{user}}.",
-    "- End with a HOOK that demands a response (a question, an urgent request, a reveal, or an interrupting event).",
-    "- Avoid generic openers like: 'Greetings', 'Hello', 'How may I help', 'Welcome'.",
-    "- Do not include meta commentary (no 'as an AI', no writing notes).",
-    "",
-    "If you cannot comply with JSON, return ONLY the tagged template below and nothing else:",
-    "#NAME#",
-    "#DESCRIPTION#",
-    "#PERSONALITY#",
-    "#SCENARIO#",
-    "#FIRST_MESSAGE#",
-    "#EXAMPLE_MESSAGES#",
-    "#TAGS#",
-    "#CREATOR_NOTES#",
-    "#IMAGE_PROMPT#",
-    ...(useDefaultNegativePrompt ? [] : ["#NEGATIVE_PROMPT#"]),
-    "#POV#",
-    "",
-    "Input:",
-    `Idea: ${input.idea.trim()}`,
-    nameLine,
-    `POV: ${input.pov}`,
-    loreLine,
-  ].join("\n");
+          "- negative_prompt should list what to avoid.",
+          "- negative_prompt: English, single line, comma-separated phrases, 200–300 characters max, no newlines.",
+        ].join("\n"),
+    negative_prompt_tag: useDefaultNegativePrompt ? "" : "#NEGATIVE_PROMPT#",
+  });
 }
 
 export function buildCharacterGenPromptTagged(
   input: CharacterGenInput,
-  options: {
-    contentRating: "sfw" | "nsfw_allowed";
-    fieldDetail?: FieldDetailSettings;
-    useDefaultNegativePrompt?: boolean;
-  }
+  options: CharacterGenOptions,
+  template = loadPromptTemplate("generate_tagged")
 ) {
-  const nameLine = input.name?.trim()
-    ? `Preferred name: ${input.name.trim()}`
-    : "Preferred name: (invent a fitting name)";
-  const loreLine = input.lorebook?.trim()
-    ? `Lorebook:\n${input.lorebook.trim()}`
-    : "Lorebook: (none)";
-  const lang = normalizeOutputLanguage(input.outputLanguage);
-
   const useDefaultNegativePrompt = options.useDefaultNegativePrompt === true;
 
-  return [
-    "You are generating a SillyTavern character card.",
-    "Return ONLY the tagged template below. No JSON, no markdown, no commentary.",
-    "Rules:",
-    ...(lang ? [
-      "LANGUAGE REQUIREMENT (CRITICAL):",
-      `- Write ALL field values in ${lang} (do not mix languages).`,
-      "- Keep proper names as names, but everything else must be in the selected language.",
-      "- Avoid English filler words (e.g., 'but', 'and', 'so') in non-English text.",
-      "- Always write image_prompt and negative_prompt in English.",
-      "",
-    ] : []),
-    "- Use the exact tag names shown in the template.",
-    "- Use standard JSON escaping for newlines (\\n) if you must include newlines.",
-    "- tags must be a comma-separated list of short strings.",
-    "- image_prompt must be a concise, detailed portrait prompt for the avatar.",
-    "- image_prompt: English, exactly ONE paragraph, 350â€“500 characters max, no newlines.",
-    ...(useDefaultNegativePrompt ? [
-      "- negative_prompt will be supplied by the app, but still include the tag with an empty value.",
-    ] : [
-      "- negative_prompt should list what to avoid.",
-      "- negative_prompt: English, single line, comma-separated phrases, 200â€“300 characters max, no newlines.",
-    ]),
-    "- If you exceed limits, rewrite shorter before responding.",
-    "- Do not use quotes or markdown in image_prompt/negative_prompt.",
-    "- mes_example must use {{user}} and {{char}} labels.",
-    options.contentRating === "sfw"
-      ? "Content rating: SFW only. Keep content safe and avoid sexual content."
-      : "Content rating: NSFW allowed. Do not add safety constraints unless requested; focus negative_prompt on quality/artifacts.",
-    ...(useDefaultNegativePrompt
-      ? []
+  return renderPromptTemplate(template, {
+    ...characterGenValues(input, options),
+    negative_prompt_format: useDefaultNegativePrompt
+      ? "- negative_prompt will be supplied by the app, but still include the tag with an empty value."
       : [
-          options.contentRating === "sfw"
-            ? "- negative_prompt must include nudity and explicit sexual content to avoid."
-            : "- negative_prompt should focus on quality/artifacts unless the user requests otherwise.",
-        ]),
-    "POV rules for first_mes:",
-    "- first: {{char}} speaks in first person.",
-    "- second: address {{user}} in second person without controlling their actions.",
-    "- third: write in third person, acknowledge {{user}} presence without controlling them.",
-    "",
-    "FIELD LENGTH & STRUCTURE PRESET (MANDATORY):",
-    ...buildFieldDetailLines(options.fieldDetail, [
-      "description",
-      "personality",
-      "scenario",
-      "first_mes",
-      "mes_example",
-      "creator_notes",
-      "tags",
-    ] as FieldKey[]),
-    "",
-    "FIRST MESSAGE (first_mes) QUALITY BAR (MANDATORY):",
-    "- first_mes MUST read like the opening of a story scene, not a greeting.",
-    "- Length & structure: follow the Field Length preset above for first_mes.",
-    "- Start in medias res with concrete sensory detail and immediate context (place/time/weather/sounds).",
-    "- Show {{char}} doing something *right now* (actions, body language, small beats) before/around dialogue.",
-    "- Include at least ONE spoken line from {{char}} (quoted dialogue).",
-    "- Acknowledge {{user}}â€™s presence naturally, but DO NOT narrate {{user}}â€™s thoughts, feelings, or decisions.",
-    "- You MAY establish a minimal premise for {{user}} entering the scene (arriving, noticing, standing there),",
-    "  but do not force choices or internal monologue onto {{user}}.",
-    "- End with a HOOK that demands a response (a question, an urgent request, a reveal, or an interrupting event).",
-    "- Avoid generic openers like: 'Greetings', 'Hello', 'How may I help', 'Welcome'.",
-    "- Do not include meta commentary (no 'as an AI', no writing notes).",
-    "",
-    "Template (fill in each section; keep blank lines between sections):",
-    "#NAME#",
-    "",
-    "#DESCRIPTION#",
-    "",
-    "#PERSONALITY#",
-    "",
-    "#SCENARIO#",
-    "",
-    "#FIRST_MESSAGE#",
-    "",
-    "#EXAMPLE_MESSAGES#",
-    "",
-    "#TAGS#",
-    "",
-    "#CREATOR_NOTES#",
-    "",
-    "#IMAGE_PROMPT#",
-    "",
-    "#NEGATIVE_PROMPT#",
-    "",
-    "#POV#",
-    "",
-    "Input:",
-    `Idea: ${input.idea.trim()}`,
-    nameLine,
-    `POV: ${input.pov}`,
-    loreLine,
-  ].join("\n");
+          "- negative_prompt should list what to avoid.",
+          "- negative_prompt: English, single line, comma-separated phrases, 200–300 characters max, no newlines.",
+        ].join("\n"),
+  });
+}
+
+export function buildPipelineSheetPrompt(
+  input: CharacterGenInput,
+  options: CharacterGenOptions,
+  template = loadPromptTemplate("pipeline_sheet")
+) {
+  const values = characterGenValues(input, options);
+  return renderPromptTemplate(template, {
+    idea: values.idea,
+    name: values.name,
+    pov: values.pov,
+    lorebook: values.lorebook,
+    language_block: languageBlock(normalizeOutputLanguage(input.outputLanguage), "sheet text", false),
+    content_rating: values.content_rating,
+  });
+}
+
+export const PIPELINE_FIELDS = [
+  "description",
+  "personality",
+  "scenario",
+  "first_mes",
+  "mes_example",
+  "tags",
+  "creator_notes",
+  "image_prompt",
+  "negative_prompt",
+] as const;
+
+export type PipelineField = (typeof PIPELINE_FIELDS)[number];
+
+const PIPELINE_FIELD_RULES: Record<PipelineField, string[]> = {
+  description: ["- description: the character's appearance, background and key facts, written as prose."],
+  personality: ["- personality: traits, habits, motivations and how the character behaves around others."],
+  scenario: ["- scenario: the situation and setting in which {{char}} meets {{user}}."],
+  first_mes: ["- first_mes: the opening message of the roleplay, written by {{char}}."],
+  mes_example: [
+    "- mes_example: example dialogue in blocks that start with <START>.",
+    "- Every line is labelled {{user}}: or {{char}}:.",
+  ],
+  tags: ["- tags: ONE line of short, comma-separated tags."],
+  creator_notes: ["- creator_notes: notes for people using the card (tone, suggested use, content notes)."],
+  image_prompt: [
+    "- image_prompt: a concise, detailed portrait prompt for the avatar.",
+    "- English, exactly ONE paragraph, 350-500 characters max, no newlines, no quotes.",
+  ],
+  negative_prompt: [
+    "- negative_prompt: what the avatar image should avoid.",
+    "- English, single line, comma-separated phrases, 200-300 characters max, no quotes.",
+  ],
+};
+
+export type PipelineFieldInput = CharacterGenInput & {
+  sheet: string;
+  field: PipelineField;
+  fields: Record<string, any>;
+};
+
+export function buildPipelineFieldPrompt(
+  input: PipelineFieldInput,
+  options: CharacterGenOptions,
+  template = loadPromptTemplate("pipeline_field")
+) {
+  const values = characterGenValues(input, options);
+  const isImageField = input.field === "image_prompt" || input.field === "negative_prompt";
+  const detailKeys = cardFieldKeys([input.field]);
+  const rules = [...PIPELINE_FIELD_RULES[input.field]];
+  if (input.field === "negative_prompt" && values.negative_prompt_rating) rules.push(values.negative_prompt_rating);
+
+  return renderPromptTemplate(template, {
+    idea: values.idea,
+    pov: values.pov,
+    lorebook: values.lorebook,
+    field_detail: detailKeys.length
+      ? buildFieldDetailLines(options.fieldDetail, detailKeys).join("\n")
+      : "- Follow the format rules above.",
+    language_block: isImageField
+      ? ""
+      : languageBlock(normalizeOutputLanguage(input.outputLanguage), "field text", false),
+    content_rating: values.content_rating,
+    existing_fields: Object.keys(input.fields).length ? JSON.stringify(input.fields, null, 2) : "(none yet)",
+    sheet: input.sheet.trim(),
+    field_key: input.field,
+    field_rules: rules.join("\n"),
+    first_mes_rules: input.field === "first_mes" ? firstMesRules("field") : "",
+  });
 }
 
 type FillMissingInput = {
@@ -242,70 +253,27 @@ type FillMissingInput = {
   missingKeys: string[];
   pov: "first" | "second" | "third";
   idea?: string;
-  lorebook?: string;
+  characterBook?: CharacterBook | null;
   outputLanguage?: string;
 };
 
-export function buildFillMissingPrompt(input: FillMissingInput, options?: { fieldDetail?: FieldDetailSettings }) {
-  const fields = JSON.stringify(input.card, null, 2);
-  const loreLine = input.lorebook?.trim()
-    ? `Lorebook:\n${input.lorebook.trim()}`
-    : "Lorebook: (none)";
-  const ideaLine = input.idea?.trim() ? `Idea: ${input.idea.trim()}` : "Idea: (none)";
-  const missingFieldKeys = input.missingKeys.filter((k) =>
-    ["description", "personality", "scenario", "first_mes", "mes_example", "creator_notes", "tags"].includes(k)
-  ) as FieldKey[];
-  const needsFirstMes = missingFieldKeys.includes("first_mes");
-  const lang = normalizeOutputLanguage(input.outputLanguage);
+export function buildFillMissingPrompt(
+  input: FillMissingInput,
+  options?: { fieldDetail?: FieldDetailSettings },
+  template = loadPromptTemplate("fill_missing")
+) {
+  const missingFieldKeys = cardFieldKeys(input.missingKeys);
 
-  return [
-    "You are completing missing fields for a SillyTavern character card.",
-    "Return ONLY valid JSON. No markdown, no commentary.",
-    "Rules:",
-    ...(lang ? [
-      "LANGUAGE REQUIREMENT (CRITICAL):",
-      `- Write ALL field values in ${lang} (do not mix languages).`,
-      "- Keep proper names as names, but everything else must be in the selected language.",
-      "- Avoid English filler words (e.g., 'but', 'and', 'so') in non-English text.",
-      "- Always write image_prompt and negative_prompt in English.",
-      "",
-    ] : []),
-    "- Output must be a JSON object containing ONLY the missing keys listed below.",
-    "- Do NOT include keys that already have content.",
-    "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
-    "- mes_example must use {{user}} and {{char}} labels if requested.",
-    "POV rules for first_mes:",
-    "- first: {{char}} speaks in first person.",
-    "- second: address {{user}} in second person without controlling their actions.",
-    "- third: write in third person, acknowledge {{user}} presence without controlling them.",
-    "",
-    "FIELD LENGTH & STRUCTURE PRESET (MANDATORY):",
-    ...buildFieldDetailLines(options?.fieldDetail, missingFieldKeys),
-    "",
-    ...(needsFirstMes
-      ? [
-          "If first_mes is among the missing keys, apply these FIRST MESSAGE requirements:",
-          "- first_mes MUST read like the opening of a story scene, not a greeting.",
-          "- Length & structure: follow the Field Length preset above for first_mes.",
-          "- Start in medias res with concrete sensory detail and immediate context (place/time/weather/sounds).",
-          "- Show {{char}} doing something *right now* (actions, body language, small beats) before/around dialogue.",
-          "- Include at least ONE spoken line from {{char}} (quoted dialogue).",
-          "- Acknowledge {{user}} without controlling their thoughts/choices.",
-          "- End with a HOOK that demands a response (a question, an urgent request, a reveal, or an interrupting event).",
-          "- Avoid generic openers like: 'Greetings', 'Hello', 'How may I help', 'Welcome'.",
-          "- Do not include meta commentary (no 'as an AI', no writing notes).",
-          "",
-        ]
-      : []),
-    "Missing keys:",
-    input.missingKeys.join(", "),
-    "",
-    "Existing fields:",
-    fields,
-    ideaLine,
-    `POV: ${input.pov}`,
-    loreLine,
-  ].join("\n");
+  return renderPromptTemplate(template, {
+    idea: input.idea?.trim() || "(none)",
+    pov: input.pov,
+    lorebook: buildLorebookBlock(input.characterBook),
+    field_detail: buildFieldDetailLines(options?.fieldDetail, missingFieldKeys).join("\n"),
+    language_block: languageBlock(normalizeOutputLanguage(input.outputLanguage)),
+    existing_fields: JSON.stringify(input.card, null, 2),
+    missing_keys: input.missingKeys.join(", "),
+    first_mes_rules: missingFieldKeys.includes("first_mes") ? firstMesRules("missing") : "",
+  });
 }
 
 type ImagePromptInput = {
@@ -317,126 +285,283 @@ export function buildImagePrompt(
   input: ImagePromptInput & {
     contentRating: "sfw" | "nsfw_allowed";
     useDefaultNegativePrompt?: boolean;
-  }
+  },
+  template = loadPromptTemplate("image")
 ) {
-  const fields = JSON.stringify(input.card, null, 2);
-  const styleLine = input.styleHints?.trim()
-    ? `Style hints: ${input.styleHints.trim()}`
-    : "Style hints: (none)";
   const useDefaultNegativePrompt = input.useDefaultNegativePrompt === true;
 
-  return [
-    "You are generating an avatar portrait prompt for a SillyTavern character.",
-    useDefaultNegativePrompt
-      ? "Return ONLY valid JSON with keys: image_prompt."
-      : "Return ONLY valid JSON with keys: image_prompt, negative_prompt.",
-    "Rules:",
-    "- image_prompt must be a concise, detailed portrait prompt.",
-    ...(useDefaultNegativePrompt ? [] : ["- negative_prompt should list what to avoid."]),
-    "- image_prompt: English, exactly ONE paragraph, 350-500 characters max, no newlines.",
-    ...(useDefaultNegativePrompt ? [] : [
-      "- negative_prompt: English, single line, comma-separated phrases, 200-300 characters max, no newlines.",
-    ]),
-    "- If you exceed limits, rewrite shorter before responding.",
-    "- Do not use quotes or markdown in image_prompt/negative_prompt.",
-    input.contentRating === "sfw"
+  return renderPromptTemplate(template, {
+    existing_fields: JSON.stringify(input.card, null, 2),
+    json_keys: useDefaultNegativePrompt ? "image_prompt" : "image_prompt, negative_prompt",
+    negative_prompt_format: useDefaultNegativePrompt
+      ? ""
+      : [
+          "- negative_prompt should list what to avoid.",
+          "- negative_prompt: English, single line, comma-separated phrases, 200-300 characters max, no newlines.",
+        ].join("\n"),
+    content_rating: input.contentRating === "sfw"
       ? (useDefaultNegativePrompt
         ? "Content rating: SFW only. Keep content safe and avoid sexual content."
         : "Content rating: SFW only. Include nudity and explicit sexual content in negative_prompt.")
-      : "Content rating: NSFW allowed. Do not add safety constraints unless requested; focus negative_prompt on quality/artifacts.",
-    "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
-    "",
-    "Character fields:",
-    fields,
-    styleLine,
-  ].join("\\n");
+      : contentRatingRule(input.contentRating),
+    style_hints: input.styleHints?.trim() || "(none)",
+  });
 }
 
 type RegenerateInput = {
   idea: string;
   requestedName?: string;
   pov: "first" | "second" | "third";
-  lorebook?: string;
+  characterBook?: CharacterBook | null;
   card: Record<string, any>;
   targets: string[];
   regenNonce?: string;
   outputLanguage?: string;
 };
 
-export function buildRegeneratePrompt(input: RegenerateInput, options?: { fieldDetail?: FieldDetailSettings }) {
-  const nameLine = input.requestedName?.trim()
-    ? `Preferred name: ${input.requestedName.trim()}`
-    : "Preferred name: (unchanged)";
-  const nameRule = input.requestedName?.trim()
-    ? "If you update name, use the preferred name exactly unless you must adjust capitalization."
-    : "";
-  const loreLine = input.lorebook?.trim()
-    ? `Lorebook:\n${input.lorebook.trim()}`
-    : "Lorebook: (none)";
-  const targetFieldKeys = input.targets.filter((k) =>
-    ["description", "personality", "scenario", "first_mes", "mes_example", "creator_notes", "tags"].includes(k)
-  ) as FieldKey[];
-  const needsFirstMes = targetFieldKeys.includes("first_mes");
-  const lang = normalizeOutputLanguage(input.outputLanguage);
+export function buildRegeneratePrompt(
+  input: RegenerateInput,
+  options?: { fieldDetail?: FieldDetailSettings },
+  template = loadPromptTemplate("regenerate")
+) {
+  const requestedName = input.requestedName?.trim();
+  const targetFieldKeys = cardFieldKeys(input.targets);
 
-  return [
-    "You are regenerating selected fields for a SillyTavern character card.",
-    "Return ONLY valid JSON. No markdown, no commentary.",
-    "Rules:",
-    ...(lang ? [
-      "LANGUAGE REQUIREMENT (CRITICAL):",
-      `- Write ALL field values in ${lang} (do not mix languages).`,
-      "- Keep proper names as names, but everything else must be in the selected language.",
-      "- Avoid English filler words (e.g., 'but', 'and', 'so') in non-English text.",
-      "- Always write image_prompt and negative_prompt in English.",
-      "",
-    ] : []),
-    "- Output must be a JSON object containing ONLY the target keys listed below.",
-    "- Do NOT include keys that are not in the target list.",
-    "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
-    "- mes_example must use {{user}} and {{char}} labels if requested.",
-    nameRule,
-    "Regeneration rules (MANDATORY):",
-    "- You are regenerating the target keys ONLY.",
-    "- For each target key, produce a NEW value that is not identical to the existing value for that key.",
-    "- Do NOT return the exact same text/array as the existing value for that key.",
-    "- If you accidentally repeat a target value, regenerate internally until it differs.",
-    "Regeneration nonce (use to vary phrasing/details; do not output it):",
-    input.regenNonce ?? "(none)",
-    "",
-    "POV rules for first_mes:",
-    "- first: {{char}} speaks in first person.",
-    "- second: address {{user}} in second person without controlling their actions.",
-    "- third: write in third person, acknowledge {{user}} presence without controlling them.",
-    "",
-    "FIELD LENGTH & STRUCTURE PRESET (MANDATORY):",
-    ...buildFieldDetailLines(options?.fieldDetail, targetFieldKeys),
-    "",
-    ...(needsFirstMes
-      ? [
-          "If first_mes is among the target keys, apply these FIRST MESSAGE requirements:",
-          "- first_mes MUST read like the opening of a story scene, not a greeting.",
-          "- Length & structure: follow the Field Length preset above for first_mes.",
-          "- Start in medias res with concrete sensory detail and immediate context (place/time/weather/sounds).",
-          "- Show {{char}} doing something *right now* (actions, body language, small beats) before/around dialogue.",
-          "- Include at least ONE spoken line from {{char}} (quoted dialogue).",
-          "- Acknowledge {{user}} without controlling their thoughts/choices.",
-          "- End with a HOOK that demands a response (a question, an urgent request, a reveal, or an interrupting event).",
-          "- Avoid generic openers like: 'Greetings', 'Hello', 'How may I help', 'Welcome'.",
-          "- Do not include meta commentary (no 'as an AI', no writing notes).",
-          "",
-        ]
-      : []),
-    "Target keys:",
-    input.targets.join(", "),
-    "",
-    "Existing fields:",
-    JSON.stringify(input.card, null, 2),
-    "",
-    "Input:",
-    `Idea: ${input.idea.trim()}`,
-    nameLine,
-    `POV: ${input.pov}`,
-    loreLine,
-  ].join("\n");
+  return renderPromptTemplate(template, {
+    idea: input.idea.trim(),
+    name: requestedName || "(unchanged)",
+    pov: input.pov,
+    lorebook: buildLorebookBlock(input.characterBook),
+    field_detail: buildFieldDetailLines(options?.fieldDetail, targetFieldKeys).join("\n"),
+    language_block: languageBlock(normalizeOutputLanguage(input.outputLanguage)),
+    existing_fields: JSON.stringify(input.card, null, 2),
+    target_keys: input.targets.join(", "),
+    first_mes_rules: targetFieldKeys.includes("first_mes") ? firstMesRules("target") : "",
+    name_rule: requestedName
+      ? "If you update name, use the preferred name exactly unless you must adjust capitalization."
+      : "",
+    nonce: input.regenNonce ?? "(none)",
+  });
+}
+
+type AlternateGreetingsInput = {
+  card: Record<string, any>;
+  count: number;
+  pov: "first" | "second" | "third";
+  characterBook?: CharacterBook | null;
+  regenNonce?: string;
+  outputLanguage?: string;
+};
+
+export function buildAlternateGreetingsPrompt(
+  input: AlternateGreetingsInput,
+  options?: { fieldDetail?: FieldDetailSettings },
+  template = loadPromptTemplate("alternate_greetings")
+) {
+  return renderPromptTemplate(template, {
+    pov: input.pov,
+    lorebook: buildLorebookBlock(input.characterBook),
+    field_detail: buildFieldDetailLines(options?.fieldDetail, ["first_mes"]).join("\n"),
+    language_block: languageBlock(normalizeOutputLanguage(input.outputLanguage), "greetings", false),
+    existing_fields: JSON.stringify(input.card, null, 2),
+    count: String(input.count),
+    nonce: input.regenNonce ?? "(none)",
+  });
+}
+
+type AdjustLengthInput = {
+  card: Record<string, any>;
+  checks: FieldLengthCheck[];
+  outputLanguage?: string;
+};
+
+export function buildAdjustLengthPrompt(
+  input: AdjustLengthInput,
+  options?: { fieldDetail?: FieldDetailSettings },
+  template = loadPromptTemplate("adjust_length")
+) {
+  const keys = input.checks.map((check) => check.field);
+  return renderPromptTemplate(template, {
+    field_detail: buildFieldDetailLines(options?.fieldDetail, keys).join("\n"),
+    language_block: languageBlock(normalizeOutputLanguage(input.outputLanguage)),
+    existing_fields: JSON.stringify(input.card, null, 2),
+    json_keys: keys.join(", "),
+    length_fixes: input.checks
+      .map((check) => `- ${check.field}: ${check.direction ?? "adjust"} (now ${check.measured}; expected ${check.expected})`)
+      .join("\n"),
+  });
+}
+
+type TranslateInput = {
+  card: Record<string, any>;
+  fields: string[];
+  targetLanguage: string;
+  names: string[];
+};
+
+export function buildTranslatePrompt(input: TranslateInput, template = loadPromptTemplate("translate")) {
+  const fields = Object.fromEntries(input.fields.map((key) => [key, input.card[key] ?? ""]));
+  return renderPromptTemplate(template, {
+    target_language: input.targetLanguage.trim(),
+    keep_names: input.names.length ? input.names.join(", ") : "(none)",
+    existing_fields: JSON.stringify(fields, null, 2),
+    json_keys: input.fields.join(", "),
+  });
+}
+
+type ReviewInput = {
+  card: Record<string, any>;
+  pov: "first" | "second" | "third";
+  outputLanguage?: string;
+};
+
+export function buildReviewPrompt(
+  input: ReviewInput,
+  options?: { fieldDetail?: FieldDetailSettings },
+  template = loadPromptTemplate("review")
+) {
+  return renderPromptTemplate(template, {
+    pov: input.pov,
+    rubric: buildRubricLines(input.pov).join("\n"),
+    field_detail: buildFieldDetailLines(options?.fieldDetail, cardFieldKeys([...REVIEW_FIELDS])).join("\n"),
+    language_block: languageBlock(normalizeOutputLanguage(input.outputLanguage), "rewrites", false),
+    existing_fields: JSON.stringify(input.card, null, 2),
+    json_keys: REVIEW_FIELDS.join(", "),
+  });
+}
+
+export type CastInput = {
+  idea: string;
+  size: number;
+  outputLanguage?: string;
+};
+
+export function buildCastPrompt(
+  input: CastInput,
+  options: { contentRating: "sfw" | "nsfw_allowed" },
+  template = loadPromptTemplate("cast")
+) {
+  return renderPromptTemplate(template, {
+    idea: input.idea.trim(),
+    cast_size: String(input.size),
+    json_keys: "title, setting, members",
+    content_rating: contentRatingRule(options.contentRating),
+    language_block: languageBlock(normalizeOutputLanguage(input.outputLanguage), "roles, concepts, relationships and the setting", false),
+  });
+}
+
+export type PersonaInput = {
+  card: Record<string, any>;
+  hint?: string;
+  name?: string;
+  outputLanguage?: string;
+};
+
+// The persona description is measured against the card description's Field Detail spec.
+export function buildPersonaPrompt(
+  input: PersonaInput,
+  options: { contentRating: "sfw" | "nsfw_allowed"; fieldDetail?: FieldDetailSettings },
+  template = loadPromptTemplate("persona")
+) {
+  const name = input.name?.trim();
+  return renderPromptTemplate(template, {
+    existing_fields: JSON.stringify(input.card, null, 2),
+    persona_hint: input.hint?.trim() || "(none; invent a persona that makes the scenario work)",
+    name: name ? `Use exactly: ${name}` : "Invent a fitting name that is not the character's.",
+    field_detail: buildFieldDetailLines(options.fieldDetail, ["description"]).join("\n"),
+    json_keys: "name, description, image_prompt",
+    content_rating: contentRatingRule(options.contentRating),
+    language_block: languageBlock(normalizeOutputLanguage(input.outputLanguage), "name and description", false),
+  });
+}
+
+const PREVIEW_CARD = {
+  name: "Mira Vale",
+  description: "A soft-spoken lighthouse keeper who collects shipwrecked letters.",
+  personality: "Patient, curious, quietly stubborn.",
+  scenario: "",
+  first_mes: "",
+  tags: ["mystery", "coastal"],
+};
+
+const PREVIEW_SHEET = [
+  "Name: Mira Vale",
+  "Age & appearance: late twenties, salt-stiff coat, ink-stained fingers.",
+  "Personality: patient, curious, quietly stubborn.",
+].join("\n");
+
+const PREVIEW_BOOK: CharacterBook = {
+  name: "Saltmarsh",
+  extensions: {},
+  entries: [{
+    keys: ["lighthouse"],
+    content: "The Saltmarsh lighthouse has been dark for ten years.",
+    extensions: {},
+    enabled: true,
+    insertion_order: 100,
+    name: "The lighthouse",
+  }],
+};
+
+/** Renders a template against a fixed sample character so the editor can show the final prompt. */
+export function buildPromptPreview(id: PromptTemplateId, template: string, options: CharacterGenOptions) {
+  const base = {
+    idea: "A lighthouse keeper on a haunted coast who trades secrets for letters from the sea.",
+    pov: "second" as const,
+    characterBook: PREVIEW_BOOK,
+    outputLanguage: "auto",
+  };
+  switch (id) {
+    case "generate":
+      return buildCharacterGenPrompt({ ...base, name: "Mira Vale" }, options, template);
+    case "generate_tagged":
+      return buildCharacterGenPromptTagged({ ...base, name: "Mira Vale" }, options, template);
+    case "fill_missing":
+      return buildFillMissingPrompt(
+        { ...base, card: PREVIEW_CARD, missingKeys: ["scenario", "first_mes"] },
+        options,
+        template
+      );
+    case "regenerate":
+      return buildRegeneratePrompt(
+        { ...base, card: PREVIEW_CARD, targets: ["personality"], regenNonce: "preview" },
+        options,
+        template
+      );
+    case "image":
+      return buildImagePrompt({ card: PREVIEW_CARD, styleHints: "painterly, moody lighting", ...options }, template);
+    case "alternate_greetings":
+      return buildAlternateGreetingsPrompt(
+        { ...base, card: PREVIEW_CARD, count: 2, regenNonce: "preview" },
+        options,
+        template
+      );
+    case "pipeline_sheet":
+      return buildPipelineSheetPrompt({ ...base, name: "Mira Vale" }, options, template);
+    case "pipeline_field":
+      return buildPipelineFieldPrompt(
+        { ...base, sheet: PREVIEW_SHEET, field: "scenario", fields: { description: PREVIEW_CARD.description } },
+        options,
+        template
+      );
+    case "adjust_length": {
+      const check = checkFieldLength(options.fieldDetail, "description", PREVIEW_CARD.description);
+      return buildAdjustLengthPrompt(
+        { card: PREVIEW_CARD, checks: check ? [check] : [], outputLanguage: base.outputLanguage },
+        options,
+        template
+      );
+    }
+    case "translate":
+      return buildTranslatePrompt(
+        { card: PREVIEW_CARD, fields: ["description", "personality", "tags"], targetLanguage: "German", names: ["Mira Vale"] },
+        template
+      );
+    case "review":
+      return buildReviewPrompt({ card: PREVIEW_CARD, pov: base.pov }, options, template);
+    case "cast":
+      return buildCastPrompt({ idea: base.idea, size: 3 }, options, template);
+    case "persona":
+      return buildPersonaPrompt({ card: PREVIEW_CARD, hint: "A courier who keeps getting lost on the coast road" }, options, template);
+  }
 }
@@ -0,0 +1,598 @@
+import fs from "node:fs";
+import path from "node:path";
+
+const TEMPLATES_DIR = path.join(process.cwd(), "data", "prompts");
+
+export const PROMPT_TEMPLATE_IDS = [
+  "generate",
+  "generate_tagged",
+  "fill_missing",
+  "regenerate",
+  "image",
+  "alternate_greetings",
+  "pipeline_sheet",
+  "pipeline_field",
+  "adjust_length",
+  "translate",
+  "review",
+  "cast",
+  "persona",
+] as const;
+
+export type PromptTemplateId = (typeof PROMPT_TEMPLATE_IDS)[number];
+
+export const PLACEHOLDER_HELP: Record<string, string> = {
+  idea: "The character idea as typed by the user.",
+  name: "Preferred name, or an instruction when none was given.",
+  pov: "Point of view for first_mes (first, second or third).",
+  lorebook: "Active lorebook entries, or \"Lorebook: (none)\".",
+  field_detail: "Field length & structure lines from the Field Detail preset.",
+  language_block: "Output language rules; empty when the language is Auto.",
+  existing_fields: "The current card fields as JSON.",
+  json_keys: "Comma-separated keys the model must return.",
+  content_rating: "The SFW / NSFW instruction for the configured content rating.",
+  negative_prompt_format: "negative_prompt format rules (depends on the default negative prompt setting).",
+  negative_prompt_rating: "negative_prompt content rule for the content rating; empty when the app supplies it.",
+  negative_prompt_tag: "The #NEGATIVE_PROMPT# tag line for the tagged fallback; empty when the app supplies it.",
+  first_mes_rules: "The first message quality bar; empty unless first_mes is requested.",
+  missing_keys: "Comma-separated keys that are empty on the card.",
+  target_keys: "Comma-separated keys selected for regeneration.",
+  name_rule: "Instruction to keep the preferred name; empty when no name was given.",
+  nonce: "Random text used to vary regenerations.",
+  style_hints: "Style hints for the portrait, or \"(none)\".",
+  count: "Number of alternate greetings requested.",
+  sheet: "The compact character sheet written by the first step.",
+  field_key: "The card field this step writes.",
+  field_rules: "Format rules for the field this step writes.",
+  length_fixes: "One line per field outside its Field Detail range: measured length, expected range, expand or shorten.",
+  target_language: "The language the card is translated into.",
+  keep_names: "Names that must stay as written (character name and lorebook entry names).",
+  rubric: "One line per review criterion with what a good card does.",
+  cast_size: "Number of characters in the cast.",
+  persona_hint: "What the user wants their persona to be, or an instruction when nothing was given.",
+};
+
+// SillyTavern macros that appear in prompts and must be left untouched.
+const PASSTHROUGH = new Set(["user", "char"]);
+
+const FIRST_MES_QUALITY_BAR = [
+  "FIRST MESSAGE (first_mes) QUALITY BAR (MANDATORY):",
+  "- first_mes MUST read like the opening of a story scene, not a greeting.",
+  "- Length & structure: follow the Field Length preset above for first_mes.",
+  "- Start in medias res with concrete sensory detail and immediate context (place/time/weather/sounds).",
+  "- Show {{char}} doing something *right now* (actions, body language, small beats) before/around dialogue.",
+  "- Include at least ONE spoken line from {{char}} (quoted dialogue).",
+  "- Acknowledge {{user}}’s presence naturally, but DO NOT narrate {{user}}’s thoughts, feelings, or decisions.",
+  "- You MAY establish a minimal premise for {{user}} entering the scene (arriving, noticing, standing there),",
+  "  but do not force choices or internal monologue onto {{user}}.",
+  "- End with a HOOK that demands a response (a question, an urgent request, a reveal, or an interrupting event).",
+  "- Avoid generic openers like: 'Greetings', 'Hello', 'How may I help', 'Welcome'.",
+  "- Do not include meta commentary (no 'as an AI', no writing notes).",
+];
+
+const POV_RULES = [
+  "POV rules for first_mes:",
+  "- first: {{char}} speaks in first person.",
+  "- second: address {{user}} in second person without controlling their actions.",
+  "- third: write in third person, acknowledge {{user}} presence without controlling them.",
+];
+
+const CARD_RULES = [
+  "- If you exceed limits, rewrite shorter before responding.",
+  "- Do not use quotes or markdown in image_prompt/negative_prompt.",
+  "- mes_example must use {{user}} and {{char}} labels.",
+  "{{content_rating}}",
+  "{{negative_prompt_rating}}",
+  ...POV_RULES,
+  "",
+  "FIELD LENGTH & STRUCTURE PRESET (MANDATORY):",
+  "{{field_detail}}",
+  "",
+  ...FIRST_MES_QUALITY_BAR,
+  "",
+];
+
+const CARD_INPUT = [
+  "Input:",
+  "Idea: {{idea}}",
+  "Preferred name: {{name}}",
+  "POV: {{pov}}",
+  "{{lorebook}}",
+];
+
+type TemplateDefinition = {
+  title: string;
+  description: string;
+  placeholders: string[];
+  // Placeholders the template cannot work without (the input, or the keys the reply is parsed by).
+  required: string[];
+  template: string;
+};
+
+const DEFINITIONS: Record<PromptTemplateId, TemplateDefinition> = {
+  generate: {
+    title: "Generate character (JSON)",
+    description: "First attempt of a full character generation.",
+    placeholders: [
+      "idea", "name", "pov", "lorebook", "field_detail", "language_block", "json_keys", "content_rating",
+      "negative_prompt_format", "negative_prompt_rating", "negative_prompt_tag",
+    ],
+    required: ["idea", "json_keys"],
+    template: [
+      "You are generating a SillyTavern character card.",
+      "Return ONLY valid JSON. No markdown, no commentary.",
+      "Rules:",
+      "{{language_block}}",
+      "- Output must be a single JSON object with keys exactly:",
+      "  {{json_keys}}",
+      "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
+      "- tags must be an array of short strings.",
+      "- image_prompt must be a concise, detailed portrait prompt for the avatar.",
+      "- image_prompt: English, exactly ONE paragraph, 350–500 characters max, no newlines.",
+      "{{negative_prompt_format}}",
+      ...CARD_RULES,
+      "If you cannot comply with JSON, return ONLY the tagged template below and nothing else:",
+      "#NAME#",
+      "#DESCRIPTION#",
+      "#PERSONALITY#",
+      "#SCENARIO#",
+      "#FIRST_MESSAGE#",
+      "#EXAMPLE_MESSAGES#",
+      "#TAGS#",
+      "#CREATOR_NOTES#",
+      "#IMAGE_PROMPT#",
+      "{{negative_prompt_tag}}",
+      "#POV#",
+      "",
+      ...CARD_INPUT,
+    ].join("\n"),
+  },
+  generate_tagged: {
+    title: "Generate character (tagged fallback)",
+    description: "Retry format used when the model does not return valid JSON.",
+    placeholders: [
+      "idea", "name", "pov", "lorebook", "field_detail", "language_block", "content_rating",
+      "negative_prompt_format", "negative_prompt_rating",
+    ],
+    required: ["idea"],
+    template: [
+      "You are generating a SillyTavern character card.",
+      "Return ONLY the tagged template below. No JSON, no markdown, no commentary.",
+      "Rules:",
+      "{{language_block}}",
+      "- Use the exact tag names shown in the template.",
+      "- Use standard JSON escaping for newlines (\\n) if you must include newlines.",
+      "- tags must be a comma-separated list of short strings.",
+      "- image_prompt must be a concise, detailed portrait prompt for the avatar.",
+      "- image_prompt: English, exactly ONE paragraph, 350–500 characters max, no newlines.",
+      "{{negative_prompt_format}}",
+      ...CARD_RULES,
+      "Template (fill in each section; keep blank lines between sections):",
+      ...[
+        "#NAME#",
+        "#DESCRIPTION#",
+        "#PERSONALITY#",
+        "#SCENARIO#",
+        "#FIRST_MESSAGE#",
+        "#EXAMPLE_MESSAGES#",
+        "#TAGS#",
+        "#CREATOR_NOTES#",
+        "#IMAGE_PROMPT#",
+        "#NEGATIVE_PROMPT#",
+        "#POV#",
+      ].flatMap((tag) => [tag, ""]),
+      ...CARD_INPUT,
+    ].join("\n"),
+  },
+  fill_missing: {
+    title: "Fill missing fields",
+    description: "Completes the empty fields of an existing card.",
+    placeholders: [
+      "idea", "pov", "lorebook", "field_detail", "language_block", "existing_fields", "missing_keys", "first_mes_rules",
+    ],
+    required: ["existing_fields", "missing_keys"],
+    template: [
+      "You are completing missing fields for a SillyTavern character card.",
+      "Return ONLY valid JSON. No markdown, no commentary.",
+      "Rules:",
+      "{{language_block}}",
+      "- Output must be a JSON object containing ONLY the missing keys listed below.",
+      "- Do NOT include keys that already have content.",
+      "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
+      "- mes_example must use {{user}} and {{char}} labels if requested.",
+      ...POV_RULES,
+      "",
+      "FIELD LENGTH & STRUCTURE PRESET (MANDATORY):",
+      "{{field_detail}}",
+      "",
+      "{{first_mes_rules}}",
+      "Missing keys:",
+      "{{missing_keys}}",
+      "",
+      "Existing fields:",
+      "{{existing_fields}}",
+      "Idea: {{idea}}",
+      "POV: {{pov}}",
+      "{{lorebook}}",
+    ].join("\n"),
+  },
+  regenerate: {
+    title: "Regenerate fields",
+    description: "Rewrites the selected fields of an existing card.",
+    placeholders: [
+      "idea", "name", "pov", "lorebook", "field_detail", "language_block", "existing_fields", "target_keys",
+      "first_mes_rules", "name_rule", "nonce",
+    ],
+    required: ["existing_fields", "target_keys"],
+    template: [
+      "You are regenerating selected fields for a SillyTavern character card.",
+      "Return ONLY valid JSON. No markdown, no commentary.",
+      "Rules:",
+      "{{language_block}}",
+      "- Output must be a JSON object containing ONLY the target keys listed below.",
+      "- Do NOT include keys that are not in the target list.",
+      "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
+      "- mes_example must use {{user}} and {{char}} labels if requested.",
+      "{{name_rule}}",
+      "Regeneration rules (MANDATORY):",
+      "- You are regenerating the target keys ONLY.",
+      "- For each target key, produce a NEW value that is not identical to the existing value for that key.",
+      "- Do NOT return the exact same text/array as the existing value for that key.",
+      "- If you accidentally repeat a target value, regenerate internally until it differs.",
+      "Regeneration nonce (use to vary phrasing/details; do not output it):",
+      "{{nonce}}",
+      "",
+      ...POV_RULES,
+      "",
+      "FIELD LENGTH & STRUCTURE PRESET (MANDATORY):",
+      "{{field_detail}}",
+      "",
+      "{{first_mes_rules}}",
+      "Target keys:",
+      "{{target_keys}}",
+      "",
+      "Existing fields:",
+      "{{existing_fields}}",
+      "",
+      ...CARD_INPUT,
+    ].join("\n"),
+  },
+  image: {
+    title: "Avatar image prompt",
+    description: "Writes image_prompt (and negative_prompt) from the card fields.",
+    placeholders: ["existing_fields", "json_keys", "content_rating", "negative_prompt_format", "style_hints"],
+    required: ["existing_fields", "json_keys"],
+    template: [
+      "You are generating an avatar portrait prompt for a SillyTavern character.",
+      "Return ONLY valid JSON with keys: {{json_keys}}.",
+      "Rules:",
+      "- image_prompt must be a concise, detailed portrait prompt.",
+      "- image_prompt: English, exactly ONE paragraph, 350-500 characters max, no newlines.",
+      "{{negative_prompt_format}}",
+      "- If you exceed limits, rewrite shorter before responding.",
+      "- Do not use quotes or markdown in image_prompt/negative_prompt.",
+      "{{content_rating}}",
+      "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
+      "",
+      "Character fields:",
+      "{{existing_fields}}",
+      "Style hints: {{style_hints}}",
+    ].join("\n"),
+  },
+  alternate_greetings: {
+    title: "Alternate greetings",
+    description: "Writes extra opening messages for an existing card.",
+    placeholders: ["pov", "lorebook", "field_detail", "language_block", "existing_fields", "count", "nonce"],
+    required: ["existing_fields", "count"],
+    template: [
+      "You are writing alternate greetings (extra opening messages) for a SillyTavern character card.",
+      "Return ONLY valid JSON. No markdown, no commentary.",
+      "Rules:",
+      "{{language_block}}",
+      "- Output must be a JSON object: {\"alternate_greetings\": [ ... ]} with exactly {{count}} strings.",
+      "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
+      "- Each greeting is a complete alternative to first_mes: a different scene, situation, or premise.",
+      "- Greetings must be distinct from each other, from first_mes, and from the existing alternate greetings.",
+      "- Stay consistent with the character's description, personality, and scenario.",
+      "Variation nonce (use to vary settings/details; do not output it):",
+      "{{nonce}}",
+      "",
+      "POV rules for greetings:",
+      ...POV_RULES.slice(1),
+      "",
+      "FIELD LENGTH & STRUCTURE PRESET (MANDATORY, applies to every greeting):",
+      "{{field_detail}}",
+      "",
+      "GREETING QUALITY BAR (MANDATORY, same as first_mes):",
+      "- Each greeting MUST read like the opening of a story scene, not a greeting.",
+      ...FIRST_MES_QUALITY_BAR.slice(3, 7),
+      ...FIRST_MES_QUALITY_BAR.slice(9),
+      "",
+      "Existing fields:",
+      "{{existing_fields}}",
+      "",
+      "Input:",
+      "Number of greetings: {{count}}",
+      "POV: {{pov}}",
+      "{{lorebook}}",
+    ].join("\n"),
+  },
+  pipeline_sheet: {
+    title: "Step-by-step: character sheet",
+    description: "First step of step-by-step generation: a short sheet the field steps build on.",
+    placeholders: ["idea", "name", "pov", "lorebook", "language_block", "content_rating"],
+    required: ["idea"],
+    template: [
+      "You are planning a SillyTavern character card. Write a compact character sheet that later steps will expand into the card fields.",
+      "Return ONLY the sheet. No markdown, no commentary.",
+      "Rules:",
+      "{{language_block}}",
+      "- First line: Name: <the character's name>",
+      "- Then one short line each for: Age & appearance, Personality, Background, Setting & situation with {{user}}, Speech style, Themes.",
+      "- Keep the whole sheet under 200 words.",
+      "{{content_rating}}",
+      "",
+      ...CARD_INPUT,
+    ].join("\n"),
+  },
+  pipeline_field: {
+    title: "Step-by-step: single field",
+    description: "Writes one card field from the character sheet and the fields written so far.",
+    placeholders: [
+      "idea", "pov", "lorebook", "field_detail", "language_block", "content_rating", "existing_fields", "sheet",
+      "field_key", "field_rules", "first_mes_rules",
+    ],
+    required: ["sheet", "field_key"],
+    template: [
+      "You are writing one field of a SillyTavern character card, based on the character sheet below.",
+      "Return ONLY the text of the {{field_key}} field. No field name, no JSON, no markdown, no commentary.",
+      "Rules:",
+      "{{language_block}}",
+      "{{field_rules}}",
+      "- Stay consistent with the sheet and with the fields written so far; do not repeat them.",
+      "{{content_rating}}",
+      ...POV_RULES,
+      "",
+      "FIELD LENGTH & STRUCTURE PRESET (MANDATORY):",
+      "{{field_detail}}",
+      "",
+      "{{first_mes_rules}}",
+      "Character sheet:",
+      "{{sheet}}",
+      "",
+      "Fields written so far:",
+      "{{existing_fields}}",
+      "",
+      "Idea: {{idea}}",
+      "POV: {{pov}}",
+      "{{lorebook}}",
+    ].join("\n"),
+  },
+  adjust_length: {
+    title: "Length adjustment",
+    description: "Rewrites generated fields that came back shorter or longer than the Field Detail preset allows.",
+    placeholders: ["field_detail", "language_block", "existing_fields", "json_keys", "length_fixes"],
+    required: ["existing_fields", "json_keys", "length_fixes"],
+    template: [
+      "You are editing a SillyTavern character card. Some fields are outside their required length.",
+      "Return ONLY valid JSON with keys: {{json_keys}}. No markdown, no commentary.",
+      "Rules:",
+      "{{language_block}}",
+      "- Rewrite only the listed fields; keep their facts, voice, POV and {{char}}/{{user}} macros.",
+      "- To expand: add concrete detail consistent with the other fields; do not pad or repeat.",
+      "- To shorten: cut repetition and minor detail first; keep the essentials.",
+      "- mes_example must keep {{user}} and {{char}} labels; tags stay a JSON array of short tags.",
+      "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
+      "",
+      "FIELD LENGTH & STRUCTURE PRESET (MANDATORY):",
+      "{{field_detail}}",
+      "",
+      "Fields to fix:",
+      "{{length_fixes}}",
+      "",
+      "Current card:",
+      "{{existing_fields}}",
+    ].join("\n"),
+  },
+  translate: {
+    title: "Translation",
+    description: "Translates selected fields of a finished card into another language.",
+    placeholders: ["target_language", "keep_names", "existing_fields", "json_keys"],
+    required: ["target_language", "existing_fields", "json_keys"],
+    template: [
+      "You are translating a SillyTavern character card into {{target_language}}.",
+      "Return ONLY valid JSON with keys: {{json_keys}}. No markdown, no commentary.",
+      "Rules:",
+      "- Translate each field completely and faithfully; do not add, drop or summarize content.",
+      "- Keep the tone, POV, formatting, line breaks, *actions* and quoted dialogue of the original.",
+      "- Keep the macros {{char}} and {{user}} exactly as written, wherever they appear.",
+      "- Keep every <START> line exactly as written.",
+      "- Do not translate these names: {{keep_names}}",
+      "- alternate_greetings is a JSON array with one translated greeting per original greeting, in order.",
+      "- tags stay a JSON array of short tags.",
+      "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
+      "",
+      "Fields to translate:",
+      "{{existing_fields}}",
+    ].join("\n"),
+  },
+  review: {
+    title: "Review",
+    description: "Grades a finished card against the rubric and proposes targeted rewrites.",
+    placeholders: ["pov", "rubric", "field_detail", "language_block", "existing_fields", "json_keys"],
+    required: ["rubric", "existing_fields", "json_keys"],
+    template: [
+      "You are an editor reviewing a SillyTavern character card before it is published.",
+      "Return ONLY valid JSON with keys scores and suggestions. No markdown, no commentary.",
+      "- scores: [{\"criterion\": \"<rubric id>\", \"score\": 1-5, \"note\": \"...\"}]",
+      "- suggestions: [{\"field\": \"...\", \"criterion\": \"<rubric id>\", \"issue\": \"...\", \"rewrite\": \"...\"}]",
+      "",
+      "Rubric (score every criterion from 1 = poor to 5 = excellent, with a one-sentence note):",
+      "{{rubric}}",
+      "",
+      "Suggestions:",
+      "- Only for problems that matter; at most one suggestion per field; an empty list if the card is fine.",
+      "- field is one of: {{json_keys}}. criterion is the rubric id the suggestion fixes.",
+      "- issue says what is wrong in one sentence.",
+      "- rewrite is the complete new text of the field: change only what fixes the issue and keep the rest as written.",
+      "- Keep {{char}}/{{user}} macros, the {{pov}} person POV for first_mes and the language of the card.",
+      "{{language_block}}",
+      "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
+      "",
+      "FIELD LENGTH & STRUCTURE PRESET (rewrites must stay within it):",
+      "{{field_detail}}",
+      "",
+      "Card:",
+      "{{existing_fields}}",
+    ].join("\n"),
+  },
+  cast: {
+    title: "Cast plan",
+    description: "Plans a group of related characters (setting, roles, relationships) before each card is written.",
+    placeholders: ["idea", "cast_size", "json_keys", "content_rating", "language_block"],
+    required: ["idea", "cast_size", "json_keys"],
+    template: [
+      "You are planning an ensemble cast of related SillyTavern characters who share one setting.",
+      "Return ONLY valid JSON with keys: {{json_keys}}. No markdown, no commentary.",
+      "- title: a short name for the group (the setting or the ensemble).",
+      "- setting: 2-4 sentences on the shared place, time and situation that ties the cast together.",
+      "- members: exactly {{cast_size}} characters, each {\"name\", \"role\", \"concept\", \"relationships\"}.",
+      "  - name: a distinct full name; no two members share a first name.",
+      "  - role: their place in the setting in a few words.",
+      "  - concept: 2-3 sentences on who they are, what they want and what they hide.",
+      "  - relationships: [{\"with\": \"<another member's name>\", \"relation\": \"one sentence from this member's side\"}], one for every other member.",
+      "- Give the cast friction as well as ties: rivalries, debts, secrets, loyalties.",
+      "{{content_rating}}",
+      "{{language_block}}",
+      "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
+      "",
+      "Idea: {{idea}}",
+    ].join("\n"),
+  },
+  persona: {
+    title: "User persona",
+    description: "Writes a SillyTavern user persona (who {{user}} is) to pair with the current character.",
+    placeholders: ["existing_fields", "persona_hint", "name", "field_detail", "json_keys", "content_rating", "language_block"],
+    required: ["existing_fields", "json_keys"],
+    template: [
+      "You are writing a SillyTavern user persona: the character the user plays when chatting with the character card below.",
+      "Return ONLY valid JSON with keys: {{json_keys}}. No markdown, no commentary.",
+      "Rules:",
+      "{{language_block}}",
+      "- name: the persona's name. {{name}}",
+      "- description: who {{user}} is, written in third person about {{user}}: appearance, background, personality and",
+      "  why they are in the card's scenario. Give them a concrete reason to interact with {{char}} and some history or",
+      "  tension with them that the scenario can use.",
+      "- Fit the card's setting, era and tone; do not contradict the scenario or first_mes.",
+      "- Describe {{user}} only: do not write {{char}}'s actions, dialogue or feelings, and do not script what happens next.",
+      "- image_prompt: an avatar portrait prompt for the persona. English, exactly ONE paragraph, 350-500 characters max,",
+      "  no newlines, no quotes or markdown; match the art style the character's image_prompt suggests.",
+      "{{content_rating}}",
+      "- Use standard JSON escaping for newlines (\\n). No trailing commas.",
+      "",
+      "FIELD LENGTH & STRUCTURE PRESET (MANDATORY):",
+      "{{field_detail}}",
+      "",
+      "Persona request: {{persona_hint}}",
+      "",
+      "Character card:",
+      "{{existing_fields}}",
+    ].join("\n"),
+  },
+};
+
+export type PromptTemplateInfo = {
+  id: PromptTemplateId;
+  title: string;
+  description: string;
+  placeholders: Array<{ name: string; description: string }>;
+  template: string;
+  defaultTemplate: string;
+  customized: boolean;
+};
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z_]+)\s*\}\}/g;
+const PLACEHOLDER_LINE = /^\s*\{\{\s*([a-zA-Z_]+)\s*\}\}\s*$/;
+
+function templatePath(id: PromptTemplateId) {
+  return path.join(TEMPLATES_DIR, `${id}.txt`);
+}
+
+function readOverride(id: PromptTemplateId): string | null {
+  try {
+    const text = fs.readFileSync(templatePath(id), "utf-8");
+    return text.trim() ? text : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isPromptTemplateId(value: string): value is PromptTemplateId {
+  return (PROMPT_TEMPLATE_IDS as readonly string[]).includes(value);
+}
+
+export function defaultPromptTemplate(id: PromptTemplateId) {
+  return DEFINITIONS[id].template;
+}
+
+export function loadPromptTemplate(id: PromptTemplateId) {
+  return readOverride(id) ?? DEFINITIONS[id].template;
+}
+
+export function getPromptTemplateInfo(id: PromptTemplateId): PromptTemplateInfo {
+  const def = DEFINITIONS[id];
+  const override = readOverride(id);
+  return {
+    id,
+    title: def.title,
+    description: def.description,
+    placeholders: def.placeholders.map((name) => ({ name, description: PLACEHOLDER_HELP[name] ?? "" })),
+    template: override ?? def.template,
+    defaultTemplate: def.template,
+    customized: override !== null,
+  };
+}
+
+export function listPromptTemplates(): PromptTemplateInfo[] {
+  return PROMPT_TEMPLATE_IDS.map(getPromptTemplateInfo);
+}
+
+export function savePromptTemplate(id: PromptTemplateId, template: string) {
+  if (!fs.existsSync(TEMPLATES_DIR)) fs.mkdirSync(TEMPLATES_DIR, { recursive: true });
+  fs.writeFileSync(templatePath(id), template.replace(/\r\n/g, "\n"), "utf-8");
+}
+
+export function resetPromptTemplate(id: PromptTemplateId) {
+  fs.rmSync(templatePath(id), { force: true });
+}
+
+/** Placeholders used in a template that this template cannot fill ({{user}}/{{char}} are allowed). */
+export function unknownPlaceholders(id: PromptTemplateId, template: string) {
+  const known = new Set(DEFINITIONS[id].placeholders);
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const name = match[1];
+    if (!known.has(name) && !PASSTHROUGH.has(name)) unknown.add(name);
+  }
+  return [...unknown];
+}
+
+/** Required placeholders that a template leaves out. */
+export function missingPlaceholders(id: PromptTemplateId, template: string) {
+  const used = new Set([...template.matchAll(PLACEHOLDER)].map((match) => match[1]));
+  return DEFINITIONS[id].required.filter((name) => !used.has(name));
+}
+
+/**
+ * Substitutes {{name}} placeholders. Unknown names are left as-is, and a line holding nothing
+ * but a placeholder whose value is empty is dropped so optional blocks leave no gap.
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string>) {
+  const lines: string[] = [];
+  for (const line of template.replace(/\r\n/g, "\n").split("\n")) {
+    const only = line.match(PLACEHOLDER_LINE);
+    if (only && Object.hasOwn(values, only[1]) && !values[only[1]]) continue;
+    lines.push(line.replace(PLACEHOLDER, (match, name: string) => (Object.hasOwn(values, name) ? values[name] : match)));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,52 @@
+export const REVIEW_CRITERIA = [
+  {
+    id: "first_mes_hook",
+    label: "First message hook",
+    check: "first_mes opens in a concrete scene where something is already happening and gives {{user}} a reason to reply.",
+  },
+  {
+    id: "pov",
+    label: "POV consistency",
+    check: "first_mes and mes_example keep the requested point of view throughout.",
+  },
+  {
+    id: "user_agency",
+    label: "Not speaking for {{user}}",
+    check: "No field writes {{user}}'s actions, words, thoughts or feelings.",
+  },
+  {
+    id: "consistency",
+    label: "Consistency",
+    check: "personality, description and scenario do not contradict each other (traits, age, appearance, setting).",
+  },
+  {
+    id: "cliches",
+    label: "Clichés",
+    check: "No stock phrases or filler (e.g. \"a mix of\", \"sends shivers down\", \"barely above a whisper\", \"little did they know\").",
+  },
+] as const;
+
+export type ReviewCriterion = (typeof REVIEW_CRITERIA)[number]["id"];
+
+export const REVIEW_CRITERION_IDS = REVIEW_CRITERIA.map((criterion) => criterion.id) as [ReviewCriterion, ...ReviewCriterion[]];
+
+// Fields a review may propose a rewrite for; each suggestion replaces the whole field.
+export const REVIEW_FIELDS = ["description", "personality", "scenario", "first_mes", "mes_example", "creator_notes"] as const;
+
+export type ReviewScore = { criterion: ReviewCriterion; score: number; note: string };
+
+export function buildRubricLines(pov: string) {
+  return REVIEW_CRITERIA.map((criterion) => {
+    const check = criterion.id === "pov" ? `${criterion.check} Requested POV: ${pov} person.` : criterion.check;
+    return `- ${criterion.id} (${criterion.label}): ${check}`;
+  });
+}
+
+/** One score per criterion in rubric order, clamped to 1-5; criteria the model skipped are left out. */
+export function normalizeScores(scores: ReviewScore[]): ReviewScore[] {
+  return REVIEW_CRITERIA.flatMap((criterion) => {
+    const found = scores.find((score) => score.criterion === criterion.id);
+    if (!found) return [];
+    return [{ ...found, score: Math.min(5, Math.max(1, Math.round(found.score))), note: found.note.trim() }];
+  });
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { zodToJsonSchema } from "../../lib/jsonSchema.js";
 
 export const CharacterGenSchema = z.object({
   name: z.string(),
@@ -18,9 +19,21 @@ export const CharacterGenSchema = z.object({
     .optional()
     .default([]),
   creator_notes: z.string().optional().default(""),
+  alternate_greetings: z.array(z.string()).optional().default([]),
   image_prompt: z.string().optional().default(""),
   negative_prompt: z.string().optional().default(""),
   pov: z.enum(["first", "second", "third"]).optional().default("third"),
 }).strict();
 
 export type CharacterGen = z.infer<typeof CharacterGenSchema>;
+
+/**
+ * JSON schema for the JSON generation prompt's output, for providers that can constrain
+ * decoding. negative_prompt is left out when the app supplies it.
+ */
+export function characterGenJsonSchema(options: { includeNegativePrompt: boolean }) {
+  return zodToJsonSchema(CharacterGenSchema.omit({
+    alternate_greetings: true,
+    ...(options.includeNegativePrompt ? {} : { negative_prompt: true as const }),
+  }));
+}
@@ -0,0 +1,73 @@
+export const TRANSLATABLE_FIELDS = [
+  "description",
+  "personality",
+  "scenario",
+  "first_mes",
+  "alternate_greetings",
+  "mes_example",
+  "creator_notes",
+  "system_prompt",
+  "post_history_instructions",
+  "tags",
+] as const;
+
+export type TranslatableField = (typeof TRANSLATABLE_FIELDS)[number];
+
+export type TranslationWarning = { field: TranslatableField; message: string };
+
+// Markers that must survive translation unchanged, counted per field.
+const MARKERS: Array<{ label: string; pattern: RegExp }> = [
+  { label: "{{char}}", pattern: /\{\{\s*char\s*\}\}/gi },
+  { label: "{{user}}", pattern: /\{\{\s*user\s*\}\}/gi },
+  { label: "<START>", pattern: /<START>/gi },
+];
+
+function asText(value: any) {
+  return Array.isArray(value) ? value.join("\n") : String(value ?? "");
+}
+
+function count(text: string, pattern: RegExp) {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Compares a translated field with its original: macro and `<START>` counts, names that
+ * appeared in the original, and the number of alternate greetings.
+ */
+export function checkTranslatedField(
+  field: TranslatableField,
+  original: any,
+  translated: any,
+  names: string[],
+): TranslationWarning[] {
+  const warnings: TranslationWarning[] = [];
+  const before = asText(original);
+  const after = asText(translated);
+  if (before.trim() && !after.trim()) return [{ field, message: "The translation is empty." }];
+
+  for (const marker of MARKERS) {
+    const expected = count(before, marker.pattern);
+    const actual = count(after, marker.pattern);
+    if (expected !== actual) {
+      warnings.push({ field, message: `${marker.label} appears ${expected} times in the original and ${actual} in the translation.` });
+    }
+  }
+  for (const name of names) {
+    if (before.includes(name) && !after.includes(name)) {
+      warnings.push({ field, message: `The name "${name}" was changed or dropped.` });
+    }
+  }
+  if (field === "alternate_greetings" && Array.isArray(original) && Array.isArray(translated) && original.length !== translated.length) {
+    warnings.push({ field, message: `${original.length} greetings in the original, ${translated.length} translated.` });
+  }
+  return warnings;
+}
+
+export function checkTranslation(
+  card: Record<string, any>,
+  patch: Record<string, any>,
+  fields: TranslatableField[],
+  names: string[],
+) {
+  return fields.flatMap((field) => checkTranslatedField(field, card[field], patch[field], names));
+}
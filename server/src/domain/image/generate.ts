@@ -0,0 +1,374 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { getApiKeyFromConfig as getApiKeyFromConfigValue, loadConfig } from "../../config/store.js";
+import { getComfyBaseUrl } from "../../adapters/comfyui/client.js";
+import { applyBindings, roundTo64, type BindingsMap } from "../../adapters/comfyui/bindings.js";
+import { loadBindingsForWorkflow, loadWorkflow } from "../comfyui/workflows.js";
+import { createComfyJob, getJob, updateJob, type ImageJob } from "../jobs/imageJobs.js";
+import { stabilityGenerate } from "../../providers/stability.js";
+import { huggingfaceTextToImage } from "../../providers/huggingface.js";
+import { generateGoogleImage } from "../../providers/google.js";
+import { readApiKey } from "../../secrets/secretStore.js";
+import { httpGetBuffer, httpGetJson, httpPostJson, isHttpRequestError } from "../../utils/http.js";
+import { mapHttpRequestError, mapUnknownError } from "../../lib/errorMap.js";
+import { getOutputDirPath, savePngBuffer } from "../../lib/imageStore.js";
+
+const TIMEOUT_SDAPI_TXT2IMG_MS = 120000;
+const TIMEOUT_COMFY_PROMPT_MS = 15000;
+const COMFY_POLL_INTERVAL_MS = 2000;
+const COMFY_WAIT_LIMIT_MS = 10 * 60 * 1000;
+
+export class ImageGenerationError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: any,
+  ) {
+    super(message);
+  }
+}
+
+export type ImageGenerateInput = {
+  prompt: string;
+  negativePrompt?: string;
+  seed?: number; // if omitted, we randomize
+  aspectRatio?: string;
+  outputFormat?: "png" | "webp" | "jpeg";
+};
+
+export function normalizeBaseUrl(url: string) {
+  return url.replace(/\/+$/, "");
+}
+
+function decodeBase64Image(b64: string): Buffer {
+  const idx = b64.indexOf("base64,");
+  const raw = idx >= 0 ? b64.slice(idx + "base64,".length) : b64;
+  return Buffer.from(raw, "base64");
+}
+
+function applyLoraSettings(workflow: Record<string, any>, cfg: any) {
+  const name = cfg?.image?.comfyui?.loraName;
+  const strengthModel = cfg?.image?.comfyui?.loraStrengthModel;
+  const strengthClip = cfg?.image?.comfyui?.loraStrengthClip;
+
+  for (const node of Object.values(workflow)) {
+    const record: any = node;
+    if (record?.class_type !== "LoraLoader" || !record.inputs) continue;
+    if (name) record.inputs.lora_name = name;
+    if (typeof strengthModel === "number") record.inputs.strength_model = strengthModel;
+    if (typeof strengthClip === "number") record.inputs.strength_clip = strengthClip;
+  }
+  return workflow;
+}
+
+async function requireApiKey(envVar: string, apiKeyRef: string, missingMessage: string) {
+  const apiKeyResult = await readApiKey({
+    envVar,
+    service: "ccg-character-generator",
+    account: apiKeyRef,
+    readFromConfig: () => (apiKeyRef ? getApiKeyFromConfigValue(apiKeyRef) : null),
+  });
+  const apiKey = apiKeyResult.value;
+  if (!apiKey) {
+    if (apiKeyRef) throw new ImageGenerationError(404, "NOT_FOUND", "Selected API key not found.");
+    throw new ImageGenerationError(400, "VALIDATION_ERROR", missingMessage);
+  }
+  return apiKey;
+}
+
+/**
+ * Generates an image with the configured provider. Synchronous providers return `imageUrl`;
+ * ComfyUI returns a `jobId` to poll with `pollComfyJob`.
+ */
+export async function generateImage(input: ImageGenerateInput) {
+  const cfg = loadConfig();
+  const provider = cfg.image.provider;
+
+  if (provider === "google") {
+    const cfgGoogle = cfg.image.google;
+    if (!cfgGoogle) {
+      throw new ImageGenerationError(400, "VALIDATION_ERROR", "Google configuration not found.");
+    }
+    const apiKey = await requireApiKey("GOOGLE_API_KEY", cfgGoogle?.apiKeyRef ?? "", "No API key configured.");
+    const { buffer } = await generateGoogleImage({
+      prompt: input.prompt,
+      negativePrompt: input.negativePrompt || undefined,
+      cfgGoogle,
+      apiKey,
+    });
+    const saved = await savePngBuffer(buffer, { prefix: "google" });
+    return { provider, imageUrl: saved.urlPath };
+  }
+
+  if (provider === "huggingface") {
+    const apiKey = await requireApiKey(
+      "HUGGINGFACE_API_KEY",
+      cfg.image.huggingface?.apiKeyRef ?? "",
+      "No Hugging Face API key configured.",
+    );
+    const model = cfg.image.huggingface?.model || "black-forest-labs/FLUX.1-schnell";
+    const hfProvider = cfg.image.huggingface?.provider || "hf-inference";
+    const result = await huggingfaceTextToImage({
+      accessToken: apiKey,
+      prompt: input.prompt,
+      negativePrompt: input.negativePrompt || undefined,
+      model,
+      provider: hfProvider,
+      width: cfg.image.width,
+      height: cfg.image.height,
+      steps: cfg.image.steps,
+      cfgScale: cfg.image.cfgScale,
+    });
+    return {
+      provider,
+      imageUrl: `/output/${encodeURIComponent(result.fileName)}`,
+      meta: { provider, model, hfProvider },
+    };
+  }
+
+  if (provider === "stability") {
+    const apiKey = await requireApiKey(
+      "STABILITY_API_KEY",
+      cfg.image.stability?.apiKeyRef ?? "",
+      "No API key configured for Stability.",
+    );
+    const result = await stabilityGenerate({
+      prompt: input.prompt,
+      negativePrompt: input.negativePrompt || "",
+      seed: input.seed,
+      aspectRatio: input.aspectRatio || cfg.image.stability?.aspectRatio,
+      outputFormat: input.outputFormat || cfg.image.stability?.outputFormat,
+      apiKey,
+      baseUrl: cfg.image.stability?.baseUrl || cfg.image.baseUrls?.stability,
+    });
+    return {
+      provider,
+      seed: input.seed,
+      imageUrl: `/output/${encodeURIComponent(result.filename)}`,
+    };
+  }
+
+  if (provider === "sdapi" || provider === "koboldcpp") {
+    const baseUrl = normalizeBaseUrl(cfg.image.baseUrls?.[provider] || "");
+    const seed = input.seed ?? -1;
+    const payload: Record<string, any> = {
+      prompt: input.prompt,
+      negative_prompt: input.negativePrompt || "",
+      seed,
+      steps: cfg.image.steps,
+      cfg_scale: cfg.image.cfgScale,
+      width: cfg.image.width,
+      height: cfg.image.height,
+    };
+    if (cfg.image.sampler) payload.sampler_name = cfg.image.sampler;
+    if (cfg.image.scheduler) payload.scheduler = cfg.image.scheduler;
+
+    let out: any;
+    try {
+      out = await httpPostJson(`${baseUrl}/sdapi/v1/txt2img`, payload, {
+        timeoutMs: TIMEOUT_SDAPI_TXT2IMG_MS,
+        maxBodyChars: 2000,
+      });
+    } catch (e: any) {
+      const mapped = isHttpRequestError(e) ? mapHttpRequestError(e) : mapUnknownError(e);
+      const details = mapped.details ? { ...mapped.details, baseUrl } : { baseUrl };
+      throw new ImageGenerationError(mapped.status, mapped.code, mapped.message, details);
+    }
+    const firstImage = Array.isArray(out?.images) ? out.images[0] : null;
+    if (!firstImage || typeof firstImage !== "string") {
+      throw new ImageGenerationError(502, "PROVIDER_BAD_RESPONSE", "SDAPI did not return any images", { out });
+    }
+    const buf = decodeBase64Image(firstImage);
+    const saved = await savePngBuffer(buf, { prefix: provider });
+    return {
+      provider,
+      seed,
+      imageUrl: saved.urlPath,
+      imageBase64: firstImage,
+    };
+  }
+
+  if (provider !== "comfyui") {
+    throw new ImageGenerationError(400, "VALIDATION_ERROR", `Provider '${provider}' not implemented yet.`);
+  }
+
+  const baseUrl = getComfyBaseUrl();
+  const workflowName = cfg.image.comfyui.workflow || "sd_basic.json";
+  const workflow = await loadWorkflow(workflowName);
+  const bindings = await loadBindingsForWorkflow(workflowName) as BindingsMap;
+
+  const seed = (input.seed ?? Math.floor(Math.random() * 2_000_000_000));
+
+  const patched = applyBindings(workflow, bindings, {
+    prompt: input.prompt,
+    negativePrompt: input.negativePrompt || "",
+    seed,
+    steps: cfg.image.steps,
+    cfgScale: cfg.image.cfgScale,
+    sampler: cfg.image.sampler || "euler",
+    scheduler: cfg.image.scheduler || "simple",
+    width: roundTo64(cfg.image.width),
+    height: roundTo64(cfg.image.height),
+    model: cfg.image.comfyui.model || workflow["4"]?.inputs?.ckpt_name
+  });
+  applyLoraSettings(patched, cfg);
+
+  // Submit
+  const submit: any = await httpPostJson(`${baseUrl}/prompt`, { prompt: patched }, { timeoutMs: TIMEOUT_COMFY_PROMPT_MS });
+  const promptId = submit?.prompt_id;
+  if (!promptId) throw new ImageGenerationError(502, "PROVIDER_BAD_RESPONSE", "ComfyUI did not return prompt_id", { submit });
+
+  const job = createComfyJob(baseUrl, promptId);
+  updateJob(job.id, { state: "running", message: "Submitted to ComfyUI", progress: 0.1 });
+  return { provider: "comfyui" as const, jobId: job.id, promptId };
+}
+
+function extractPromptId(item: any): string | null {
+  // Common ComfyUI queue shape: [number, prompt_id, prompt, extra, outputs]
+  if (Array.isArray(item) && item.length >= 2 && typeof item[1] === "string") return item[1];
+  if (item && typeof item === "object") {
+    if (typeof item.prompt_id === "string") return item.prompt_id;
+    if (typeof item.promptId === "string") return item.promptId;
+    if (typeof item.id === "string") return item.id;
+  }
+  return null;
+}
+
+/**
+ * Polls ComfyUI once for a running job: updates queue position, and when the history has an
+ * image, fetches it into /output and marks the job done. Poll errors end the job in "error".
+ */
+export async function pollComfyJob(job: ImageJob): Promise<ImageJob> {
+  const jobId = job.id;
+  if (job.state === "error" || job.state === "done" || job.state === "canceled") return job;
+
+  const { baseUrl, promptId } = job.data;
+
+  try {
+    // Best-effort: queue state/position (queued vs running)
+    try {
+      const q = await httpGetJson<any>(`${baseUrl}/queue`, { timeoutMs: 5000 });
+      const running: any[] = Array.isArray(q?.queue_running) ? q.queue_running : [];
+      const pending: any[] = Array.isArray(q?.queue_pending) ? q.queue_pending : [];
+
+      const runningIdx = running.findIndex((it) => extractPromptId(it) === promptId);
+      const pendingIdx = pending.findIndex((it) => extractPromptId(it) === promptId);
+
+      if (runningIdx >= 0) {
+        updateJob(jobId, { state: "running", progress: Math.max(job.progress ?? 0.2, 0.2), message: "Running" });
+      } else if (pendingIdx >= 0) {
+        updateJob(jobId, {
+          state: "queued",
+          progress: Math.min(job.progress ?? 0.1, 0.15),
+          message: `Queued (position ${pendingIdx + 1})`,
+        });
+      }
+    } catch {
+      // ignore queue check failures
+    }
+
+    // Poll history
+    const hist = await httpGetJson<any>(`${baseUrl}/history/${encodeURIComponent(promptId)}`, { timeoutMs: 8000 });
+
+    const entry = hist?.[promptId];
+    const outputs = entry?.outputs ?? {};
+    let found: { filename: string; subfolder: string; type: string } | null = null;
+
+    for (const nodeId of Object.keys(outputs)) {
+      const images = outputs?.[nodeId]?.images;
+      if (Array.isArray(images) && images.length > 0) {
+        const img = images[0];
+        if (img?.filename) {
+          found = {
+            filename: String(img.filename),
+            subfolder: String(img.subfolder ?? ""),
+            type: String(img.type ?? "output"),
+          };
+          break;
+        }
+      }
+    }
+
+    if (found) {
+      // Fetch the image from ComfyUI and persist it to /output.
+      const params = new URLSearchParams({
+        filename: found.filename,
+        subfolder: found.subfolder,
+        type: found.type,
+        baseUrl,
+      });
+
+      const { buffer } = await httpGetBuffer(`${baseUrl}/view?${params.toString()}`, { timeoutMs: 15000 });
+      const saved = await savePngBuffer(buffer, { prefix: "comfyui" });
+
+      updateJob(jobId, {
+        state: "done",
+        progress: 1,
+        message: "Complete",
+        result: { ...found, imageUrl: saved.urlPath },
+      });
+      return getJob(jobId)!;
+    }
+
+    // Not done yet
+    updateJob(jobId, { state: "running", progress: Math.min((job.progress ?? 0.1) + 0.05, 0.95), message: "Running" });
+    return getJob(jobId)!;
+  } catch (e: any) {
+    if (isHttpRequestError(e)) {
+      updateJob(jobId, { state: "error", error: e.message, details: e.details, message: "Error polling history" });
+      return getJob(jobId)!;
+    }
+    updateJob(jobId, { state: "error", error: String(e?.message ?? e), message: "Error polling history" });
+    return getJob(jobId)!;
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/**
+ * Server-side counterpart of the UI flow: generates an image, waits for ComfyUI jobs to finish,
+ * and returns the saved file from /output.
+ */
+export async function generateImageFile(input: ImageGenerateInput, signal?: AbortSignal) {
+  signal?.throwIfAborted();
+  let imageUrl: string | undefined;
+  try {
+    const result = await generateImage(input);
+    if (result.jobId) {
+      const deadline = Date.now() + COMFY_WAIT_LIMIT_MS;
+      let job = getJob(result.jobId);
+      while (job && job.state !== "done") {
+        if (job.state === "error" || job.state === "canceled") {
+          throw new ImageGenerationError(502, "PROVIDER_ERROR", job.error || `ComfyUI job ${job.state}`, job.details);
+        }
+        if (Date.now() > deadline) throw new ImageGenerationError(504, "TIMEOUT", "ComfyUI did not finish in time");
+        await sleep(COMFY_POLL_INTERVAL_MS, signal);
+        job = await pollComfyJob(job);
+      }
+      imageUrl = job?.result?.imageUrl;
+    } else {
+      imageUrl = result.imageUrl;
+    }
+  } catch (e: any) {
+    if (e instanceof ImageGenerationError || signal?.aborted) throw e;
+    if (!isHttpRequestError(e)) throw new ImageGenerationError(500, "INTERNAL", String(e?.message ?? e));
+    const mapped = mapHttpRequestError(e);
+    throw new ImageGenerationError(mapped.status, mapped.code, mapped.message, mapped.details);
+  }
+  if (!imageUrl || !imageUrl.startsWith("/output/")) {
+    throw new ImageGenerationError(502, "PROVIDER_BAD_RESPONSE", "The image provider did not return an image");
+  }
+  const fileName = path.basename(decodeURIComponent(imageUrl.slice("/output/".length)));
+  const buffer = await fs.readFile(path.join(getOutputDirPath(), fileName));
+  return { imageUrl, buffer };
+}
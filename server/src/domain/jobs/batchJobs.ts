@@ -0,0 +1,184 @@
+import crypto from "crypto";
+
+import { TextGenerationCanceledError } from "../../adapters/text/cancel.js";
+
+export type BatchJobState = "running" | "done" | "canceled";
+
+export type BatchItemState = "queued" | "running" | "done" | "error" | "canceled";
+
+export type BatchStep = "card" | "image_prompt" | "avatar" | "save";
+
+export type BatchIdea = {
+  idea: string;
+  name?: string;
+  pov?: "first" | "second" | "third";
+  outputLanguage?: string;
+};
+
+export type BatchOptions = {
+  repoId?: string;
+  format: "json" | "png" | "charx";
+  spec?: "v2" | "v3";
+  imagePrompt: boolean;
+  avatar: boolean;
+  pov: "first" | "second" | "third";
+  outputLanguage?: string;
+};
+
+export type BatchItemResult = {
+  id: string; // library id in the target repository
+  name: string;
+  imageUrl?: string;
+};
+
+export type BatchItem = BatchIdea & {
+  index: number;
+  state: BatchItemState;
+  step?: BatchStep; // current step while running, the failing step on error
+  attempts: number;
+  error?: { code: string; message: string };
+  result?: BatchItemResult;
+};
+
+export type BatchJob = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  state: BatchJobState;
+  message?: string;
+  options: BatchOptions;
+  items: BatchItem[];
+  counts: Record<BatchItemState, number>;
+};
+
+export type BatchWorker = (
+  item: BatchItem,
+  ctx: { signal: AbortSignal; step: (step: BatchStep) => void },
+) => Promise<BatchItemResult>;
+
+type Entry = {
+  job: BatchJob;
+  controller: AbortController;
+};
+
+const jobs = new Map<string, Entry>();
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function countItems(items: BatchItem[]) {
+  const counts: Record<BatchItemState, number> = { queued: 0, running: 0, done: 0, error: 0, canceled: 0 };
+  for (const item of items) counts[item.state] += 1;
+  return counts;
+}
+
+// Jobs are replaced rather than mutated, so a job already handed to a response stays consistent.
+function touch(entry: Entry, patch: Partial<BatchJob> = {}) {
+  const items = patch.items ?? entry.job.items;
+  entry.job = { ...entry.job, ...patch, items, counts: countItems(items), updatedAt: nowIso() };
+  return entry.job;
+}
+
+function updateItem(entry: Entry, index: number, patch: Partial<BatchItem>) {
+  touch(entry, { items: entry.job.items.map((item) => (item.index === index ? { ...item, ...patch } : item)) });
+}
+
+export function createBatchJob(ideas: BatchIdea[], options: BatchOptions) {
+  const id = crypto.randomBytes(16).toString("hex");
+  const ts = nowIso();
+  const items: BatchItem[] = ideas.map((idea, index) => ({ ...idea, index, state: "queued", attempts: 0 }));
+  const job: BatchJob = {
+    id,
+    createdAt: ts,
+    updatedAt: ts,
+    state: "running",
+    message: "Queued",
+    options,
+    items,
+    counts: countItems(items),
+  };
+  jobs.set(id, { job, controller: new AbortController() });
+  return job;
+}
+
+export function getBatchJob(id: string) {
+  return jobs.get(id)?.job ?? null;
+}
+
+export function listBatchJobs() {
+  return Array.from(jobs.values(), (entry) => entry.job).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Works through the queued items one at a time. A failing item records its error and step and the
+ * run moves on; canceling aborts the current item and leaves the rest canceled.
+ */
+export async function runBatchJob(id: string, worker: BatchWorker) {
+  const entry = jobs.get(id);
+  if (!entry) return null;
+  const { signal } = entry.controller;
+
+  for (const { index } of entry.job.items.filter((item) => item.state === "queued")) {
+    if (signal.aborted) break;
+    const item = entry.job.items.find((candidate) => candidate.index === index);
+    if (!item || item.state !== "queued") continue;
+    updateItem(entry, index, { state: "running", step: "card", attempts: item.attempts + 1, error: undefined });
+    touch(entry, { message: `Generating ${index + 1} of ${entry.job.items.length}` });
+    try {
+      const current = entry.job.items.find((candidate) => candidate.index === index) ?? item;
+      const result = await worker(current, { signal, step: (step) => updateItem(entry, index, { step }) });
+      updateItem(entry, index, { state: "done", step: undefined, result });
+    } catch (e: any) {
+      if (signal.aborted) {
+        updateItem(entry, index, { state: "canceled" });
+        break;
+      }
+      updateItem(entry, index, {
+        state: "error",
+        error: { code: typeof e?.code === "string" ? e.code : "INTERNAL", message: String(e?.message ?? e) },
+      });
+    }
+  }
+
+  if (signal.aborted) {
+    const items = entry.job.items.map((item): BatchItem => (item.state === "queued" ? { ...item, state: "canceled" } : item));
+    return touch(entry, { items, state: "canceled", message: "Canceled" });
+  }
+  const failed = entry.job.items.filter((item) => item.state === "error").length;
+  return touch(entry, { state: "done", message: failed ? `Complete, ${failed} failed` : "Complete" });
+}
+
+export function cancelBatchJob(id: string) {
+  const entry = jobs.get(id);
+  if (!entry) return null;
+  if (entry.job.state !== "running") return entry.job;
+  touch(entry, { message: "Canceling" });
+  entry.controller.abort(new TextGenerationCanceledError());
+  return entry.job;
+}
+
+/**
+ * Puts failed and canceled items back in the queue (or only the given indexes) with a fresh signal.
+ * Returns null when nothing can be retried; the caller starts the run again.
+ */
+export function requeueBatchJob(id: string, indexes?: number[]) {
+  const entry = jobs.get(id);
+  if (!entry || entry.job.state === "running") return null;
+  const retryable = (item: BatchItem) =>
+    (item.state === "error" || item.state === "canceled") && (!indexes || indexes.includes(item.index));
+  if (!entry.job.items.some(retryable)) return null;
+  const items = entry.job.items.map((item): BatchItem =>
+    retryable(item) ? { ...item, state: "queued", step: undefined, error: undefined } : item
+  );
+  entry.controller = new AbortController();
+  return touch(entry, { items, state: "running", message: "Queued" });
+}
+
+export function cleanupOldBatchJobs(maxAgeMs = 1000 * 60 * 60) {
+  const cutoff = Date.now() - maxAgeMs;
+  for (const [id, { job }] of jobs.entries()) {
+    const t = Date.parse(job.updatedAt || job.createdAt);
+    if (job.state !== "running" && !Number.isNaN(t) && t < cutoff) jobs.delete(id);
+  }
+}
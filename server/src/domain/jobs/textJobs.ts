@@ -0,0 +1,64 @@
+import crypto from "crypto";
+
+import { TextGenerationCanceledError } from "../../adapters/text/cancel.js";
+
+export type TextJobState = "running" | "done" | "error" | "canceled";
+
+export type TextJob = {
+  id: string;
+  kind: string; // route that started it, e.g. "generate"
+  createdAt: string;
+  updatedAt: string;
+  state: TextJobState;
+  message?: string;
+  error?: string;
+};
+
+type Entry = {
+  job: TextJob;
+  controller: AbortController;
+};
+
+const jobs = new Map<string, Entry>();
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+export function createTextJob(kind: string) {
+  const id = crypto.randomBytes(16).toString("hex");
+  const ts = nowIso();
+  const job: TextJob = { id, kind, createdAt: ts, updatedAt: ts, state: "running", message: "Running" };
+  const controller = new AbortController();
+  jobs.set(id, { job, controller });
+  return { job, signal: controller.signal };
+}
+
+export function getTextJob(id: string) {
+  return jobs.get(id)?.job ?? null;
+}
+
+export function updateTextJob(id: string, patch: Partial<TextJob>) {
+  const entry = jobs.get(id);
+  if (!entry) return null;
+  entry.job = { ...entry.job, ...patch, updatedAt: nowIso() };
+  return entry.job;
+}
+
+// Aborts the job's signal; adapters stop their request and the route reports the cancel.
+export function cancelTextJob(id: string, message = "Canceled") {
+  const entry = jobs.get(id);
+  if (!entry) return null;
+  if (entry.job.state !== "running") return entry.job;
+  const job = updateTextJob(id, { state: "canceled", message });
+  entry.controller.abort(new TextGenerationCanceledError());
+  return job;
+}
+
+export function cleanupOldTextJobs(maxAgeMs = 1000 * 60 * 60) {
+  const cutoff = Date.now() - maxAgeMs;
+  for (const [id, { job }] of jobs.entries()) {
+    const t = Date.parse(job.updatedAt || job.createdAt);
+    if (job.state !== "running" && !Number.isNaN(t) && t < cutoff) jobs.delete(id);
+  }
+}
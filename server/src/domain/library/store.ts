@@ -2,8 +2,13 @@ import fs from "node:fs";
 import path from "node:path";
 import sanitizeFilename from "sanitize-filename";
 
-import { buildV2CardFromStorePayload, normalizeImportedCard } from "../cards/v2.js";
-import { embedCardIntoPng, extractCardFromPng } from "../cards/png.js";
+import { normalizeImportedCard } from "../cards/v2.js";
+import { stashInlineAssets } from "../cards/assets.js";
+import { buildCharx, readCharx, readCharxCard, readCharxIcon } from "../cards/charx.js";
+import { extractCardFromPng } from "../cards/png.js";
+import { buildCardForSpec, detectCardSpec, embedCardPayloadIntoPng, type CardSpec } from "../cards/v3.js";
+import type { CharacterBook } from "../cards/characterBook.js";
+import { toPngBuffer } from "../../lib/imageTranscode.js";
 import { assertRepoWritable, ensureRepoDir, resolveRepo, type LibraryRepo } from "./repos.js";
 
 export type LibraryItem = {
@@ -15,14 +20,34 @@ export type LibraryItem = {
   fileBase: string;
   pngPath?: string;
   jsonPath?: string;
+  charxPath?: string;
+  charxHasImage?: boolean;
+  variant?: CardVariant;
+  group?: { id: string; name: string };
 };
 
-export type LibrarySaveFormat = "json" | "png";
+export type LibrarySaveFormat = "json" | "png" | "charx";
 
 export type LibraryTransferMode = "copy" | "move";
 
 export type LibraryTransferFormat = "auto" | LibrarySaveFormat;
 
+// Per-field generation versions, kept next to the card rather than inside it so exported cards stay clean.
+export type CardHistory = Record<string, Array<Record<string, any>>>;
+
+// A card saved as a variant (e.g. a translation) of another card in the same repository.
+export type CardVariant = { of: string; language: string };
+
+// Cards saved together, e.g. a generated cast. `members` are file bases in the same repository.
+export type CardGroup = {
+  id: string;
+  name: string;
+  setting?: string;
+  members: string[];
+  lorebook?: CharacterBook | null;
+  createdAt: string;
+};
+
 type LibraryIndexItem = {
   id: string;
   name: string;
@@ -89,6 +114,132 @@ function pngPath(dir: string, fileBase: string) {
   return path.join(dir, `${fileBase}.png`);
 }
 
+function charxPath(dir: string, fileBase: string) {
+  return path.join(dir, `${fileBase}.charx`);
+}
+
+// A dot-directory, so scanLibraryDir (files only) never lists the sidecars as cards.
+function historyPath(dir: string, fileBase: string) {
+  return path.join(dir, ".history", `${fileBase}.json`);
+}
+
+function readHistory(dir: string, fileBase: string): CardHistory {
+  const p = historyPath(dir, fileBase);
+  if (!fs.existsSync(p)) return {};
+  try {
+    const parsed = JSON.parse(fs.readFileSync(p, "utf-8"));
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // fall through
+  }
+  return {};
+}
+
+// `undefined` leaves the stored history alone; an empty history removes the sidecar.
+function writeHistory(dir: string, fileBase: string, history?: CardHistory) {
+  if (!history) return;
+  const p = historyPath(dir, fileBase);
+  if (!Object.keys(history).length) {
+    if (fs.existsSync(p)) fs.unlinkSync(p);
+    return;
+  }
+  fs.mkdirSync(path.dirname(p), { recursive: true });
+  fs.writeFileSync(p, JSON.stringify(history, null, 2), "utf-8");
+}
+
+function variantPath(dir: string, fileBase: string) {
+  return path.join(dir, ".variants", `${fileBase}.json`);
+}
+
+function parseVariant(raw: string): CardVariant | undefined {
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed?.of === "string" && typeof parsed?.language === "string") {
+      return { of: parsed.of, language: parsed.language };
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+function readVariant(dir: string, fileBase: string) {
+  const p = variantPath(dir, fileBase);
+  return fs.existsSync(p) ? parseVariant(fs.readFileSync(p, "utf-8")) : undefined;
+}
+
+// One directory read per listing instead of a lookup per card.
+function readVariants(dir: string) {
+  const out = new Map<string, CardVariant>();
+  const variantsDir = path.join(dir, ".variants");
+  if (!fs.existsSync(variantsDir)) return out;
+  for (const file of fs.readdirSync(variantsDir)) {
+    if (!file.endsWith(".json")) continue;
+    const variant = parseVariant(fs.readFileSync(path.join(variantsDir, file), "utf-8"));
+    if (variant) out.set(file.slice(0, -".json".length), variant);
+  }
+  return out;
+}
+
+// Same contract as writeHistory: `undefined` keeps the link, `null` removes it.
+function writeVariant(dir: string, fileBase: string, variant?: CardVariant | null) {
+  if (variant === undefined) return;
+  const p = variantPath(dir, fileBase);
+  if (!variant) {
+    if (fs.existsSync(p)) fs.unlinkSync(p);
+    return;
+  }
+  fs.mkdirSync(path.dirname(p), { recursive: true });
+  fs.writeFileSync(p, JSON.stringify(variant, null, 2), "utf-8");
+}
+
+// Translations of a deleted card stay as standalone cards. Variants link by item id.
+function unlinkVariantsOf(dir: string, id: string) {
+  for (const [variantBase, variant] of readVariants(dir)) {
+    if (variant.of === id) writeVariant(dir, variantBase, null);
+  }
+}
+
+function groupPath(dir: string, groupId: string) {
+  return path.join(dir, ".groups", `${safeBaseName(groupId)}.json`);
+}
+
+function readGroups(dir: string): CardGroup[] {
+  const groupsDir = path.join(dir, ".groups");
+  if (!fs.existsSync(groupsDir)) return [];
+  const groups: CardGroup[] = [];
+  for (const file of fs.readdirSync(groupsDir)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const parsed = JSON.parse(fs.readFileSync(path.join(groupsDir, file), "utf-8"));
+      if (typeof parsed?.name !== "string" || !Array.isArray(parsed?.members)) continue;
+      groups.push({ ...parsed, id: file.slice(0, -".json".length) });
+    } catch {
+      // skip unreadable group files
+    }
+  }
+  return groups.sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+}
+
+function writeGroup(dir: string, group: CardGroup) {
+  const p = groupPath(dir, group.id);
+  if (!group.members.length) {
+    if (fs.existsSync(p)) fs.unlinkSync(p);
+    return;
+  }
+  fs.mkdirSync(path.dirname(p), { recursive: true });
+  const { id: _id, ...stored } = group;
+  fs.writeFileSync(p, JSON.stringify(stored, null, 2), "utf-8");
+}
+
+// A deleted card leaves its groups; a group left without members is removed.
+function removeFromGroups(dir: string, fileBase: string) {
+  for (const group of readGroups(dir)) {
+    if (!group.members.includes(fileBase)) continue;
+    writeGroup(dir, { ...group, members: group.members.filter((member) => member !== fileBase) });
+  }
+}
+
 export function encodeId(value: string) {
   return Buffer.from(value, "utf-8").toString("base64url");
 }
@@ -131,14 +282,31 @@ function readNameFromPngFile(filePath: string) {
   }
 }
 
-function buildFilesystemItem(dir: string, fileBase: string, pngFile?: string, jsonFile?: string): LibraryItem {
+function readCharxSummary(filePath: string) {
+  try {
+    const { card, hasIcon } = readCharxCard(fs.readFileSync(filePath));
+    return { name: String(normalizeImportedCard(card).data?.name ?? "").trim(), hasImage: hasIcon };
+  } catch {
+    return { name: "", hasImage: false };
+  }
+}
+
+function buildFilesystemItem(
+  dir: string,
+  fileBase: string,
+  pngFile?: string,
+  jsonFile?: string,
+  charxFile?: string,
+): LibraryItem {
   const pngStat = pngFile ? fs.statSync(pngFile) : null;
   const jsonStat = jsonFile ? fs.statSync(jsonFile) : null;
-  const stat = pngStat ?? jsonStat;
+  const charxStat = charxFile ? fs.statSync(charxFile) : null;
+  const stat = pngStat ?? jsonStat ?? charxStat;
 
   const nameFromJson = jsonFile ? readNameFromJsonFile(jsonFile) : "";
   const nameFromPng = !nameFromJson && pngFile ? readNameFromPngFile(pngFile) : "";
-  const displayName = nameFromJson || nameFromPng || fileBase;
+  const charx = charxFile ? readCharxSummary(charxFile) : null;
+  const displayName = nameFromJson || nameFromPng || charx?.name || fileBase;
 
   return {
     id: encodeId(fileBase),
@@ -149,6 +317,8 @@ function buildFilesystemItem(dir: string, fileBase: string, pngFile?: string, js
     fileBase,
     pngPath: pngFile,
     jsonPath: jsonFile,
+    charxPath: charxFile,
+    charxHasImage: charx?.hasImage,
   };
 }
 
@@ -159,23 +329,24 @@ function scanLibraryDir(dir: string): LibraryItem[] {
 
   const items: LibraryItem[] = [];
   const entries = fs.readdirSync(dir, { withFileTypes: true });
-  const byBase = new Map<string, { png?: string; json?: string }>();
+  const byBase = new Map<string, { png?: string; json?: string; charx?: string }>();
 
   for (const entry of entries) {
     if (!entry.isFile()) continue;
     const ext = path.extname(entry.name).toLowerCase();
-    if (ext !== ".png" && ext !== ".json") continue;
+    if (ext !== ".png" && ext !== ".json" && ext !== ".charx") continue;
     if (entry.name.toLowerCase() === "index.json") continue;
     const base = path.basename(entry.name, ext);
     const record = byBase.get(base) || {};
     const fullPath = path.join(dir, entry.name);
     if (ext === ".png") record.png = fullPath;
     if (ext === ".json") record.json = fullPath;
+    if (ext === ".charx") record.charx = fullPath;
     byBase.set(base, record);
   }
 
   for (const [base, record] of byBase.entries()) {
-    items.push(buildFilesystemItem(dir, base, record.png, record.json));
+    items.push(buildFilesystemItem(dir, base, record.png, record.json, record.charx));
   }
 
   cacheByDir.set(dir, { dir, at: now, items });
@@ -204,32 +375,58 @@ function resolvePaths(dir: string, id: string, useIndex: boolean) {
   for (const base of candidates) {
     const jp = jsonPath(dir, base);
     const pp = pngPath(dir, base);
+    const cp = charxPath(dir, base);
     const hasJson = fs.existsSync(jp);
     const hasPng = fs.existsSync(pp);
-    if (hasJson || hasPng) return { fileBase: base, jsonPath: hasJson ? jp : undefined, pngPath: hasPng ? pp : undefined };
+    const hasCharx = fs.existsSync(cp);
+    if (hasJson || hasPng || hasCharx) {
+      return {
+        fileBase: base,
+        jsonPath: hasJson ? jp : undefined,
+        pngPath: hasPng ? pp : undefined,
+        charxPath: hasCharx ? cp : undefined,
+      };
+    }
   }
-  return { fileBase: candidates[0], jsonPath: undefined, pngPath: undefined };
+  return { fileBase: candidates[0], jsonPath: undefined, pngPath: undefined, charxPath: undefined };
 }
 
 function writeCardFiles(
   dir: string,
   fileBase: string,
-  card: Record<string, any>,
+  payload: Record<string, any>,
   format: LibrarySaveFormat,
+  spec: CardSpec | undefined,
   avatarPng?: Buffer | null,
 ) {
   const jp = jsonPath(dir, fileBase);
   const pp = pngPath(dir, fileBase);
+  const cp = charxPath(dir, fileBase);
+  const removeOthers = (keep: string) => {
+    for (const p of [jp, pp, cp]) {
+      if (p !== keep && fs.existsSync(p)) fs.unlinkSync(p);
+    }
+  };
+
+  // JSON stays V2 unless V3 is asked for, so V2-only tools can read it. A PNG carries both chunks.
   if (format === "json") {
+    const card = buildCardForSpec(payload, spec ?? "v2");
     fs.writeFileSync(jp, JSON.stringify(card, null, 2), "utf-8");
-    if (fs.existsSync(pp)) fs.unlinkSync(pp);
+    removeOthers(jp);
+    return;
+  }
+
+  // CharX is a V3-only container, so the spec choice does not apply.
+  if (format === "charx") {
+    fs.writeFileSync(cp, buildCharx(payload, avatarPng));
+    removeOthers(cp);
     return;
   }
 
   if (!avatarPng) throw new Error("Avatar image required for PNG save");
-  const embedded = embedCardIntoPng(avatarPng, JSON.stringify(card));
+  const embedded = embedCardPayloadIntoPng(avatarPng, payload, spec ?? "v3");
   fs.writeFileSync(pp, embedded);
-  if (fs.existsSync(jp)) fs.unlinkSync(jp);
+  removeOthers(pp);
 }
 
 function outputIdForRepo(repo: LibraryRepo, fileBase: string) {
@@ -241,8 +438,24 @@ export function listLibraryItems(repoId?: string): LibraryList {
   const dir = repo.dir;
   const scanned = scanLibraryDir(dir);
 
+  const variants = readVariants(dir);
+  const groups = readGroups(dir);
+  // Links to a card that is no longer in the listing (e.g. removed outside the app) are ignored.
+  const annotate = (list: LibraryItem[]) => {
+    const present = new Set(list.map((item) => item.id));
+    return list.map((item): LibraryItem => {
+      const variant = variants.get(item.fileBase);
+      const group = groups.find((entry) => entry.members.includes(item.fileBase));
+      return {
+        ...item,
+        ...(variant && present.has(variant.of) ? { variant } : {}),
+        ...(group ? { group: { id: group.id, name: group.name } } : {}),
+      };
+    });
+  };
+
   if (repo.kind !== "managed") {
-    return { dir, repo, items: scanned };
+    return { dir, repo, items: annotate(scanned) };
   }
 
   const index = readIndex(dir);
@@ -261,6 +474,8 @@ export function listLibraryItems(repoId?: string): LibraryList {
       fileBase: managed.id,
       pngPath: match?.pngPath ?? (fs.existsSync(pngPath(dir, managed.id)) ? pngPath(dir, managed.id) : undefined),
       jsonPath: match?.jsonPath ?? (fs.existsSync(jsonPath(dir, managed.id)) ? jsonPath(dir, managed.id) : undefined),
+      charxPath: match?.charxPath ?? (fs.existsSync(charxPath(dir, managed.id)) ? charxPath(dir, managed.id) : undefined),
+      charxHasImage: match?.charxHasImage,
     });
     if (match) scannedByBase.delete(managed.id);
   }
@@ -268,7 +483,7 @@ export function listLibraryItems(repoId?: string): LibraryList {
   items.push(...scannedByBase.values());
   items.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
 
-  return { dir, repo, items };
+  return { dir, repo, items: annotate(items) };
 }
 
 export function loadLibraryCard(repoId: string | undefined, id: string) {
@@ -276,26 +491,40 @@ export function loadLibraryCard(repoId: string | undefined, id: string) {
   const dir = repo.dir;
   const resolved = resolvePaths(dir, id, repo.kind === "managed");
 
-  let cardJson: string | null = null;
+  let parsed: any = null;
+  let hasPng = Boolean(resolved.pngPath);
   if (resolved.jsonPath) {
-    cardJson = fs.readFileSync(resolved.jsonPath, "utf-8");
+    parsed = JSON.parse(fs.readFileSync(resolved.jsonPath, "utf-8"));
   } else if (resolved.pngPath) {
-    cardJson = extractCardFromPng(fs.readFileSync(resolved.pngPath));
+    parsed = JSON.parse(extractCardFromPng(fs.readFileSync(resolved.pngPath)));
+  } else if (resolved.charxPath) {
+    const charx = readCharx(fs.readFileSync(resolved.charxPath));
+    parsed = charx.card;
+    hasPng = Boolean(charx.icon);
   }
 
-  if (!cardJson) throw new Error("Card not found");
-  const parsed = JSON.parse(cardJson);
-  const cardV2 = normalizeImportedCard(parsed);
-  const hasPng = Boolean(resolved.pngPath);
-  return { dir, repo, cardV2, hasPng };
+  if (!parsed) throw new Error("Card not found");
+  const cardV2 = stashInlineAssets(normalizeImportedCard(parsed));
+  const spec = detectCardSpec(parsed);
+  const format: LibrarySaveFormat = resolved.charxPath && !resolved.jsonPath && !resolved.pngPath
+    ? "charx"
+    : resolved.pngPath ? "png" : "json";
+  const history = readHistory(dir, resolved.fileBase);
+  const variant = readVariant(dir, resolved.fileBase);
+  return { dir, repo, cardV2, spec, hasPng, format, history, variant };
 }
 
 export function loadLibraryPng(repoId: string | undefined, id: string) {
   const repo = getRepo(repoId);
   const dir = repo.dir;
   const resolved = resolvePaths(dir, id, repo.kind === "managed");
-  if (!resolved.pngPath) throw new Error("Image not found");
-  return fs.readFileSync(resolved.pngPath);
+  if (resolved.pngPath) return fs.readFileSync(resolved.pngPath);
+  if (resolved.charxPath) {
+    // May be any image format; the route converts it to PNG.
+    const icon = readCharxIcon(fs.readFileSync(resolved.charxPath));
+    if (icon) return icon;
+  }
+  throw new Error("Image not found");
 }
 
 export function saveLibraryCard(
@@ -303,15 +532,19 @@ export function saveLibraryCard(
   payload: Record<string, any>,
   format: LibrarySaveFormat,
   avatarPng?: Buffer | null,
+  spec?: CardSpec,
+  history?: CardHistory,
+  variant?: CardVariant | null,
 ) {
   const repo = getRepo(repoId);
   assertRepoWritable(repo);
 
-  const card = buildV2CardFromStorePayload(payload);
   const id = makeId(String(payload?.name ?? ""));
   const now = new Date().toISOString();
 
-  writeCardFiles(repo.dir, id, card, format, avatarPng);
+  writeCardFiles(repo.dir, id, payload, format, spec, avatarPng);
+  writeHistory(repo.dir, id, history);
+  writeVariant(repo.dir, id, variant);
 
   if (repo.kind === "managed") {
     const index = readIndex(repo.dir);
@@ -334,18 +567,22 @@ export function updateLibraryCard(
   payload: Record<string, any>,
   format: LibrarySaveFormat,
   avatarPng?: Buffer | null,
+  spec?: CardSpec,
+  history?: CardHistory,
+  variant?: CardVariant | null,
 ) {
   const repo = getRepo(repoId);
   assertRepoWritable(repo);
 
   const resolved = resolvePaths(repo.dir, idOrEncoded, repo.kind === "managed");
-  if (!resolved.jsonPath && !resolved.pngPath) throw new Error("Card not found");
+  if (!resolved.jsonPath && !resolved.pngPath && !resolved.charxPath) throw new Error("Card not found");
 
-  const card = buildV2CardFromStorePayload(payload);
   const fileBase = resolved.fileBase;
   const now = new Date().toISOString();
 
-  writeCardFiles(repo.dir, fileBase, card, format, avatarPng);
+  writeCardFiles(repo.dir, fileBase, payload, format, spec, avatarPng);
+  writeHistory(repo.dir, fileBase, history);
+  writeVariant(repo.dir, fileBase, variant);
 
   if (repo.kind === "managed") {
     const index = readIndex(repo.dir);
@@ -374,7 +611,7 @@ export function deleteLibraryItem(repoId: string | undefined, idOrEncoded: strin
   const resolvedDir = path.resolve(repo.dir);
 
   const resolved = resolvePaths(repo.dir, idOrEncoded, repo.kind === "managed");
-  if (!resolved.jsonPath && !resolved.pngPath) throw new Error("Card not found");
+  if (!resolved.jsonPath && !resolved.pngPath && !resolved.charxPath) throw new Error("Card not found");
 
   const validatePath = (filePath?: string) => {
     if (!filePath) return;
@@ -386,9 +623,15 @@ export function deleteLibraryItem(repoId: string | undefined, idOrEncoded: strin
 
   validatePath(resolved.pngPath);
   validatePath(resolved.jsonPath);
+  validatePath(resolved.charxPath);
 
   if (resolved.pngPath && fs.existsSync(resolved.pngPath)) fs.unlinkSync(resolved.pngPath);
   if (resolved.jsonPath && fs.existsSync(resolved.jsonPath)) fs.unlinkSync(resolved.jsonPath);
+  if (resolved.charxPath && fs.existsSync(resolved.charxPath)) fs.unlinkSync(resolved.charxPath);
+  writeHistory(repo.dir, resolved.fileBase, {});
+  writeVariant(repo.dir, resolved.fileBase, null);
+  unlinkVariantsOf(repo.dir, outputIdForRepo(repo, resolved.fileBase));
+  removeFromGroups(repo.dir, resolved.fileBase);
 
   if (repo.kind === "managed") {
     const nextIndex = readIndex(repo.dir);
@@ -401,7 +644,7 @@ export function deleteLibraryItem(repoId: string | undefined, idOrEncoded: strin
   cacheByDir.delete(repo.dir);
 }
 
-export function transferLibraryItem(args: {
+export async function transferLibraryItem(args: {
   fromRepoId?: string;
   toRepoId?: string;
   id: string;
@@ -413,17 +656,18 @@ export function transferLibraryItem(args: {
   assertRepoWritable(toRepo);
   if (args.mode === "move") assertRepoWritable(fromRepo);
 
-  const { cardV2, hasPng } = loadLibraryCard(fromRepo.id, args.id);
+  const { cardV2, spec, hasPng, format: sourceFormat, history } = loadLibraryCard(fromRepo.id, args.id);
   const payload = cardV2.data ?? {};
   const requestedFormat = args.destFormat ?? "auto";
-  const format: LibrarySaveFormat = requestedFormat === "auto" ? (hasPng ? "png" : "json") : requestedFormat;
+  const format: LibrarySaveFormat = requestedFormat === "auto" ? sourceFormat : requestedFormat;
   let avatarPng: Buffer | null = null;
-  if (format === "png") {
-    if (!hasPng) throw new Error("Source item has no PNG to copy");
-    avatarPng = loadLibraryPng(fromRepo.id, args.id);
+  if (format === "png" && !hasPng) throw new Error("Source item has no PNG to copy");
+  if (format !== "json" && hasPng) {
+    avatarPng = await toPngBuffer(loadLibraryPng(fromRepo.id, args.id));
   }
 
-  const saved = saveLibraryCard(toRepo.id, payload, format, avatarPng);
+  // Variant links and groups point at ids in the source repository, so they are not carried over.
+  const saved = saveLibraryCard(toRepo.id, payload, format, avatarPng, spec, history);
 
   if (args.mode === "move") {
     deleteLibraryItem(fromRepo.id, args.id);
@@ -431,3 +675,43 @@ export function transferLibraryItem(args: {
 
   return { ok: true, to: { repoId: saved.repo.id, id: saved.id, dir: saved.dir } };
 }
+
+export function listLibraryGroups(repoId?: string) {
+  const repo = getRepo(repoId);
+  const groups = readGroups(repo.dir).map((group) => ({
+    ...group,
+    members: group.members.map((fileBase) => outputIdForRepo(repo, fileBase)),
+  }));
+  return { dir: repo.dir, repo, groups };
+}
+
+/** Saves every card of a group in one format and records them as a group with the shared lorebook. */
+export function saveLibraryGroup(
+  repoId: string | undefined,
+  args: {
+    name: string;
+    setting?: string;
+    cards: Array<{ payload: Record<string, any>; avatarPng?: Buffer | null }>;
+    format: LibrarySaveFormat;
+    spec?: CardSpec;
+    lorebook?: CharacterBook | null;
+  },
+) {
+  const repo = getRepo(repoId);
+  assertRepoWritable(repo);
+
+  const members = args.cards.map(({ payload, avatarPng }) => {
+    const saved = saveLibraryCard(repo.id, payload, args.format, avatarPng, args.spec);
+    return repo.kind === "folder" ? decodeId(saved.id) ?? saved.id : saved.id;
+  });
+  const group: CardGroup = {
+    id: makeId(args.name),
+    name: args.name,
+    setting: args.setting,
+    members,
+    lorebook: args.lorebook ?? null,
+    createdAt: new Date().toISOString(),
+  };
+  writeGroup(repo.dir, group);
+  return { dir: repo.dir, repo, group: { ...group, members: members.map((fileBase) => outputIdForRepo(repo, fileBase)) } };
+}
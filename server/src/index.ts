@@ -1,6 +1,8 @@
 import { createApp } from './app.js'
 import { migrateSecrets } from "./config/store.js";
+import { cleanupOldBatchJobs } from "./domain/jobs/batchJobs.js";
 import { cleanupOldJobs } from "./domain/jobs/imageJobs.js";
+import { cleanupOldTextJobs } from "./domain/jobs/textJobs.js";
 
 const port = Number(process.env.PORT ?? 3001)
 
@@ -10,7 +12,11 @@ async function start() {
   app.listen(port, () => {
     console.log(`CCG server listening on http://localhost:${port}`)
   });
-  setInterval(() => cleanupOldJobs(1000 * 60 * 60), 1000 * 60 * 10).unref();
+  setInterval(() => {
+    cleanupOldJobs(1000 * 60 * 60);
+    cleanupOldTextJobs(1000 * 60 * 60);
+    cleanupOldBatchJobs(1000 * 60 * 60 * 24);
+  }, 1000 * 60 * 10).unref();
 }
 
 start();
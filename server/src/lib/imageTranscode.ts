@@ -0,0 +1,28 @@
+import sharp from "sharp";
+
+import { isPngBuffer } from "./imageStore.js";
+
+export type ImageFormat = "png" | "jpeg" | "webp" | "gif" | "avif" | "unknown";
+
+export function detectImageFormat(buf: Buffer): ImageFormat {
+  if (!buf || buf.length < 12) return "unknown";
+  if (isPngBuffer(buf)) return "png";
+  if (buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return "jpeg";
+  if (buf.toString("ascii", 0, 4) === "RIFF" && buf.toString("ascii", 8, 12) === "WEBP") return "webp";
+  if (buf.toString("ascii", 0, 3) === "GIF") return "gif";
+  if (buf.toString("ascii", 4, 8) === "ftyp" && /^avi[fs]$/.test(buf.toString("ascii", 8, 12))) return "avif";
+  return "unknown";
+}
+
+/**
+ * Returns the image as PNG. Other formats are transcoded; animated images keep their first frame
+ * because PNG cards cannot carry animation.
+ */
+export async function toPngBuffer(buf: Buffer): Promise<Buffer> {
+  if (isPngBuffer(buf)) return buf;
+  try {
+    return await sharp(buf, { animated: false }).png().toBuffer();
+  } catch (e: any) {
+    throw new Error(`Unsupported avatar image (${detectImageFormat(buf)}): ${String(e?.message ?? e)}`);
+  }
+}
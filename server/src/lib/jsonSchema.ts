@@ -0,0 +1,135 @@
+import { z } from "zod";
+
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: string[];
+  anyOf?: JsonSchema[];
+};
+
+/**
+ * Converts the subset of zod used by the generation schemas into JSON schema. Transforms,
+ * defaults and optionals are unwrapped, and every object property is marked required:
+ * constrained decoding should emit every key, and the zod schema fills defaults afterwards.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType());
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return zodToJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return zodToJsonSchema(schema.removeDefault());
+  if (schema instanceof z.ZodString) return { type: "string" };
+  if (schema instanceof z.ZodNumber) return { type: schema.isInt ? "integer" : "number" };
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodEnum) return { type: "string", enum: [...schema.options] };
+  if (schema instanceof z.ZodArray) return { type: "array", items: zodToJsonSchema(schema.element) };
+  if (schema instanceof z.ZodUnion) return { anyOf: schema.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)) };
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+      properties[key] = zodToJsonSchema(value);
+    }
+    return { type: "object", properties, required: Object.keys(properties), additionalProperties: false };
+  }
+  throw new Error(`Unsupported zod type for JSON schema: ${schema.constructor.name}`);
+}
+
+/** JSON schema for an object schema restricted to `keys` (unknown keys are ignored). */
+export function pickJsonSchema(schema: z.AnyZodObject, keys: string[]): JsonSchema {
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+  const picked = Object.fromEntries(keys.filter((key) => key in shape).map((key) => [key, shape[key]]));
+  return zodToJsonSchema(z.object(picked));
+}
+
+/** OpenAI `response_format` for a JSON request: json_object for `true`, strict json_schema otherwise. */
+export function openaiResponseFormat(json: boolean | JsonSchema) {
+  if (json === true) return { type: "json_object" };
+  return { type: "json_schema", json_schema: { name: "output", strict: true, schema: json } };
+}
+
+// Backends that do not understand response_format / grammar / format answer 400 or 422;
+// adapters then retry the same request without the constraint.
+export function isConstraintRejected(status: number) {
+  return status === 400 || status === 422;
+}
+
+export function stripAdditionalProperties(schema: JsonSchema): JsonSchema {
+  const { additionalProperties, ...rest } = schema;
+  const out: JsonSchema = { ...rest };
+  if (rest.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(rest.properties).map(([key, value]) => [key, stripAdditionalProperties(value)])
+    );
+  }
+  if (rest.items) out.items = stripAdditionalProperties(rest.items);
+  if (rest.anyOf) out.anyOf = rest.anyOf.map(stripAdditionalProperties);
+  return out;
+}
+
+// Shared rules, in the style of llama.cpp's grammars/json.gbnf (no {m,n} repetition for older builds).
+const GBNF_BASE = [
+  'ws ::= ([ \\t\\n] ws)?',
+  'string ::= "\\"" ( [^"\\\\\\x7F\\x00-\\x1F] | "\\\\" ( ["\\\\/bfnrt] | "u" [0-9a-fA-F] [0-9a-fA-F] [0-9a-fA-F] [0-9a-fA-F] ) )* "\\"" ws',
+  'number ::= "-"? ( [0-9] | [1-9] [0-9]* ) ( "." [0-9]+ )? ( [eE] [-+]? [0-9]+ )? ws',
+  'integer ::= "-"? ( [0-9] | [1-9] [0-9]* ) ws',
+  'boolean ::= ( "true" | "false" ) ws',
+  'value ::= object | array | string | number | ( "true" | "false" | "null" ) ws',
+  'object ::= "{" ws ( string ":" ws value ( "," ws string ":" ws value )* )? "}" ws',
+  'array ::= "[" ws ( value ( "," ws value )* )? "]" ws',
+];
+
+// A GBNF string literal matching `value` serialized as JSON (quotes included).
+function gbnfJsonLiteral(value: string) {
+  return `"${JSON.stringify(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Builds a GBNF grammar (llama.cpp / KoboldCPP `grammar`) that only accepts JSON matching the
+ * schema. Object keys are emitted in schema order; a schema without structure accepts any JSON object.
+ */
+export function jsonSchemaToGbnf(schema: JsonSchema): string {
+  const rules = new Map<string, string>();
+
+  function visit(node: JsonSchema, name: string): string {
+    if (node.anyOf) {
+      const alternatives = node.anyOf.map((option, index) => visit(option, `${name}-${index}`));
+      rules.set(name, alternatives.join(" | "));
+      return name;
+    }
+    if (node.enum) {
+      rules.set(name, `( ${node.enum.map(gbnfJsonLiteral).join(" | ")} ) ws`);
+      return name;
+    }
+    switch (node.type) {
+      case "string":
+      case "number":
+      case "integer":
+      case "boolean":
+        return node.type;
+      case "array": {
+        if (!node.items) return "array";
+        const item = visit(node.items, `${name}-item`);
+        rules.set(name, `"[" ws ( ${item} ( "," ws ${item} )* )? "]" ws`);
+        return name;
+      }
+      case "object": {
+        const keys = Object.keys(node.properties ?? {});
+        if (!keys.length) return "object";
+        const parts = keys.map((key) => {
+          const rule = visit(node.properties![key], `${name}-${key.replace(/[^a-zA-Z0-9]+/g, "-")}`);
+          return `${gbnfJsonLiteral(key)} ws ":" ws ${rule}`;
+        });
+        rules.set(name, `"{" ws ${parts.join(' "," ws ')} "}" ws`);
+        return name;
+      }
+      default:
+        return "value";
+    }
+  }
+
+  const rootRule = visit(schema, "root-value");
+  const lines = [`root ::= ws ${rootRule}`];
+  for (const [name, body] of rules) lines.push(`${name} ::= ${body}`);
+  return [...lines, ...GBNF_BASE].join("\n");
+}
@@ -0,0 +1,24 @@
+export type SseChannel = {
+  send: (event: string, data: any) => void;
+  close: () => void;
+};
+
+export function openSse(res: any): SseChannel {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  // Stops reverse proxies from buffering the stream.
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders?.();
+
+  return {
+    send(event, data) {
+      if (res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (!res.writableEnded) res.end();
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import { Tiktoken } from "js-tiktoken/lite";
+
+export const TOKENIZERS = ["llama3", "mistral", "gpt4o", "gpt4"] as const;
+export type TokenizerId = (typeof TOKENIZERS)[number];
+
+type Encoder = (text: string) => number;
+
+export class TokenizerError extends Error {
+  // "load": the vocabulary could not be loaded; "encode": a text could not be counted.
+  constructor(public stage: "load" | "encode", message: string, public details?: any) {
+    super(message);
+  }
+}
+
+// Vocabularies are several MB each, so they are only loaded the first time a family is used.
+const LOADERS: Record<TokenizerId, () => Promise<Encoder>> = {
+  llama3: async () => {
+    const { default: llama3 } = await import("llama3-tokenizer-js");
+    return (text) => llama3.encode(text, { bos: false, eos: false }).length;
+  },
+  mistral: async () => {
+    const { default: mistral } = await import("mistral-tokenizer-js");
+    return (text) => mistral.encode(text, false, false).length;
+  },
+  gpt4o: async () => {
+    const { default: ranks } = await import("js-tiktoken/ranks/o200k_base");
+    const enc = new Tiktoken(ranks);
+    // Prompt-format cards can contain markers like <|endoftext|>; count them instead of throwing.
+    return (text) => enc.encode(text, "all").length;
+  },
+  gpt4: async () => {
+    const { default: ranks } = await import("js-tiktoken/ranks/cl100k_base");
+    const enc = new Tiktoken(ranks);
+    return (text) => enc.encode(text, "all").length;
+  },
+};
+
+const encoders = new Map<TokenizerId, Promise<Encoder>>();
+
+function getEncoder(id: TokenizerId) {
+  let encoder = encoders.get(id);
+  if (!encoder) {
+    encoder = LOADERS[id]().catch((e: any) => {
+      encoders.delete(id);
+      throw new TokenizerError("load", `Failed to load tokenizer "${id}"`, { error: String(e?.message ?? e) });
+    });
+    encoders.set(id, encoder);
+  }
+  return encoder;
+}
+
+export async function countTokens(text: string, tokenizer: TokenizerId) {
+  if (!text) return 0;
+  const encode = await getEncoder(tokenizer);
+  return encode(text);
+}
+
+export async function countTokensByKey(texts: Record<string, string>, tokenizer: TokenizerId) {
+  const encode = await getEncoder(tokenizer);
+  const counts: Record<string, number> = {};
+  for (const [key, text] of Object.entries(texts)) {
+    try {
+      counts[key] = text ? encode(text) : 0;
+    } catch (e: any) {
+      throw new TokenizerError("encode", `Could not count tokens in "${key}"`, { key, error: String(e?.message ?? e) });
+    }
+  }
+  return counts;
+}
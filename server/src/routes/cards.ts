@@ -2,23 +2,65 @@ import { Router } from "express";
 import { z } from "zod";
 import multer from "multer";
 
-import { buildV2CardFromStorePayload, filenameFromCard, normalizeImportedCard } from "../domain/cards/v2.js";
-import { embedCardIntoPng, extractCardFromPng } from "../domain/cards/png.js";
-import { fail, wrap } from "../lib/api.js";
+import { parse as parseYaml } from "yaml";
+
+import { buildV2CardFromStorePayload, filenameFromCard } from "../domain/cards/v2.js";
+import { stashInlineAssets } from "../domain/cards/assets.js";
+import { buildCharx, readCharx } from "../domain/cards/charx.js";
+import { importCardObject } from "../domain/cards/importers.js";
+import { lintCard } from "../domain/cards/lint.js";
+import { buildPersonaBackup, personaAvatarFile } from "../domain/cards/persona.js";
+import { extractCardFromPng } from "../domain/cards/png.js";
+import { buildCardForSpec, detectCardSpec, embedCardPayloadIntoPng } from "../domain/cards/v3.js";
+import { embedCardPayloadIntoWebp, extractCardFromWebp } from "../domain/cards/webp.js";
+import { loadConfig } from "../config/store.js";
+import { fail, ok, wrap } from "../lib/api.js";
+import { toPngBuffer } from "../lib/imageTranscode.js";
 
 export const cardsRouter = Router();
 
 const upload = multer({ storage: multer.memoryStorage() });
 
 const CardSchema = z.record(z.any());
-const ExportJsonSchema = z.object({ card: CardSchema });
+const CardSpecSchema = z.enum(["v2", "v3"]);
+// JSON holds a single document, so it stays V2 unless V3 is asked for.
+// PNG "v3" writes a ccv3 chunk next to the V2 chara chunk, so it is safe as the default.
+const ExportJsonSchema = z.object({
+  card: CardSchema,
+  spec: CardSpecSchema.default("v2"),
+});
 const ExportPngSchema = z.object({
   card: CardSchema,
   avatarUrl: z.string().min(1),
+  spec: CardSpecSchema.default("v3"),
+});
+const ExportWebpSchema = z.object({
+  card: CardSchema,
+  avatarUrl: z.string().min(1),
+  spec: CardSpecSchema.default("v3"),
+});
+const ExportCharxSchema = z.object({
+  card: CardSchema,
+  avatarUrl: z.string().min(1).nullable().optional(),
+});
+const LintSchema = z.object({
+  card: CardSchema,
+  spec: CardSpecSchema.optional(),
 });
 const ExportAvatarSchema = z.object({
   avatarUrl: z.string().min(1),
 });
+const PersonaSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string(),
+});
+const ExportPersonaSchema = z.object({
+  persona: PersonaSchema,
+});
+const ExportPersonaAvatarSchema = z.object({
+  persona: PersonaSchema,
+  avatarUrl: z.string().min(1),
+});
 
 function getAbsoluteUrl(req: any, pathOrUrl: string) {
   if (/^https?:\/\//i.test(pathOrUrl)) return pathOrUrl;
@@ -27,7 +69,7 @@ function getAbsoluteUrl(req: any, pathOrUrl: string) {
 }
 
 function parseDataUrl(dataUrl: string): Buffer | null {
-  const match = dataUrl.match(/^data:image\/png;base64,(.+)$/i);
+  const match = dataUrl.match(/^data:image\/[a-z0-9.+-]+;base64,(.+)$/i);
   if (!match) return null;
   return Buffer.from(match[1], "base64");
 }
@@ -45,7 +87,7 @@ async function fetchAvatarBuffer(req: any, avatarUrl: string): Promise<Buffer> {
 // POST /api/cards/export/json
 cardsRouter.post("/export/json", wrap((req, res) => {
   const body = ExportJsonSchema.parse(req.body);
-  const card = buildV2CardFromStorePayload(body.card);
+  const card = buildCardForSpec(body.card, body.spec);
   const filename = `${filenameFromCard(card)}.json`;
   const payload = JSON.stringify(card, null, 2);
 
@@ -59,26 +101,76 @@ cardsRouter.post("/export/png", wrap(async (req, res) => {
   const body = ExportPngSchema.parse(req.body);
   const card = buildV2CardFromStorePayload(body.card);
   const filename = `${filenameFromCard(card)}.png`;
-  const avatar = await fetchAvatarBuffer(req, body.avatarUrl);
-  const cardJson = JSON.stringify(card);
-  const output = embedCardIntoPng(avatar, cardJson);
+  const avatar = await toPngBuffer(await fetchAvatarBuffer(req, body.avatarUrl));
+  const output = embedCardPayloadIntoPng(avatar, body.card, body.spec);
 
   res.setHeader("Content-Type", "image/png");
   res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
   return res.send(output);
 }));
 
+// POST /api/cards/export/webp
+cardsRouter.post("/export/webp", wrap(async (req, res) => {
+  const body = ExportWebpSchema.parse(req.body);
+  const card = buildV2CardFromStorePayload(body.card);
+  const filename = `${filenameFromCard(card)}.webp`;
+  const avatar = await fetchAvatarBuffer(req, body.avatarUrl);
+  const output = await embedCardPayloadIntoWebp(avatar, body.card, body.spec);
+
+  res.setHeader("Content-Type", "image/webp");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  return res.send(output);
+}));
+
+// POST /api/cards/export/charx
+cardsRouter.post("/export/charx", wrap(async (req, res) => {
+  const body = ExportCharxSchema.parse(req.body);
+  const card = buildV2CardFromStorePayload(body.card);
+  const filename = `${filenameFromCard(card)}.charx`;
+  const avatar = body.avatarUrl ? await toPngBuffer(await fetchAvatarBuffer(req, body.avatarUrl)) : null;
+  const output = buildCharx(body.card, avatar);
+
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  return res.send(output);
+}));
+
 // POST /api/cards/export/avatar
 cardsRouter.post("/export/avatar", wrap(async (req, res) => {
   const body = ExportAvatarSchema.parse(req.body);
-  const avatar = await fetchAvatarBuffer(req, body.avatarUrl);
+  const avatar = await toPngBuffer(await fetchAvatarBuffer(req, body.avatarUrl));
   res.setHeader("Content-Type", "image/png");
   res.setHeader("Content-Disposition", `attachment; filename="avatar.png"`);
   return res.send(avatar);
 }));
 
+// POST /api/cards/export/persona
+// SillyTavern persona backup JSON; the avatar is exported separately under the file name it references.
+cardsRouter.post("/export/persona", wrap((req, res) => {
+  const body = ExportPersonaSchema.parse(req.body);
+  const filename = `personas_${filenameFromCard({ data: body.persona }, "persona")}.json`;
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  return res.send(JSON.stringify(buildPersonaBackup(body.persona), null, 2));
+}));
+
+// POST /api/cards/export/persona-avatar
+cardsRouter.post("/export/persona-avatar", wrap(async (req, res) => {
+  const body = ExportPersonaAvatarSchema.parse(req.body);
+  const avatar = await toPngBuffer(await fetchAvatarBuffer(req, body.avatarUrl));
+  res.setHeader("Content-Type", "image/png");
+  res.setHeader("Content-Disposition", `attachment; filename="${personaAvatarFile(body.persona)}"`);
+  return res.send(avatar);
+}));
+
+// Inline (data: URI) assets are moved to the asset store so the editor workspace stays small.
+function importCard(obj: any) {
+  const { card, report } = importCardObject(obj);
+  return { cardV2: stashInlineAssets(card), report };
+}
+
 // POST /api/cards/import
-cardsRouter.post("/import", upload.single("file"), wrap((req, res) => {
+cardsRouter.post("/import", upload.single("file"), wrap(async (req, res) => {
   const file = req.file;
   if (!file) return fail(res, 400, "VALIDATION_ERROR", "No file uploaded");
 
@@ -86,17 +178,49 @@ cardsRouter.post("/import", upload.single("file"), wrap((req, res) => {
   if (name.endsWith(".json")) {
     const text = file.buffer.toString("utf-8");
     const parsed = JSON.parse(text);
-    const cardV2 = normalizeImportedCard(parsed);
-    return res.json({ ok: true, cardV2 });
+    const { cardV2, report } = importCard(parsed);
+    return res.json({ ok: true, cardV2, spec: detectCardSpec(parsed), report });
+  }
+
+  // Text-Gen-WebUI stores characters as YAML.
+  if (name.endsWith(".yaml") || name.endsWith(".yml")) {
+    const parsed = parseYaml(file.buffer.toString("utf-8"));
+    const { cardV2, report } = importCard(parsed);
+    return res.json({ ok: true, cardV2, spec: detectCardSpec(parsed), report });
   }
 
   if (name.endsWith(".png")) {
     const json = extractCardFromPng(file.buffer);
     const parsed = JSON.parse(json);
-    const cardV2 = normalizeImportedCard(parsed);
+    const { cardV2, report } = importCard(parsed);
     const avatarDataUrl = `data:image/png;base64,${file.buffer.toString("base64")}`;
-    return res.json({ ok: true, cardV2, avatarDataUrl });
+    return res.json({ ok: true, cardV2, spec: detectCardSpec(parsed), avatarDataUrl, report });
+  }
+
+  if (name.endsWith(".webp")) {
+    const json = await extractCardFromWebp(file.buffer);
+    const parsed = JSON.parse(json);
+    const { cardV2, report } = importCard(parsed);
+    // Keep the original WebP so animation survives until the next export.
+    const avatarDataUrl = `data:image/webp;base64,${file.buffer.toString("base64")}`;
+    return res.json({ ok: true, cardV2, spec: detectCardSpec(parsed), avatarDataUrl, report });
+  }
+
+  if (name.endsWith(".charx")) {
+    const { card, icon } = readCharx(file.buffer);
+    const { cardV2, report } = importCard(card);
+    const avatarPng = icon ? await toPngBuffer(icon) : null;
+    const avatarDataUrl = avatarPng ? `data:image/png;base64,${avatarPng.toString("base64")}` : undefined;
+    return res.json({ ok: true, cardV2, spec: detectCardSpec(card), avatarDataUrl, report });
   }
 
   return fail(res, 400, "VALIDATION_ERROR", "Unsupported file type");
 }));
+
+// POST /api/cards/lint
+cardsRouter.post("/lint", wrap((req, res) => {
+  const body = LintSchema.parse(req.body);
+  const cfg = loadConfig();
+  const result = lintCard(body.card, { spec: body.spec, fieldDetail: cfg.generation?.fieldDetail });
+  return ok(res, result);
+}));
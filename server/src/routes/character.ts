@@ -1,24 +1,92 @@
 import crypto from "node:crypto";
 import { Router } from "express";
+import multer from "multer";
 import { z } from "zod";
 
-import { generateText } from "../adapters/text/provider.js";
+import { isTextGenerationCanceled } from "../adapters/text/cancel.js";
+import { activeTextModel, generateText, supportsContinuation, type TextGenOptions, type TextGenParams } from "../adapters/text/provider.js";
 import { loadConfig } from "../config/store.js";
-import { buildCharacterGenPrompt, buildCharacterGenPromptTagged, buildFillMissingPrompt, buildImagePrompt, buildRegeneratePrompt } from "../domain/character/prompt.js";
-import { classifyRawFailure, parseCharacterResponse, parseTaggedSections, tryParseJson } from "../domain/character/parse.js";
-import { CharacterGenSchema } from "../domain/character/schema.js";
+import { CharacterBookSchema } from "../domain/cards/characterBook.js";
+import {
+  buildAdjustLengthPrompt,
+  buildAlternateGreetingsPrompt,
+  buildCastPrompt,
+  buildPersonaPrompt,
+  buildCharacterGenPrompt,
+  buildCharacterGenPromptTagged,
+  buildFillMissingPrompt,
+  buildImagePrompt,
+  buildPipelineFieldPrompt,
+  buildPipelineSheetPrompt,
+  buildRegeneratePrompt,
+  buildReviewPrompt,
+  buildTranslatePrompt,
+  PIPELINE_FIELDS,
+  type PipelineField,
+} from "../domain/character/prompt.js";
+import {
+  classifyRawFailure,
+  extractPartialFields,
+  joinContinuation,
+  parseCharacterResponse,
+  parseFieldText,
+  parseJsonWithRepairs,
+  parseTaggedSections,
+  sheetName,
+  type JsonRepair,
+} from "../domain/character/parse.js";
+import {
+  buildCastLorebook,
+  CAST_SIZE,
+  checkCrossReferences,
+  memberIdea,
+  normalizeCastPlan,
+  type CastPlan,
+} from "../domain/character/cast.js";
+import { parseIdeaFile, type BatchIdeaInput } from "../domain/character/batchIdeas.js";
+import { checkCardLengths, FIELD_KEYS } from "../domain/character/fieldDetail.js";
+import { CharacterGenSchema, characterGenJsonSchema } from "../domain/character/schema.js";
+import { normalizeScores, REVIEW_CRITERION_IDS, REVIEW_FIELDS } from "../domain/character/review.js";
+import { checkTranslation, TRANSLATABLE_FIELDS, type TranslationWarning } from "../domain/character/translate.js";
+import { generateImageFile } from "../domain/image/generate.js";
+import {
+  cancelBatchJob,
+  createBatchJob,
+  getBatchJob,
+  listBatchJobs,
+  requeueBatchJob,
+  runBatchJob,
+  type BatchOptions,
+  type BatchWorker,
+} from "../domain/jobs/batchJobs.js";
+import { cancelTextJob, createTextJob, updateTextJob } from "../domain/jobs/textJobs.js";
+import { resolveRepo } from "../domain/library/repos.js";
+import { saveLibraryCard } from "../domain/library/store.js";
 import { fail, ok, wrap } from "../lib/api.js";
+import { toPngBuffer } from "../lib/imageTranscode.js";
+import { pickJsonSchema, zodToJsonSchema, type JsonSchema } from "../lib/jsonSchema.js";
+import { openSse } from "../lib/sse.js";
 
 export const characterRouter = Router();
 
+const upload = multer({ storage: multer.memoryStorage() });
+
 const GenerateSchema = z.object({
   idea: z.string().min(1),
   name: z.string().optional(),
   pov: z.enum(["first", "second", "third"]).default("third"),
-  lorebook: z.string().optional(),
+  characterBook: CharacterBookSchema.optional(),
   outputLanguage: z.string().optional(),
 });
 
+const GenerateStepsSchema = GenerateSchema.extend({
+  // Output of the steps that already finished, to resume a run from the step that failed.
+  resume: z.object({
+    sheet: z.string().default(""),
+    fields: z.record(z.any()).default({}),
+  }).optional(),
+});
+
 const FillMissingSchema = z.object({
   card: z.object({
     name: z.string().optional(),
@@ -33,7 +101,7 @@ const FillMissingSchema = z.object({
     negative_prompt: z.string().optional(),
     pov: z.enum(["first", "second", "third"]).optional(),
   }),
-  lorebook: z.string().optional(),
+  characterBook: CharacterBookSchema.optional(),
   idea: z.string().optional(),
   pov: z.enum(["first", "second", "third"]).default("third"),
   outputLanguage: z.string().optional(),
@@ -69,13 +137,27 @@ const ImagePromptSchema = z.object({
   negative_prompt: z.string().optional().default(""),
 }).strict();
 
+const ImagePromptRequestSchema = z.object({
+  card: z.object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    personality: z.string().optional(),
+    scenario: z.string().optional(),
+    tags: z.union([z.array(z.string()), z.string()]).optional(),
+    creator_notes: z.string().optional(),
+  }),
+  styleHints: z.string().optional(),
+});
+
 const RegenerateSchema = z.object({
   idea: z.string().min(1),
   requestedName: z.string().optional(),
   pov: z.enum(["first", "second", "third"]).default("third"),
-  lorebook: z.string().optional(),
+  characterBook: CharacterBookSchema.optional(),
   outputLanguage: z.string().optional(),
   maxTokens: z.number().int().min(32).max(4096).optional(),
+  // Number of alternative patches to return as `candidates` (the first is also `patch`).
+  n: z.number().int().min(1).max(4).default(1),
   card: z.object({
     name: z.string().optional(),
     description: z.string().optional(),
@@ -130,6 +212,172 @@ const RegeneratePatchSchema = z.object({
   negative_prompt: z.string().optional(),
 }).strip();
 
+const AlternateGreetingsSchema = z.object({
+  card: z.object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    personality: z.string().optional(),
+    scenario: z.string().optional(),
+    first_mes: z.string().optional(),
+    alternate_greetings: z.array(z.string()).optional(),
+    tags: z.union([z.array(z.string()), z.string()]).optional(),
+  }),
+  characterBook: CharacterBookSchema.optional(),
+  count: z.number().int().min(1).max(5).default(3),
+  pov: z.enum(["first", "second", "third"]).default("third"),
+  outputLanguage: z.string().optional(),
+});
+
+const AlternateGreetingsResultSchema = z.object({
+  alternate_greetings: z.array(z.string()),
+}).strip();
+
+const TranslateSchema = z.object({
+  card: z.object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    personality: z.string().optional(),
+    scenario: z.string().optional(),
+    first_mes: z.string().optional(),
+    alternate_greetings: z.array(z.string()).optional(),
+    mes_example: z.union([z.string(), z.array(z.string())]).optional(),
+    creator_notes: z.string().optional(),
+    system_prompt: z.string().optional(),
+    post_history_instructions: z.string().optional(),
+    tags: z.union([z.array(z.string()), z.string()]).optional(),
+  }),
+  characterBook: CharacterBookSchema.optional(),
+  fields: z.array(z.enum(TRANSLATABLE_FIELDS)).min(1),
+  targetLanguage: z.string().trim().min(1),
+  // Names to keep as written, on top of the card name and the lorebook entry names.
+  names: z.array(z.string()).default([]),
+});
+
+const TranslatePatchSchema = z.object({
+  description: z.string().optional(),
+  personality: z.string().optional(),
+  scenario: z.string().optional(),
+  first_mes: z.string().optional(),
+  alternate_greetings: z.array(z.string()).optional(),
+  mes_example: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .transform((value) => {
+      if (value == null) return "";
+      return Array.isArray(value) ? value.join("\n\n") : value;
+    }),
+  creator_notes: z.string().optional(),
+  system_prompt: z.string().optional(),
+  post_history_instructions: z.string().optional(),
+  tags: z
+    .union([z.array(z.string()), z.string()])
+    .optional()
+    .transform((value) => {
+      if (value == null) return [];
+      if (Array.isArray(value)) {
+        return value.map((tag) => tag.trim()).filter(Boolean);
+      }
+      return value.split(",").map((tag) => tag.trim()).filter(Boolean);
+    }),
+}).strip();
+
+const ReviewSchema = z.object({
+  card: z.object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    personality: z.string().optional(),
+    scenario: z.string().optional(),
+    first_mes: z.string().optional(),
+    mes_example: z.union([z.string(), z.array(z.string())]).optional(),
+    tags: z.union([z.array(z.string()), z.string()]).optional(),
+    creator_notes: z.string().optional(),
+  }),
+  pov: z.enum(["first", "second", "third"]).default("third"),
+  outputLanguage: z.string().optional(),
+});
+
+const ReviewResultSchema = z.object({
+  scores: z.array(z.object({
+    criterion: z.enum(REVIEW_CRITERION_IDS),
+    score: z.number(),
+    note: z.string(),
+  }).strip()),
+  suggestions: z.array(z.object({
+    field: z.enum(REVIEW_FIELDS),
+    criterion: z.enum(REVIEW_CRITERION_IDS),
+    issue: z.string(),
+    rewrite: z.string(),
+  }).strip()),
+}).strip();
+
+const CastSchema = z.object({
+  idea: z.string().min(1),
+  size: z.number().int().min(CAST_SIZE.min).max(CAST_SIZE.max).default(3),
+  pov: z.enum(["first", "second", "third"]).default("third"),
+  outputLanguage: z.string().optional(),
+  // Build a shared lorebook from the plan and attach it to every card.
+  lorebook: z.boolean().default(true),
+});
+
+const CastPlanSchema = z.object({
+  title: z.string(),
+  setting: z.string(),
+  members: z.array(z.object({
+    name: z.string(),
+    role: z.string(),
+    concept: z.string(),
+    relationships: z.array(z.object({ with: z.string(), relation: z.string() }).strip()).default([]),
+  }).strip()).min(CAST_SIZE.min),
+}).strip();
+
+const PersonaSchema = z.object({
+  // The character the persona is written for.
+  card: z.object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    personality: z.string().optional(),
+    scenario: z.string().optional(),
+    first_mes: z.string().optional(),
+    image_prompt: z.string().optional(),
+  }),
+  hint: z.string().optional(),
+  name: z.string().optional(),
+  outputLanguage: z.string().optional(),
+});
+
+const PersonaResultSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  image_prompt: z.string().default(""),
+}).strip();
+
+const MAX_BATCH_ITEMS = 200;
+
+const BatchIdeaSchema = z.object({
+  idea: z.string().trim().min(1),
+  name: z.string().trim().optional().transform((value) => value || undefined),
+  pov: z.enum(["first", "second", "third"]).optional(),
+  outputLanguage: z.string().trim().optional().transform((value) => value || undefined),
+});
+
+const BatchOptionsSchema = z.object({
+  repoId: z.string().optional(),
+  format: z.enum(["json", "png", "charx"]).default("json"),
+  spec: z.enum(["v2", "v3"]).optional(),
+  imagePrompt: z.boolean().default(false),
+  avatar: z.boolean().default(false),
+  pov: z.enum(["first", "second", "third"]).default("third"),
+  outputLanguage: z.string().optional(),
+}).refine((options) => options.format !== "png" || options.avatar, {
+  message: "PNG cards need an avatar; enable avatar generation or pick another format.",
+  path: ["format"],
+});
+
+const BatchSchema = z.object({
+  ideas: z.array(BatchIdeaSchema).min(1).max(MAX_BATCH_ITEMS),
+  options: BatchOptionsSchema.default({}),
+});
+
 function isMissingValue(value: any) {
   if (value === undefined || value === null) return true;
   if (typeof value === "string") return value.trim().length === 0;
@@ -170,6 +418,12 @@ function filterPatchToTargets(patch: Record<string, any>, targets: string[]) {
 
 const makeNonce = () => crypto.randomUUID();
 
+// Where a result came from, stored with each field version in the character's history.
+function generationMeta(prompts: string | string[], nonce?: string) {
+  const promptHash = crypto.createHash("sha256").update([prompts].flat().join("\n\n")).digest("hex").slice(0, 16);
+  return { ...activeTextModel(), promptHash, nonce, createdAt: new Date().toISOString() };
+}
+
 function normalizeString(value: string) {
   return value.replace(/\s+/g, " ").trim();
 }
@@ -212,6 +466,72 @@ function structuredParams(cfg: ReturnType<typeof loadConfig>) {
   return { temperature: sj.temperature, top_p: sj.top_p };
 }
 
+// Schema sent to providers that support constrained output; `true` only asks for a JSON object.
+function outputConstraint(cfg: ReturnType<typeof loadConfig>, schema: JsonSchema | true) {
+  return cfg.generation?.structuredJson?.constrained === false ? undefined : schema;
+}
+
+const MAX_CONTINUATIONS = 2;
+
+// Sends a reply that stopped mid-object back as the start of the assistant turn so the model finishes it,
+// instead of re-prompting from scratch. Providers that cannot continue a reply keep the usual retry.
+async function continueTruncated(prompt: string, raw: string, params: TextGenParams | undefined, ctx: RunContext) {
+  if (!supportsContinuation()) return raw;
+  let text = raw;
+  for (let i = 0; i < MAX_CONTINUATIONS && classifyRawFailure(text) === "truncated"; i++) {
+    ctx.signal.throwIfAborted();
+    const continuation = await generateText("", prompt, params, {
+      ...textOptions(ctx, undefined, text),
+      assistantPrefix: text,
+    });
+    if (!continuation.trim()) break;
+    text = joinContinuation(text, continuation);
+  }
+  return text;
+}
+
+// Measures the generated fields against the Field Detail preset. With enforceLength on, the fields out of
+// range get one targeted "expand"/"shorten" request; a rewrite is kept only if it lands closer to the spec.
+async function enforceLengths<T extends Record<string, any>>(
+  fields: T,
+  keys: string[],
+  outputLanguage: string | undefined,
+  ctx: RunContext,
+) {
+  const cfg = loadConfig();
+  const settings = cfg.generation?.fieldDetail;
+  const before = checkCardLengths(settings, fields, keys);
+  const off = Object.values(before).filter((check) => !check.ok);
+  if (!settings?.enforceLength || !off.length) return { fields, lengths: before, lengthAdjusted: [] as string[] };
+
+  const offKeys = off.map((check) => check.field);
+  const next: Record<string, any> = { ...fields };
+  const adjusted: string[] = [];
+  try {
+    ctx.signal.throwIfAborted();
+    const prompt = buildAdjustLengthPrompt({ card: fields, checks: off, outputLanguage }, { fieldDetail: settings });
+    const raw = await generateText("", prompt, undefined, {
+      ...textOptions(ctx, offKeys),
+      json: outputConstraint(cfg, pickJsonSchema(PatchSchema, offKeys)),
+    });
+    const validated = PatchSchema.safeParse(parseJsonWithRepairs(raw)?.value);
+    if (validated.success) {
+      const rewritten = validated.data as Record<string, any>;
+      const after = checkCardLengths(settings, rewritten, offKeys);
+      for (const key of offKeys) {
+        const check = after[key];
+        if (!check || check.deviation >= (before[key]?.deviation ?? 0)) continue;
+        next[key] = rewritten[key];
+        adjusted.push(key);
+      }
+    }
+  } catch (e) {
+    // The first result stands if the rewrite fails; only a cancel stops the run.
+    if (isTextGenerationCanceled(e)) throw e;
+  }
+  return { fields: next as T, lengths: checkCardLengths(settings, next, keys), lengthAdjusted: adjusted };
+}
+
 function characterFromTags(map: Record<string, string>) {
   return {
     name: (map.NAME ?? "").trim(),
@@ -231,12 +551,133 @@ function characterFromTags(map: Record<string, string>) {
   };
 }
 
-// POST /api/character/generate
-characterRouter.post("/generate", wrap(async (req, res) => {
+class GenerationError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string, readonly details?: any) {
+    super(message);
+    this.name = "GenerationError";
+  }
+}
+
+function toFailure(e: any) {
+  if (e instanceof GenerationError) {
+    return { status: e.status, code: e.code, message: e.message, details: e.details };
+  }
+  if (isTextGenerationCanceled(e)) {
+    return { status: 409, code: "CANCELED", message: "Generation was canceled", details: undefined };
+  }
+  return { status: 502, code: "PROVIDER_ERROR", message: String(e?.message ?? e), details: undefined };
+}
+
+type PipelineState = { sheet: string; fields: Record<string, any> };
+
+// Progress sink for the /stream variants; the plain JSON routes run without one.
+type GenerationStream = {
+  job: (jobId: string) => void;
+  attempt: (attempt: number) => void;
+  text: (raw: string, keys?: string[]) => void;
+  // Step-by-step generation: a step is starting; `state` holds everything finished so far.
+  step: (step: { step: string; index: number; total: number }, state: PipelineState) => void;
+};
+
+type RunContext = {
+  signal: AbortSignal;
+  stream?: GenerationStream;
+};
+
+// Options for generateText; `keys` limits the streamed partial fields to the ones being written.
+// A continuation streams on top of the text it continues.
+function textOptions(ctx: RunContext, keys?: string[], continues = ""): TextGenOptions {
+  const { stream, signal } = ctx;
+  return {
+    signal,
+    onDelta: stream ? (_delta, raw) => stream.text(joinContinuation(continues, raw), keys) : undefined,
+  };
+}
+
+type Runner<T> = (body: T, ctx: RunContext) => Promise<Record<string, any>>;
+
+// Every generation runs as a text job: it can be canceled by id and is aborted when the client disconnects.
+async function runAsJob<T>(kind: string, res: any, run: Runner<T>, body: T, stream?: GenerationStream) {
+  const { job, signal } = createTextJob(kind);
+  res.on("close", () => {
+    if (!res.writableFinished) cancelTextJob(job.id, "Client disconnected");
+  });
+  stream?.job(job.id);
+  try {
+    const result = await run(body, { signal, stream });
+    updateTextJob(job.id, { state: "done", message: "Complete" });
+    return result;
+  } catch (e: any) {
+    if (!isTextGenerationCanceled(e)) {
+      updateTextJob(job.id, { state: "error", message: "Failed", error: String(e?.message ?? e) });
+    }
+    throw e;
+  }
+}
+
+function jsonRoute<T>(kind: string, schema: z.ZodType<T, z.ZodTypeDef, any>, run: Runner<T>) {
+  return wrap(async (req, res) => {
+    const body = schema.parse(req.body);
+    try {
+      return ok(res, await runAsJob(kind, res, run, body));
+    } catch (e: any) {
+      const failure = toFailure(e);
+      return fail(res, failure.status, failure.code, failure.message, failure.details);
+    }
+  });
+}
+
+// Server-sent events: "job" with the id to cancel, "attempt" when a retry starts, "progress" with the character count,
+// "partial" with the fields completed so far, "step" when a step-by-step run moves on, then "done" (same payload as
+// the JSON route) or "error".
+function sseRoute<T>(kind: string, schema: z.ZodType<T, z.ZodTypeDef, any>, run: Runner<T>) {
+  return wrap(async (req, res) => {
+    const body = schema.parse(req.body);
+    const sse = openSse(res);
+    let lastFields = "{}";
+    let lastProgressAt = 0;
+    const stream: GenerationStream = {
+      job(jobId) {
+        sse.send("job", { jobId });
+      },
+      attempt(attempt) {
+        lastFields = "{}";
+        sse.send("attempt", { attempt });
+      },
+      text(raw, keys) {
+        const now = Date.now();
+        if (now - lastProgressAt >= 250) {
+          lastProgressAt = now;
+          sse.send("progress", { chars: raw.length });
+        }
+        const partial = extractPartialFields(raw);
+        const fields = keys ? filterPatchToTargets(partial, keys) : partial;
+        const serialized = JSON.stringify(fields);
+        if (serialized === lastFields) return;
+        lastFields = serialized;
+        sse.send("partial", { fields });
+      },
+      step(step, state) {
+        sse.send("step", { ...step, resume: state });
+        sse.send("partial", { fields: state.fields });
+      },
+    };
+
+    try {
+      sse.send("done", await runAsJob(kind, res, run, body, stream));
+    } catch (e: any) {
+      const { code, message, details } = toFailure(e);
+      sse.send("error", { code, message, details });
+    } finally {
+      sse.close();
+    }
+  });
+}
+
+async function runGenerate(body: z.infer<typeof GenerateSchema>, ctx: RunContext) {
   const rawLimit = 8000;
   let raw: string | null = null;
   try {
-    const body = GenerateSchema.parse(req.body);
     const cfg = loadConfig();
     const contentRating = cfg.generation?.contentRating ?? "nsfw_allowed";
     const useDefaultNeg = cfg.image?.negativePrompt?.useDefault !== false;
@@ -246,14 +687,14 @@ characterRouter.post("/generate", wrap(async (req, res) => {
     let lastRaw: string | null = null;
     let lastReason: string | null = null;
 
-    for (const format of formats) {
+    for (const [index, format] of formats.entries()) {
       const prompt = format === "json"
         ? buildCharacterGenPrompt(
             {
               idea: body.idea,
               name: body.name,
               pov: body.pov,
-              lorebook: body.lorebook,
+              characterBook: body.characterBook,
               outputLanguage: body.outputLanguage,
             },
             { contentRating, fieldDetail, useDefaultNegativePrompt: useDefaultNeg }
@@ -263,24 +704,28 @@ characterRouter.post("/generate", wrap(async (req, res) => {
               idea: body.idea,
               name: body.name,
               pov: body.pov,
-              lorebook: body.lorebook,
+              characterBook: body.characterBook,
               outputLanguage: body.outputLanguage,
             },
             { contentRating, fieldDetail, useDefaultNegativePrompt: useDefaultNeg }
           );
 
-      raw = await generateText("", prompt, structuredParams(cfg));
+      ctx.signal.throwIfAborted();
+      ctx.stream?.attempt(index + 1);
+      // The JSON attempt is constrained to the card schema where supported; the tagged retries are plain text.
+      const json = format === "json"
+        ? outputConstraint(cfg, characterGenJsonSchema({ includeNegativePrompt: !useDefaultNeg }))
+        : undefined;
+      raw = await generateText("", prompt, structuredParams(cfg), { ...textOptions(ctx), json });
+      if (format === "json" && cfg.generation?.structuredJson?.continueTruncated !== false) {
+        raw = await continueTruncated(prompt, raw, structuredParams(cfg), ctx);
+      }
       lastRaw = raw;
 
       if (format === "json") {
+        let parsed: ReturnType<typeof parseCharacterResponse>;
         try {
-          const character = parseCharacterResponse(raw);
-          if (useDefaultNeg) {
-            character.negative_prompt = neg;
-          } else if (!character.negative_prompt?.trim()) {
-            character.negative_prompt = neg;
-          }
-          return ok(res, { character });
+          parsed = parseCharacterResponse(raw);
         } catch (e: any) {
           const message = String(e?.message ?? e);
           lastReason = message.includes("did not match schema")
@@ -288,6 +733,20 @@ characterRouter.post("/generate", wrap(async (req, res) => {
             : classifyRawFailure(raw);
           continue;
         }
+        const { character, repairs } = parsed;
+        if (useDefaultNeg) {
+          character.negative_prompt = neg;
+        } else if (!character.negative_prompt?.trim()) {
+          character.negative_prompt = neg;
+        }
+        const checked = await enforceLengths(character, FIELD_KEYS, body.outputLanguage, ctx);
+        return {
+          character: checked.fields,
+          lengths: checked.lengths,
+          lengthAdjusted: checked.lengthAdjusted,
+          repairs,
+          meta: generationMeta(prompt),
+        };
       }
 
       const sections = parseTaggedSections(raw);
@@ -309,200 +768,695 @@ characterRouter.post("/generate", wrap(async (req, res) => {
       } else if (!character.negative_prompt?.trim()) {
         character.negative_prompt = neg;
       }
-      return ok(res, { character });
+      const checked = await enforceLengths(character, FIELD_KEYS, body.outputLanguage, ctx);
+      return {
+        character: checked.fields,
+        lengths: checked.lengths,
+        lengthAdjusted: checked.lengthAdjusted,
+        repairs: [] as JsonRepair[],
+        meta: generationMeta(prompt),
+      };
     }
 
-    return fail(res, 502, "PROVIDER_BAD_RESPONSE", "LLM returned invalid or incomplete structured output after retries", {
+    throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "LLM returned invalid or incomplete structured output after retries", {
       reason: lastReason ?? "unknown",
       raw: (lastRaw ?? "").slice(0, rawLimit),
     });
   } catch (e: any) {
-    if (e instanceof z.ZodError) throw e;
-    const message = String(e?.message ?? e);
+    if (e instanceof GenerationError || isTextGenerationCanceled(e)) throw e;
     const details = raw ? { raw: raw.slice(0, rawLimit) } : undefined;
-    return fail(res, 502, "PROVIDER_ERROR", message, details);
+    throw new GenerationError(502, "PROVIDER_ERROR", String(e?.message ?? e), details);
   }
-}));
+}
 
-// POST /api/character/fill-missing
-characterRouter.post("/fill-missing", wrap(async (req, res) => {
+function pipelineSteps(useDefaultNeg: boolean): Array<"sheet" | PipelineField> {
+  return ["sheet", ...PIPELINE_FIELDS.filter((field) => !(useDefaultNeg && field === "negative_prompt"))];
+}
+
+// Step-by-step generation for small-context models: a short character sheet first, then one request per field.
+// A failure reports the finished steps so the client can resume from the one that failed.
+async function runGenerateSteps(body: z.infer<typeof GenerateStepsSchema>, ctx: RunContext) {
+  const cfg = loadConfig();
+  const contentRating = cfg.generation?.contentRating ?? "nsfw_allowed";
+  const useDefaultNeg = cfg.image?.negativePrompt?.useDefault !== false;
+  const options = { contentRating, fieldDetail: cfg.generation?.fieldDetail, useDefaultNegativePrompt: useDefaultNeg };
+  const input = {
+    idea: body.idea,
+    name: body.name,
+    pov: body.pov,
+    characterBook: body.characterBook,
+    outputLanguage: body.outputLanguage,
+  };
+  const steps = pipelineSteps(useDefaultNeg);
+  const state: PipelineState = {
+    sheet: body.resume?.sheet.trim() ?? "",
+    fields: Object.fromEntries(
+      Object.entries(body.resume?.fields ?? {}).filter(([key, value]) => steps.includes(key as PipelineField) && !isMissingValue(value))
+    ),
+  };
+
+  let current = "sheet";
+  let raw = "";
+  const prompts: string[] = [];
   try {
-    const body = FillMissingSchema.parse(req.body);
-    const missingKeys = pickMissingKeys(body.card);
-    if (!missingKeys.length) {
-      return ok(res, { patch: {} });
+    for (const [index, step] of steps.entries()) {
+      if (step === "sheet" ? state.sheet : state.fields[step] !== undefined) continue;
+      current = step;
+      ctx.signal.throwIfAborted();
+      ctx.stream?.step({ step, index: index + 1, total: steps.length }, state);
+
+      if (step === "sheet") {
+        const prompt = buildPipelineSheetPrompt(input, options);
+        prompts.push(prompt);
+        raw = await generateText("", prompt, undefined, textOptions(ctx));
+        if (!raw.trim()) throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "LLM returned an empty character sheet");
+        state.sheet = raw.trim();
+        continue;
+      }
+
+      const prompt = buildPipelineFieldPrompt({ ...input, sheet: state.sheet, field: step, fields: state.fields }, options);
+      prompts.push(prompt);
+      raw = await generateText("", prompt, undefined, textOptions(ctx));
+      const value = parseFieldText(step, raw);
+      if (isMissingValue(value)) throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", `LLM returned an empty ${step}`);
+      state.fields[step] = value;
     }
+  } catch (e: any) {
+    if (isTextGenerationCanceled(e)) throw e;
+    const failure = toFailure(e);
+    throw new GenerationError(failure.status, failure.code, failure.message, {
+      ...failure.details,
+      raw: raw ? raw.slice(0, 8000) : undefined,
+      step: current,
+      resume: state,
+    });
+  }
 
-    const cfg = loadConfig();
-    const fieldDetail = cfg.generation?.fieldDetail;
-    const prompt = buildFillMissingPrompt(
+  const validated = CharacterGenSchema.safeParse({
+    ...state.fields,
+    name: body.name?.trim() || sheetName(state.sheet) || "Unnamed",
+    pov: body.pov,
+  });
+  if (!validated.success) {
+    throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "Step-by-step result did not match schema", {
+      issues: validated.error.issues,
+      resume: state,
+    });
+  }
+  const character = validated.data;
+  if (useDefaultNeg || !character.negative_prompt?.trim()) {
+    character.negative_prompt = effectiveNegativePrompt(cfg, contentRating);
+  }
+  const checked = await enforceLengths(character, FIELD_KEYS, body.outputLanguage, ctx);
+  return {
+    character: checked.fields,
+    lengths: checked.lengths,
+    lengthAdjusted: checked.lengthAdjusted,
+    sheet: state.sheet,
+    meta: generationMeta(prompts),
+  };
+}
+
+async function runFillMissing(body: z.infer<typeof FillMissingSchema>, ctx: RunContext) {
+  const missingKeys = pickMissingKeys(body.card);
+  if (!missingKeys.length) {
+    return { patch: {} };
+  }
+
+  const cfg = loadConfig();
+  const fieldDetail = cfg.generation?.fieldDetail;
+  const prompt = buildFillMissingPrompt(
+    {
+      card: body.card,
+      missingKeys,
+      pov: body.pov,
+      idea: body.idea,
+      characterBook: body.characterBook,
+      outputLanguage: body.outputLanguage,
+    },
+    { fieldDetail }
+  );
+
+  ctx.stream?.attempt(1);
+  const raw = await generateText("", prompt, undefined, {
+    ...textOptions(ctx, missingKeys),
+    json: outputConstraint(cfg, pickJsonSchema(PatchSchema, missingKeys)),
+  });
+  const json = parseJsonWithRepairs(raw);
+  if (!json?.value || typeof json.value !== "object" || Array.isArray(json.value)) {
+    throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "Invalid JSON from LLM", { raw: raw.slice(0, 8000) });
+  }
+
+  const validated = PatchSchema.safeParse(json.value);
+  if (!validated.success) {
+    throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "LLM JSON did not match patch schema", {
+      issues: validated.error.issues,
+      raw: raw.slice(0, 8000),
+    });
+  }
+
+  const checked = await enforceLengths(filterPatchToMissing(validated.data, missingKeys), missingKeys, body.outputLanguage, ctx);
+  return {
+    patch: checked.fields,
+    lengths: checked.lengths,
+    lengthAdjusted: checked.lengthAdjusted,
+    repairs: json.repairs,
+    meta: generationMeta(prompt),
+  };
+}
+
+async function runImagePrompt(body: z.infer<typeof ImagePromptRequestSchema>, ctx: RunContext) {
+  const cfg = loadConfig();
+  const contentRating = cfg.generation?.contentRating ?? "nsfw_allowed";
+  const useDefaultNeg = cfg.image?.negativePrompt?.useDefault !== false;
+  const neg = effectiveNegativePrompt(cfg, contentRating);
+  const prompt = buildImagePrompt({
+    card: body.card,
+    styleHints: body.styleHints,
+    contentRating,
+    useDefaultNegativePrompt: useDefaultNeg,
+  });
+
+  const imageKeys = useDefaultNeg ? ["image_prompt"] : ["image_prompt", "negative_prompt"];
+  const raw = await generateText("", prompt, undefined, {
+    ...textOptions(ctx),
+    json: outputConstraint(cfg, pickJsonSchema(ImagePromptSchema, imageKeys)),
+  });
+  const json = parseJsonWithRepairs(raw);
+  if (!json?.value || typeof json.value !== "object" || Array.isArray(json.value)) {
+    throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "Invalid JSON from LLM", { raw: raw.slice(0, 8000) });
+  }
+
+  const validated = ImagePromptSchema.safeParse(json.value);
+  if (!validated.success) {
+    throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "LLM JSON did not match image prompt schema", {
+      issues: validated.error.issues,
+      raw: raw.slice(0, 8000),
+    });
+  }
+
+  const payload = validated.data;
+  if (useDefaultNeg) {
+    payload.negative_prompt = neg;
+  } else if (!payload.negative_prompt?.trim()) {
+    payload.negative_prompt = neg;
+  }
+  return { ...payload, repairs: json.repairs };
+}
+
+type RegenerateSetup = {
+  cfg: ReturnType<typeof loadConfig>;
+  targets: string[];
+  negativePrompt?: string;
+  params?: TextGenParams;
+};
+
+type RegenerateCandidate = {
+  patch: Record<string, any>;
+  repairs: JsonRepair[];
+  meta?: ReturnType<typeof generationMeta>;
+  lengths?: Awaited<ReturnType<typeof enforceLengths>>["lengths"];
+  lengthAdjusted?: string[];
+};
+
+// One regenerated patch. A reply identical to the current card or to an earlier candidate is retried
+// with a fresh nonce (up to three requests); the last reply is used if none differs.
+async function regenerateCandidate(
+  body: z.infer<typeof RegenerateSchema>,
+  ctx: RunContext,
+  setup: RegenerateSetup,
+  earlier: Array<Record<string, any>>,
+  nextAttempt: () => number,
+): Promise<RegenerateCandidate> {
+  const { cfg, targets } = setup;
+  let last: RegenerateCandidate = { patch: {}, repairs: [] };
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const nonce = makeNonce();
+    const prompt = buildRegeneratePrompt(
       {
-        card: body.card,
-        missingKeys,
-        pov: body.pov,
         idea: body.idea,
-        lorebook: body.lorebook,
+        requestedName: body.requestedName,
+        pov: body.pov,
+        characterBook: body.characterBook,
+        card: body.card,
+        targets,
+        regenNonce: nonce,
         outputLanguage: body.outputLanguage,
       },
-      { fieldDetail }
+      { fieldDetail: cfg.generation?.fieldDetail }
     );
 
-    const raw = await generateText("", prompt);
-    const parsed = tryParseJson(raw);
-    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
-      return fail(res, 502, "PROVIDER_BAD_RESPONSE", "Invalid JSON from LLM", { raw: raw.slice(0, 8000) });
+    ctx.signal.throwIfAborted();
+    ctx.stream?.attempt(nextAttempt());
+    const raw = await generateText("", prompt, setup.params, {
+      ...textOptions(ctx, targets),
+      json: outputConstraint(cfg, pickJsonSchema(RegeneratePatchSchema, targets)),
+    });
+    const json = parseJsonWithRepairs(raw);
+    if (!json?.value || typeof json.value !== "object" || Array.isArray(json.value)) {
+      throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "Invalid JSON from LLM", { raw: raw.slice(0, 8000) });
     }
 
-    const validated = PatchSchema.safeParse(parsed);
+    const validated = RegeneratePatchSchema.safeParse(json.value);
     if (!validated.success) {
-      return fail(res, 502, "PROVIDER_BAD_RESPONSE", "LLM JSON did not match patch schema", {
+      throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "LLM JSON did not match patch schema", {
         issues: validated.error.issues,
         raw: raw.slice(0, 8000),
       });
     }
 
-    const filtered = filterPatchToMissing(validated.data, missingKeys);
-    return ok(res, { patch: filtered });
-  } catch (e: any) {
-    if (e instanceof z.ZodError) throw e;
-    return fail(res, 502, "PROVIDER_ERROR", String(e?.message ?? e));
+    const filtered = filterPatchToTargets(validated.data, targets);
+    if (setup.negativePrompt) filtered.negative_prompt = setup.negativePrompt;
+    last = { patch: filtered, repairs: json.repairs, meta: generationMeta(prompt, nonce) };
+    const differsFrom = (other: Record<string, any>, treatMissingAsEmpty: boolean) => targets.some((key) => {
+      const existingValue = other[key];
+      const regenerated = filtered[key];
+      if (treatMissingAsEmpty && (existingValue === undefined || existingValue === null)) {
+        return !isMissingValue(regenerated);
+      }
+      return !equalNormalized(existingValue, regenerated);
+    });
+
+    if (differsFrom(body.card, true) && earlier.every((patch) => differsFrom(patch, false))) {
+      return last;
+    }
   }
-}));
+  return last;
+}
 
-// POST /api/character/image-prompt
-characterRouter.post("/image-prompt", wrap(async (req, res) => {
-  try {
-    const body = z.object({
-      card: z.object({
-        name: z.string().optional(),
-        description: z.string().optional(),
-        personality: z.string().optional(),
-        scenario: z.string().optional(),
-        tags: z.union([z.array(z.string()), z.string()]).optional(),
-        creator_notes: z.string().optional(),
-      }),
-      styleHints: z.string().optional(),
-    }).parse(req.body);
+async function runRegenerate(body: z.infer<typeof RegenerateSchema>, ctx: RunContext) {
+  const cfg = loadConfig();
+  const contentRating = cfg.generation?.contentRating ?? "nsfw_allowed";
+  const useDefaultNeg = cfg.image?.negativePrompt?.useDefault !== false;
+  const neg = effectiveNegativePrompt(cfg, contentRating);
+  const targets = Object.entries(body.keep)
+    .filter(([, keep]) => !keep)
+    .map(([key]) => key);
+  const wantsNegativePrompt = useDefaultNeg && targets.includes("negative_prompt");
+  const filteredTargets = useDefaultNeg
+    ? targets.filter((key) => key !== "negative_prompt")
+    : targets;
 
-    const cfg = loadConfig();
-    const contentRating = cfg.generation?.contentRating ?? "nsfw_allowed";
-    const useDefaultNeg = cfg.image?.negativePrompt?.useDefault !== false;
-    const neg = effectiveNegativePrompt(cfg, contentRating);
-    const prompt = buildImagePrompt({
+  if (!filteredTargets.length) {
+    if (wantsNegativePrompt) {
+      return { patch: { negative_prompt: neg } };
+    }
+    return { patch: {} };
+  }
+
+  const setup: RegenerateSetup = {
+    cfg,
+    targets: filteredTargets,
+    negativePrompt: wantsNegativePrompt ? neg : undefined,
+    params: body.maxTokens ? { max_tokens: body.maxTokens } : undefined,
+  };
+  let attempts = 0;
+  const candidates: RegenerateCandidate[] = [];
+  // Sequential on purpose: local backends serve one request at a time anyway.
+  for (let i = 0; i < body.n; i++) {
+    const earlier = candidates.map((candidate) => candidate.patch);
+    const candidate = await regenerateCandidate(body, ctx, setup, earlier, () => ++attempts);
+    const checked = await enforceLengths(candidate.patch, filteredTargets, body.outputLanguage, ctx);
+    candidates.push({ ...candidate, patch: checked.fields, lengths: checked.lengths, lengthAdjusted: checked.lengthAdjusted });
+  }
+
+  const [first] = candidates;
+  return { ...first, candidates: body.n > 1 ? candidates : undefined };
+}
+
+async function runAlternateGreetings(body: z.infer<typeof AlternateGreetingsSchema>, ctx: RunContext) {
+  const cfg = loadConfig();
+  const prompt = buildAlternateGreetingsPrompt(
+    {
       card: body.card,
-      styleHints: body.styleHints,
-      contentRating,
-      useDefaultNegativePrompt: useDefaultNeg,
+      count: body.count,
+      pov: body.pov,
+      characterBook: body.characterBook,
+      regenNonce: makeNonce(),
+      outputLanguage: body.outputLanguage,
+    },
+    { fieldDetail: cfg.generation?.fieldDetail }
+  );
+
+  const raw = await generateText("", prompt, undefined, { ...textOptions(ctx), json: outputConstraint(cfg, true) });
+  const json = parseJsonWithRepairs(raw);
+  const parsed = json?.value;
+  // Some models answer with a bare array instead of the wrapper object.
+  const candidate = Array.isArray(parsed) ? { alternate_greetings: parsed } : parsed;
+  const validated = AlternateGreetingsResultSchema.safeParse(candidate);
+  if (!validated.success) {
+    throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "LLM JSON did not match alternate greetings schema", {
+      issues: validated.error.issues,
+      raw: raw.slice(0, 8000),
     });
+  }
 
-    const raw = await generateText("", prompt);
-    const parsed = tryParseJson(raw);
-    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
-      return fail(res, 502, "PROVIDER_BAD_RESPONSE", "Invalid JSON from LLM", { raw: raw.slice(0, 8000) });
-    }
+  const existing = [body.card.first_mes ?? "", ...(body.card.alternate_greetings ?? [])];
+  const greetings: string[] = [];
+  for (const greeting of validated.data.alternate_greetings) {
+    const text = greeting.trim();
+    if (!text) continue;
+    if ([...existing, ...greetings].some((other) => equalNormalized(other, text))) continue;
+    greetings.push(text);
+  }
 
-    const validated = ImagePromptSchema.safeParse(parsed);
-    if (!validated.success) {
-      return fail(res, 502, "PROVIDER_BAD_RESPONSE", "LLM JSON did not match image prompt schema", {
-        issues: validated.error.issues,
+  if (!greetings.length) {
+    throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "LLM returned no new greetings", { raw: raw.slice(0, 8000) });
+  }
+  return { greetings: greetings.slice(0, body.count), repairs: json?.repairs ?? [] };
+}
+
+// Fields are translated in one request. A reply that breaks macros, <START> markers or names is retried once,
+// and the attempt with fewer problems is returned with the remaining ones as `warnings`.
+function translationNames(body: z.infer<typeof TranslateSchema>) {
+  const names = [
+    body.card.name ?? "",
+    ...(body.characterBook?.entries ?? []).map((entry) => entry.name ?? ""),
+    ...body.names,
+  ].map((name) => name.trim()).filter(Boolean);
+  return [...new Set(names)];
+}
+
+async function runTranslate(body: z.infer<typeof TranslateSchema>, ctx: RunContext) {
+  const fields = body.fields.filter((key) => !isMissingValue(body.card[key]));
+  if (!fields.length) {
+    return { patch: {}, language: body.targetLanguage, warnings: [] };
+  }
+
+  const cfg = loadConfig();
+  const names = translationNames(body);
+  let best: { patch: Record<string, any>; warnings: TranslationWarning[]; repairs: JsonRepair[]; prompt: string } | null = null;
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    const prompt = buildTranslatePrompt({ card: body.card, fields, targetLanguage: body.targetLanguage, names });
+    ctx.signal.throwIfAborted();
+    ctx.stream?.attempt(attempt);
+    const raw = await generateText("", prompt, undefined, {
+      ...textOptions(ctx, fields),
+      json: outputConstraint(cfg, pickJsonSchema(TranslatePatchSchema, fields)),
+    });
+    const json = parseJsonWithRepairs(raw);
+    const validated = TranslatePatchSchema.safeParse(json?.value);
+    if (!json || !validated.success) {
+      if (best) break;
+      throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "LLM JSON did not match translation schema", {
+        issues: validated.success ? undefined : validated.error.issues,
         raw: raw.slice(0, 8000),
       });
     }
 
-    const payload = validated.data;
-    if (useDefaultNeg) {
-      payload.negative_prompt = neg;
-    } else if (!payload.negative_prompt?.trim()) {
-      payload.negative_prompt = neg;
-    }
-    return ok(res, { ...payload });
-  } catch (e: any) {
-    if (e instanceof z.ZodError) throw e;
-    return fail(res, 502, "PROVIDER_ERROR", String(e?.message ?? e));
+    const patch = filterPatchToTargets(validated.data, fields);
+    const warnings = checkTranslation(body.card, patch, fields, names);
+    if (!best || warnings.length < best.warnings.length) best = { patch, warnings, repairs: json.repairs, prompt };
+    if (!warnings.length) break;
   }
-}));
 
-// POST /api/character/regenerate
-characterRouter.post("/regenerate", wrap(async (req, res) => {
-  try {
-    const body = RegenerateSchema.parse(req.body);
-    const cfg = loadConfig();
-    const contentRating = cfg.generation?.contentRating ?? "nsfw_allowed";
-    const useDefaultNeg = cfg.image?.negativePrompt?.useDefault !== false;
-    const neg = effectiveNegativePrompt(cfg, contentRating);
-    const targets = Object.entries(body.keep)
-      .filter(([, keep]) => !keep)
-      .map(([key]) => key);
-    const wantsNegativePrompt = useDefaultNeg && targets.includes("negative_prompt");
-    const filteredTargets = useDefaultNeg
-      ? targets.filter((key) => key !== "negative_prompt")
-      : targets;
-
-    if (!filteredTargets.length) {
-      if (wantsNegativePrompt) {
-        return ok(res, { patch: { negative_prompt: neg } });
-      }
-      return ok(res, { patch: {} });
-    }
+  const { patch, warnings, repairs, prompt } = best!;
+  return { patch, language: body.targetLanguage, warnings, repairs, meta: generationMeta(prompt) };
+}
 
-    let lastFiltered: Record<string, any> = {};
-    const maxTokens = body.maxTokens;
-    const regenParams = maxTokens ? { max_tokens: maxTokens } : undefined;
-    const fieldDetail = cfg.generation?.fieldDetail;
-    for (let attempt = 0; attempt < 3; attempt++) {
-      const prompt = buildRegeneratePrompt(
-        {
-          idea: body.idea,
-          requestedName: body.requestedName,
-          pov: body.pov,
-          lorebook: body.lorebook,
-          card: body.card,
-          targets: filteredTargets,
-          regenNonce: makeNonce(),
-          outputLanguage: body.outputLanguage,
-        },
-        { fieldDetail }
-      );
-
-      const raw = await generateText("", prompt, regenParams);
-      const parsed = tryParseJson(raw);
-      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
-        return fail(res, 502, "PROVIDER_BAD_RESPONSE", "Invalid JSON from LLM", { raw: raw.slice(0, 8000) });
-      }
+// Suggestions that are empty, repeat a field already suggested or leave the field unchanged are dropped.
+async function runReview(body: z.infer<typeof ReviewSchema>, ctx: RunContext) {
+  const cfg = loadConfig();
+  const prompt = buildReviewPrompt(
+    { card: body.card, pov: body.pov, outputLanguage: body.outputLanguage },
+    { fieldDetail: cfg.generation?.fieldDetail }
+  );
 
-      const validated = RegeneratePatchSchema.safeParse(parsed);
-      if (!validated.success) {
-        return fail(res, 502, "PROVIDER_BAD_RESPONSE", "LLM JSON did not match patch schema", {
-          issues: validated.error.issues,
-          raw: raw.slice(0, 8000),
-        });
-      }
+  const raw = await generateText("", prompt, undefined, {
+    signal: ctx.signal,
+    json: outputConstraint(cfg, zodToJsonSchema(ReviewResultSchema)),
+  });
+  const json = parseJsonWithRepairs(raw);
+  const validated = ReviewResultSchema.safeParse(json?.value);
+  if (!json || !validated.success) {
+    throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "LLM JSON did not match review schema", {
+      issues: validated.success ? undefined : validated.error.issues,
+      raw: raw.slice(0, 8000),
+    });
+  }
 
-      const filtered = filterPatchToTargets(validated.data, filteredTargets);
-      lastFiltered = filtered;
-      const anyDifferent = filteredTargets.some((key) => {
-        const existingValue = (body.card as Record<string, any>)[key];
-        const regenerated = filtered[key];
-        if (existingValue === undefined || existingValue === null) {
-          return !isMissingValue(regenerated);
-        }
-        return !equalNormalized(existingValue, regenerated);
-      });
+  const card: Record<string, any> = body.card;
+  const suggestions: typeof validated.data.suggestions = [];
+  for (const suggestion of validated.data.suggestions) {
+    const rewrite = suggestion.rewrite.trim();
+    if (!rewrite || equalNormalized(card[suggestion.field] ?? "", rewrite)) continue;
+    if (suggestions.some((other) => other.field === suggestion.field)) continue;
+    suggestions.push({ ...suggestion, issue: suggestion.issue.trim(), rewrite });
+  }
 
-      if (anyDifferent) {
-        if (wantsNegativePrompt) {
-          filtered.negative_prompt = neg;
-        }
-        return ok(res, { patch: filtered });
-      }
+  return {
+    scores: normalizeScores(validated.data.scores),
+    suggestions,
+    repairs: json.repairs,
+    meta: generationMeta(prompt),
+  };
+}
+
+// A cast is planned first (setting, roles, relationships), then each member is generated like /generate with the
+// plan as its idea and the shared lorebook as context. Stream "step" events name the member being written.
+async function runCast(body: z.infer<typeof CastSchema>, ctx: RunContext) {
+  const cfg = loadConfig();
+  const contentRating = cfg.generation?.contentRating ?? "nsfw_allowed";
+  const prompt = buildCastPrompt({ idea: body.idea, size: body.size, outputLanguage: body.outputLanguage }, { contentRating });
+
+  let plan: CastPlan | null = null;
+  let repairs: JsonRepair[] = [];
+  let lastRaw = "";
+  for (let attempt = 1; attempt <= 2 && !plan; attempt += 1) {
+    ctx.signal.throwIfAborted();
+    ctx.stream?.attempt(attempt);
+    lastRaw = await generateText("", prompt, structuredParams(cfg), {
+      signal: ctx.signal,
+      json: outputConstraint(cfg, zodToJsonSchema(CastPlanSchema)),
+    });
+    const json = parseJsonWithRepairs(lastRaw);
+    const validated = CastPlanSchema.safeParse(json?.value);
+    if (!json || !validated.success) continue;
+    const normalized = normalizeCastPlan(validated.data, body.size);
+    if (normalized.members.length < CAST_SIZE.min) continue;
+    plan = normalized;
+    repairs = json.repairs;
+  }
+  if (!plan) {
+    throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "LLM did not return a usable cast plan", {
+      raw: lastRaw.slice(0, 8000),
+    });
+  }
+
+  const lorebook = body.lorebook ? CharacterBookSchema.parse(buildCastLorebook(plan)) : null;
+  const characters: Array<Record<string, any>> = [];
+  for (const [index, member] of plan.members.entries()) {
+    ctx.stream?.step({ step: member.name, index: index + 1, total: plan.members.length }, { sheet: "", fields: {} });
+    const generated = await runGenerate(
+      {
+        idea: memberIdea(body.idea, plan, member),
+        name: member.name,
+        pov: body.pov,
+        characterBook: lorebook ?? undefined,
+        outputLanguage: body.outputLanguage,
+      },
+      { signal: ctx.signal }
+    );
+    characters.push(lorebook ? { ...generated.character, character_book: lorebook } : generated.character);
+  }
+
+  return {
+    plan,
+    characters,
+    lorebook,
+    warnings: checkCrossReferences(plan, characters),
+    repairs,
+    meta: generationMeta(prompt),
+  };
+}
+
+async function runPersona(body: z.infer<typeof PersonaSchema>, ctx: RunContext) {
+  const cfg = loadConfig();
+  const prompt = buildPersonaPrompt(
+    { card: body.card, hint: body.hint, name: body.name, outputLanguage: body.outputLanguage },
+    { contentRating: cfg.generation?.contentRating ?? "nsfw_allowed", fieldDetail: cfg.generation?.fieldDetail }
+  );
+
+  const raw = await generateText("", prompt, structuredParams(cfg), {
+    ...textOptions(ctx, ["name", "description", "image_prompt"]),
+    json: outputConstraint(cfg, zodToJsonSchema(PersonaResultSchema)),
+  });
+  const json = parseJsonWithRepairs(raw);
+  const validated = PersonaResultSchema.safeParse(json?.value);
+  if (!json || !validated.success || !validated.data.description.trim()) {
+    throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "LLM JSON did not match persona schema", {
+      issues: validated.success ? undefined : validated.error.issues,
+      raw: raw.slice(0, 8000),
+    });
+  }
+
+  const persona = {
+    name: body.name?.trim() || validated.data.name.trim(),
+    description: validated.data.description.trim(),
+    image_prompt: validated.data.image_prompt.replace(/\s*\n\s*/g, " ").trim(),
+  };
+  const checked = await enforceLengths(persona, ["description"], body.outputLanguage, ctx);
+  return {
+    persona: checked.fields,
+    lengths: checked.lengths,
+    lengthAdjusted: checked.lengthAdjusted,
+    repairs: json.repairs,
+    meta: generationMeta(prompt),
+  };
+}
+
+// One batch item: the same generation as /generate, then the optional image prompt and avatar, saved to the library.
+function batchWorker(options: BatchOptions): BatchWorker {
+  return async (item, { signal, step }) => {
+    const ctx: RunContext = { signal };
+    const generated = await runGenerate(
+      {
+        idea: item.idea,
+        name: item.name,
+        pov: item.pov ?? options.pov,
+        outputLanguage: item.outputLanguage ?? options.outputLanguage,
+      },
+      ctx
+    );
+    const card: Record<string, any> = { ...generated.character };
+
+    if (options.imagePrompt) {
+      step("image_prompt");
+      const { image_prompt, negative_prompt } = await runImagePrompt({ card }, ctx);
+      Object.assign(card, { image_prompt, negative_prompt });
     }
 
-    if (wantsNegativePrompt) {
-      lastFiltered.negative_prompt = neg;
+    let avatar: { imageUrl: string; buffer: Buffer } | null = null;
+    if (options.avatar) {
+      step("avatar");
+      if (!String(card.image_prompt ?? "").trim()) {
+        throw new GenerationError(502, "PROVIDER_BAD_RESPONSE", "The card has no image prompt to generate an avatar from");
+      }
+      avatar = await generateImageFile({ prompt: card.image_prompt, negativePrompt: card.negative_prompt }, signal);
     }
-    return ok(res, { patch: lastFiltered });
+
+    step("save");
+    const avatarPng = avatar ? await toPngBuffer(avatar.buffer) : null;
+    const saved = saveLibraryCard(options.repoId, card, options.format, avatarPng, options.spec);
+    return { id: saved.id, name: String(card.name ?? ""), imageUrl: avatar?.imageUrl };
+  };
+}
+
+function startBatch(body: z.infer<typeof BatchSchema>) {
+  const repo = resolveRepo(body.options.repoId);
+  if (repo.readOnly) throw new GenerationError(400, "VALIDATION_ERROR", "Repository is read-only", { repoId: repo.id });
+  // Pin the resolved repository so switching the active one mid-run does not split the batch.
+  const job = createBatchJob(body.ideas, { ...body.options, repoId: repo.id });
+  void runBatchJob(job.id, batchWorker(job.options));
+  return job;
+}
+
+// POST /api/character/generate
+characterRouter.post("/generate", jsonRoute("generate", GenerateSchema, runGenerate));
+// POST /api/character/generate/stream
+characterRouter.post("/generate/stream", sseRoute("generate", GenerateSchema, runGenerate));
+
+// POST /api/character/generate/steps
+characterRouter.post("/generate/steps", jsonRoute("generate-steps", GenerateStepsSchema, runGenerateSteps));
+// POST /api/character/generate/steps/stream
+characterRouter.post("/generate/steps/stream", sseRoute("generate-steps", GenerateStepsSchema, runGenerateSteps));
+
+// POST /api/character/fill-missing
+characterRouter.post("/fill-missing", jsonRoute("fill-missing", FillMissingSchema, runFillMissing));
+// POST /api/character/fill-missing/stream
+characterRouter.post("/fill-missing/stream", sseRoute("fill-missing", FillMissingSchema, runFillMissing));
+
+// POST /api/character/image-prompt
+characterRouter.post("/image-prompt", jsonRoute("image-prompt", ImagePromptRequestSchema, runImagePrompt));
+
+// POST /api/character/regenerate
+characterRouter.post("/regenerate", jsonRoute("regenerate", RegenerateSchema, runRegenerate));
+// POST /api/character/regenerate/stream
+characterRouter.post("/regenerate/stream", sseRoute("regenerate", RegenerateSchema, runRegenerate));
+
+// POST /api/character/translate
+characterRouter.post("/translate", jsonRoute("translate", TranslateSchema, runTranslate));
+// POST /api/character/translate/stream
+characterRouter.post("/translate/stream", sseRoute("translate", TranslateSchema, runTranslate));
+
+// POST /api/character/review
+characterRouter.post("/review", jsonRoute("review", ReviewSchema, runReview));
+
+// POST /api/character/cast
+characterRouter.post("/cast", jsonRoute("cast", CastSchema, runCast));
+// POST /api/character/cast/stream
+characterRouter.post("/cast/stream", sseRoute("cast", CastSchema, runCast));
+
+// POST /api/character/persona
+characterRouter.post("/persona", jsonRoute("persona", PersonaSchema, runPersona));
+
+// POST /api/character/batch
+// Starts a batch job from a list of ideas; poll GET /batch/:id for per-item progress.
+characterRouter.post("/batch", wrap(async (req, res) => {
+  const body = BatchSchema.parse(req.body);
+  try {
+    return ok(res, { job: startBatch(body) });
   } catch (e: any) {
-    if (e instanceof z.ZodError) throw e;
-    return fail(res, 502, "PROVIDER_ERROR", String(e?.message ?? e));
+    const failure = toFailure(e);
+    return fail(res, failure.status, failure.code, failure.message, failure.details);
   }
 }));
+
+// POST /api/character/batch/upload
+// Multipart: `file` is a CSV, JSONL or plain-text idea list, `options` the batch options as JSON.
+characterRouter.post("/batch/upload", upload.single("file"), wrap(async (req, res) => {
+  const file = req.file;
+  if (!file) return fail(res, 400, "VALIDATION_ERROR", "No file uploaded");
+  let ideas: BatchIdeaInput[];
+  let options: unknown;
+  try {
+    ideas = parseIdeaFile(file.originalname, file.buffer.toString("utf-8"));
+    options = JSON.parse(typeof req.body?.options === "string" && req.body.options ? req.body.options : "{}");
+  } catch (e: any) {
+    return fail(res, 400, "VALIDATION_ERROR", String(e?.message ?? e), { file: file.originalname });
+  }
+  if (!ideas.length) return fail(res, 400, "VALIDATION_ERROR", "The file does not contain any ideas", { file: file.originalname });
+  const body = BatchSchema.parse({ ideas, options });
+  try {
+    return ok(res, { job: startBatch(body) });
+  } catch (e: any) {
+    const failure = toFailure(e);
+    return fail(res, failure.status, failure.code, failure.message, failure.details);
+  }
+}));
+
+// GET /api/character/batch
+characterRouter.get("/batch", wrap(async (_req, res) => {
+  return ok(res, { jobs: listBatchJobs() });
+}));
+
+// GET /api/character/batch/:id
+characterRouter.get("/batch/:id", wrap(async (req, res) => {
+  const job = getBatchJob(String(req.params.id));
+  if (!job) return fail(res, 404, "NOT_FOUND", "Batch not found", { id: req.params.id });
+  return ok(res, { job });
+}));
+
+// POST /api/character/batch/:id/cancel
+characterRouter.post("/batch/:id/cancel", wrap(async (req, res) => {
+  const job = cancelBatchJob(String(req.params.id));
+  if (!job) return fail(res, 404, "NOT_FOUND", "Batch not found", { id: req.params.id });
+  return ok(res, { job });
+}));
+
+// POST /api/character/batch/:id/retry
+// Requeues failed and canceled items, or only `indexes` when given, and runs them again.
+characterRouter.post("/batch/:id/retry", wrap(async (req, res) => {
+  const id = String(req.params.id);
+  const { indexes } = z.object({ indexes: z.array(z.number().int().min(0)).optional() }).parse(req.body ?? {});
+  const existing = getBatchJob(id);
+  if (!existing) return fail(res, 404, "NOT_FOUND", "Batch not found", { id });
+  if (existing.state === "running") return fail(res, 400, "VALIDATION_ERROR", "The batch is still running");
+  const job = requeueBatchJob(id, indexes);
+  if (!job) return fail(res, 400, "VALIDATION_ERROR", "No failed or canceled items to retry");
+  void runBatchJob(id, batchWorker(job.options));
+  return ok(res, { job });
+}));
+
+// POST /api/character/alternate-greetings
+characterRouter.post("/alternate-greetings", jsonRoute("alternate-greetings", AlternateGreetingsSchema, runAlternateGreetings));
@@ -3,28 +3,17 @@ import { z } from "zod";
 
 import { getApiKeyFromConfig as getApiKeyFromConfigValue, loadConfig, saveConfig } from "../config/store.js";
 import { getComfyBaseUrl, getObjectInfo } from "../adapters/comfyui/client.js";
-import { applyBindings, roundTo64, type BindingsMap } from "../adapters/comfyui/bindings.js";
 import { extractSamplers, extractSchedulers } from "../adapters/comfyui/parse.js";
-import { listWorkflows, loadBindingsForWorkflow, loadWorkflow } from "../domain/comfyui/workflows.js";
-import { createComfyJob, updateJob } from "../domain/jobs/imageJobs.js";
-import { stabilityGenerate } from "../providers/stability.js";
-import { huggingfaceTextToImage } from "../providers/huggingface.js";
-import { generateGoogleImage } from "../providers/google.js";
+import { listWorkflows } from "../domain/comfyui/workflows.js";
+import { generateImage, ImageGenerationError, normalizeBaseUrl } from "../domain/image/generate.js";
 import { readApiKey } from "../secrets/secretStore.js";
-import { httpGetJson, httpPostJson, isHttpRequestError } from "../utils/http.js";
+import { httpGetJson, isHttpRequestError } from "../utils/http.js";
 import { fail, ok, wrap } from "../lib/api.js";
 import { mapHttpRequestError, mapUnknownError } from "../lib/errorMap.js";
-import { savePngBuffer } from "../lib/imageStore.js";
 
 export const imageRouter = Router();
 
 
-function decodeBase64Image(b64: string): Buffer {
-  const idx = b64.indexOf("base64,");
-  const raw = idx >= 0 ? b64.slice(idx + "base64,".length) : b64;
-  return Buffer.from(raw, "base64");
-}
-
 const GenerateSchema = z.object({
   prompt: z.string().min(1),
   negativePrompt: z.string().optional().default(""),
@@ -35,14 +24,8 @@ const GenerateSchema = z.object({
 
 const TIMEOUT_CONNECT_MS = 8000;
 const TIMEOUT_LIST_MS = 8000;
-const TIMEOUT_SDAPI_TXT2IMG_MS = 120000;
-const TIMEOUT_COMFY_PROMPT_MS = 15000;
 const TIMEOUT_COMFY_HISTORY_MS = 8000;
 
-function normalizeBaseUrl(url: string) {
-  return url.replace(/\/+$/, "");
-}
-
 function parseStringList(payload: any): string[] {
   if (!Array.isArray(payload)) return [];
   const seen = new Set<string>();
@@ -72,21 +55,6 @@ function extractFirstImage(historyPayload: any) {
   return null;
 }
 
-function applyLoraSettings(workflow: Record<string, any>, cfg: any) {
-  const name = cfg?.image?.comfyui?.loraName;
-  const strengthModel = cfg?.image?.comfyui?.loraStrengthModel;
-  const strengthClip = cfg?.image?.comfyui?.loraStrengthClip;
-
-  for (const node of Object.values(workflow)) {
-    const record: any = node;
-    if (record?.class_type !== "LoraLoader" || !record.inputs) continue;
-    if (name) record.inputs.lora_name = name;
-    if (typeof strengthModel === "number") record.inputs.strength_model = strengthModel;
-    if (typeof strengthClip === "number") record.inputs.strength_clip = strengthClip;
-  }
-  return workflow;
-}
-
 // GET /api/image/comfyui/workflows
 imageRouter.get("/comfyui/workflows", wrap(async (req, res) => {
   try {
@@ -357,214 +325,9 @@ imageRouter.post("/connect", wrap(async (req, res) => {
 imageRouter.post("/generate", wrap(async (req, res) => {
   try {
     const body = GenerateSchema.parse(req.body);
-    const cfg = loadConfig();
-    const provider = cfg.image.provider;
-
-    if (provider === "google") {
-      const cfgGoogle = cfg.image.google;
-      if (!cfgGoogle) {
-        return fail(res, 400, "VALIDATION_ERROR", "Google configuration not found.");
-      }
-      const apiKeyRef = cfgGoogle?.apiKeyRef ?? "";
-      const apiKeyResult = await readApiKey({
-        envVar: "GOOGLE_API_KEY",
-        service: "ccg-character-generator",
-        account: apiKeyRef,
-        readFromConfig: () => (apiKeyRef ? getApiKeyFromConfigValue(apiKeyRef) : null),
-      });
-      const apiKey = apiKeyResult.value;
-      if (!apiKey) {
-        if (apiKeyRef) return fail(res, 404, "NOT_FOUND", "Selected API key not found.");
-        return fail(res, 400, "VALIDATION_ERROR", "No API key configured.");
-      }
-      try {
-        const { buffer } = await generateGoogleImage({
-          prompt: body.prompt,
-          negativePrompt: body.negativePrompt || undefined,
-          cfgGoogle,
-          apiKey,
-        });
-        const saved = await savePngBuffer(buffer, { prefix: "google" });
-        return ok(res, { provider, imageUrl: saved.urlPath });
-      } catch (e: any) {
-        if (isHttpRequestError(e)) {
-          const mapped = mapHttpRequestError(e);
-          return fail(res, mapped.status, mapped.code, mapped.message, mapped.details);
-        }
-        const mapped = mapUnknownError(e);
-        return fail(res, mapped.status, mapped.code, mapped.message, mapped.details);
-      }
-    }
-
-    if (provider === "huggingface") {
-      const apiKeyRef = cfg.image.huggingface?.apiKeyRef ?? "";
-      const apiKeyResult = await readApiKey({
-        envVar: "HUGGINGFACE_API_KEY",
-        service: "ccg-character-generator",
-        account: apiKeyRef,
-        readFromConfig: () => (apiKeyRef ? getApiKeyFromConfigValue(apiKeyRef) : null),
-      });
-      const apiKey = apiKeyResult.value;
-      if (!apiKey) {
-        if (apiKeyRef) return fail(res, 404, "NOT_FOUND", "Selected API key not found.");
-        return fail(res, 400, "VALIDATION_ERROR", "No Hugging Face API key configured.");
-      }
-      const model = cfg.image.huggingface?.model || "black-forest-labs/FLUX.1-schnell";
-      const hfProvider = cfg.image.huggingface?.provider || "hf-inference";
-      try {
-        const result = await huggingfaceTextToImage({
-          accessToken: apiKey,
-          prompt: body.prompt,
-          negativePrompt: body.negativePrompt || undefined,
-          model,
-          provider: hfProvider,
-          width: cfg.image.width,
-          height: cfg.image.height,
-          steps: cfg.image.steps,
-          cfgScale: cfg.image.cfgScale,
-        });
-        return ok(res, {
-          provider,
-          imageUrl: `/output/${encodeURIComponent(result.fileName)}`,
-          meta: { provider, model, hfProvider },
-        });
-      } catch (e: any) {
-        if (isHttpRequestError(e)) {
-          const mapped = mapHttpRequestError(e);
-          return fail(res, mapped.status, mapped.code, mapped.message, mapped.details);
-        }
-        const mapped = mapUnknownError(e);
-        return fail(res, mapped.status, mapped.code, mapped.message, mapped.details);
-      }
-    }
-
-    if (provider === "stability") {
-      const apiKeyRef = cfg.image.stability?.apiKeyRef ?? "";
-      const apiKeyResult = await readApiKey({
-        envVar: "STABILITY_API_KEY",
-        service: "ccg-character-generator",
-        account: apiKeyRef,
-        readFromConfig: () => (apiKeyRef ? getApiKeyFromConfigValue(apiKeyRef) : null),
-      });
-      const apiKey = apiKeyResult.value;
-      if (!apiKey) {
-        if (apiKeyRef) return fail(res, 404, "NOT_FOUND", "Selected API key not found.");
-        return fail(res, 400, "VALIDATION_ERROR", "No API key configured for Stability.");
-      }
-      try {
-        const result = await stabilityGenerate({
-          prompt: body.prompt,
-          negativePrompt: body.negativePrompt || "",
-          seed: body.seed,
-          aspectRatio: body.aspectRatio || cfg.image.stability?.aspectRatio,
-          outputFormat: body.outputFormat || cfg.image.stability?.outputFormat,
-          apiKey,
-          baseUrl: cfg.image.stability?.baseUrl || cfg.image.baseUrls?.stability,
-        });
-        return ok(res, {
-          provider,
-          seed: body.seed,
-          imageUrl: `/output/${encodeURIComponent(result.filename)}`,
-        });
-      } catch (e: any) {
-        if (isHttpRequestError(e)) {
-          const mapped = mapHttpRequestError(e);
-          return fail(res, mapped.status, mapped.code, mapped.message, mapped.details);
-        }
-        const mapped = mapUnknownError(e);
-        return fail(res, mapped.status, mapped.code, mapped.message, mapped.details);
-      }
-    }
-
-    if (provider === "sdapi" || provider === "koboldcpp") {
-      const baseUrl = normalizeBaseUrl(cfg.image.baseUrls?.[provider] || "");
-      const seed = body.seed ?? -1;
-      const payload: Record<string, any> = {
-        prompt: body.prompt,
-        negative_prompt: body.negativePrompt || "",
-        seed,
-        steps: cfg.image.steps,
-        cfg_scale: cfg.image.cfgScale,
-        width: cfg.image.width,
-        height: cfg.image.height,
-      };
-      if (cfg.image.sampler) payload.sampler_name = cfg.image.sampler;
-      if (cfg.image.scheduler) payload.scheduler = cfg.image.scheduler;
-
-      let out: any;
-      try {
-        out = await httpPostJson(`${baseUrl}/sdapi/v1/txt2img`, payload, {
-          timeoutMs: TIMEOUT_SDAPI_TXT2IMG_MS,
-          maxBodyChars: 2000,
-        });
-      } catch (e: any) {
-        if (isHttpRequestError(e)) {
-          const mapped = mapHttpRequestError(e);
-          const details = mapped.details ? { ...mapped.details, baseUrl } : { baseUrl };
-          return fail(res, mapped.status, mapped.code, mapped.message, details);
-        }
-        const mapped = mapUnknownError(e);
-        const details = mapped.details ? { ...mapped.details, baseUrl } : { baseUrl };
-        return fail(res, mapped.status, mapped.code, mapped.message, details);
-      }
-      const firstImage = Array.isArray(out?.images) ? out.images[0] : null;
-      if (!firstImage || typeof firstImage !== "string") {
-        return fail(res, 502, "PROVIDER_BAD_RESPONSE", "SDAPI did not return any images", { out });
-      }
-      const buf = decodeBase64Image(firstImage);
-      const saved = await savePngBuffer(buf, { prefix: provider });
-      return ok(res, {
-        provider,
-        seed,
-        imageUrl: saved.urlPath,
-        imageBase64: firstImage,
-      });
-    }
-
-    if (provider !== "comfyui") {
-      return fail(res, 400, "VALIDATION_ERROR", `Provider '${provider}' not implemented yet.`);
-    }
-
-    const baseUrl = getComfyBaseUrl();
-    const workflowName = cfg.image.comfyui.workflow || "sd_basic.json";
-    const workflow = await loadWorkflow(workflowName);
-    const bindings = await loadBindingsForWorkflow(workflowName) as BindingsMap;
-
-    const seed = (body.seed ?? Math.floor(Math.random() * 2_000_000_000));
-
-    const patched = applyBindings(workflow, bindings, {
-      prompt: body.prompt,
-      negativePrompt: body.negativePrompt || "",
-      seed,
-      steps: cfg.image.steps,
-      cfgScale: cfg.image.cfgScale,
-      sampler: cfg.image.sampler || "euler",
-      scheduler: cfg.image.scheduler || "simple",
-      width: roundTo64(cfg.image.width),
-      height: roundTo64(cfg.image.height),
-      model: cfg.image.comfyui.model || workflow["4"]?.inputs?.ckpt_name
-    });
-    applyLoraSettings(patched, cfg);
-
-    // Submit
-    let submit: any;
-    try {
-      submit = await httpPostJson(`${baseUrl}/prompt`, { prompt: patched }, { timeoutMs: TIMEOUT_COMFY_PROMPT_MS });
-    } catch (e: any) {
-      if (isHttpRequestError(e)) {
-        const mapped = mapHttpRequestError(e);
-        return fail(res, mapped.status, mapped.code, mapped.message, mapped.details);
-      }
-      const mapped = mapUnknownError(e);
-      return fail(res, mapped.status, mapped.code, mapped.message, mapped.details);
-    }
-    const promptId = submit?.prompt_id;
-    if (!promptId) return fail(res, 502, "PROVIDER_BAD_RESPONSE", "ComfyUI did not return prompt_id", { submit });
-
-    const job = createComfyJob(baseUrl, promptId);
-    updateJob(job.id, { state: "running", message: "Submitted to ComfyUI", progress: 0.1 });
-    return ok(res, { provider: "comfyui", jobId: job.id, promptId });
+    return ok(res, await generateImage(body));
   } catch (e: any) {
+    if (e instanceof ImageGenerationError) return fail(res, e.status, e.code, e.message, e.details);
     if (isHttpRequestError(e)) {
       const mapped = mapHttpRequestError(e);
       return fail(res, mapped.status, mapped.code, mapped.message, mapped.details);
@@ -4,23 +4,44 @@ import path from "node:path";
 import { z } from "zod";
 
 import {
+  listLibraryGroups,
   listLibraryItems,
   loadLibraryCard,
   loadLibraryPng,
   saveLibraryCard,
+  saveLibraryGroup,
   updateLibraryCard,
   deleteLibraryItem,
   transferLibraryItem,
 } from "../domain/library/store.js";
+import { CharacterBookSchema } from "../domain/cards/characterBook.js";
 import { fail, ok, wrap } from "../lib/api.js";
+import { toPngBuffer } from "../lib/imageTranscode.js";
 
 export const libraryRouter = Router();
 
 const SaveSchema = z.object({
   card: z.record(z.any()),
   avatarUrl: z.string().nullable().optional(),
-  format: z.enum(["json", "png"]).optional(),
+  format: z.enum(["json", "png", "charx"]).optional(),
+  spec: z.enum(["v2", "v3"]).optional(),
   repoId: z.string().optional(),
+  history: z.record(z.array(z.record(z.any()))).optional(),
+  // Links the card to another card in the same repository, e.g. a translation of it.
+  variant: z.object({ of: z.string().min(1), language: z.string().min(1) }).nullable().optional(),
+});
+
+const GroupSaveSchema = z.object({
+  name: z.string().trim().min(1),
+  setting: z.string().optional(),
+  cards: z.array(z.object({
+    card: z.record(z.any()),
+    avatarUrl: z.string().nullable().optional(),
+  })).min(1),
+  format: z.enum(["json", "png", "charx"]).optional(),
+  spec: z.enum(["v2", "v3"]).optional(),
+  repoId: z.string().optional(),
+  lorebook: CharacterBookSchema.nullable().optional(),
 });
 
 const TransferSchema = z.object({
@@ -28,7 +49,7 @@ const TransferSchema = z.object({
   toRepoId: z.string().optional(),
   id: z.string().min(1),
   mode: z.enum(["copy", "move"]),
-  destFormat: z.enum(["auto", "png", "json"]).optional(),
+  destFormat: z.enum(["auto", "png", "json", "charx"]).optional(),
 });
 
 function getAbsoluteUrl(req: any, pathOrUrl: string) {
@@ -38,7 +59,7 @@ function getAbsoluteUrl(req: any, pathOrUrl: string) {
 }
 
 function parseDataUrl(dataUrl: string): Buffer | null {
-  const match = dataUrl.match(/^data:image\/png;base64,(.+)$/i);
+  const match = dataUrl.match(/^data:image\/[a-z0-9.+-]+;base64,(.+)$/i);
   if (!match) return null;
   return Buffer.from(match[1], "base64");
 }
@@ -67,12 +88,49 @@ libraryRouter.get("/", wrap((req, res) => {
     fileBase: item.fileBase,
     createdAt: item.createdAt,
     updatedAt: item.updatedAt,
-    pngUrl: item.pngPath ? `/api/library/image/${item.id}?repo=${encodeURIComponent(repo.id)}` : null,
+    pngUrl: item.pngPath || item.charxHasImage ? `/api/library/image/${item.id}?repo=${encodeURIComponent(repo.id)}` : null,
     hasJson: Boolean(item.jsonPath),
+    hasCharx: Boolean(item.charxPath),
+    variant: item.variant ?? null,
+    group: item.group ?? null,
   }));
   return ok(res, { dir, repo, items: withUrls });
 }));
 
+// GET /api/library/groups
+libraryRouter.get("/groups", wrap((req, res) => {
+  const { dir, repo, groups } = listLibraryGroups(getRepoIdFromQuery(req));
+  return ok(res, { dir, repo, groups });
+}));
+
+// POST /api/library/group
+// Saves several cards at once (e.g. a generated cast) and records them as a group.
+libraryRouter.post("/group", wrap(async (req, res) => {
+  try {
+    const body = GroupSaveSchema.parse(req.body);
+    const format = body.format ?? "json";
+    if (format === "png" && body.cards.some((entry) => !entry.avatarUrl)) {
+      return fail(res, 400, "VALIDATION_ERROR", "Every card needs an avatar image to save as PNG.");
+    }
+    const cards = await Promise.all(body.cards.map(async (entry) => ({
+      payload: entry.card,
+      avatarPng: format !== "json" && entry.avatarUrl ? await toPngBuffer(await fetchAvatarBuffer(req, entry.avatarUrl)) : null,
+    })));
+    const { dir, repo, group } = saveLibraryGroup(body.repoId, {
+      name: body.name,
+      setting: body.setting,
+      cards,
+      format,
+      spec: body.spec,
+      lorebook: body.lorebook,
+    });
+    return ok(res, { dir, repo, group });
+  } catch (e: any) {
+    if (e instanceof z.ZodError) throw e;
+    return fail(res, 500, "INTERNAL", String(e?.message ?? e));
+  }
+}));
+
 // POST /api/library/save
 libraryRouter.post("/save", wrap(async (req, res) => {
   try {
@@ -81,10 +139,20 @@ libraryRouter.post("/save", wrap(async (req, res) => {
     const format = body.format ?? (body.avatarUrl ? "png" : "json");
     if (format === "png") {
       if (!body.avatarUrl) return fail(res, 400, "VALIDATION_ERROR", "No avatar image to save as PNG.");
-      avatarPng = await fetchAvatarBuffer(req, body.avatarUrl);
+      avatarPng = await toPngBuffer(await fetchAvatarBuffer(req, body.avatarUrl));
+    } else if (format === "charx" && body.avatarUrl) {
+      avatarPng = await toPngBuffer(await fetchAvatarBuffer(req, body.avatarUrl));
     }
 
-    const { dir, id, repo } = saveLibraryCard(body.repoId, body.card, format, avatarPng);
+    const { dir, id, repo } = saveLibraryCard(
+      body.repoId,
+      body.card,
+      format,
+      avatarPng,
+      body.spec,
+      body.history,
+      body.variant,
+    );
     return ok(res, { id, dir, repo });
   } catch (e: any) {
     return fail(res, 500, "INTERNAL", String(e?.message ?? e));
@@ -99,10 +167,21 @@ libraryRouter.post("/update/:id", wrap(async (req, res) => {
     const format = body.format ?? (body.avatarUrl ? "png" : "json");
     if (format === "png") {
       if (!body.avatarUrl) return fail(res, 400, "VALIDATION_ERROR", "No avatar image to save as PNG.");
-      avatarPng = await fetchAvatarBuffer(req, body.avatarUrl);
+      avatarPng = await toPngBuffer(await fetchAvatarBuffer(req, body.avatarUrl));
+    } else if (format === "charx" && body.avatarUrl) {
+      avatarPng = await toPngBuffer(await fetchAvatarBuffer(req, body.avatarUrl));
     }
 
-    const { dir, id, repo } = updateLibraryCard(body.repoId, req.params.id, body.card, format, avatarPng);
+    const { dir, id, repo } = updateLibraryCard(
+      body.repoId,
+      req.params.id,
+      body.card,
+      format,
+      avatarPng,
+      body.spec,
+      body.history,
+      body.variant,
+    );
     return ok(res, { id, dir, repo });
   } catch (e: any) {
     const message = String(e?.message ?? e);
@@ -135,9 +214,13 @@ libraryRouter.delete("/:id", wrap((req, res) => {
 libraryRouter.get("/:id", wrap((req, res) => {
   try {
     const repoId = getRepoIdFromQuery(req);
-    const { cardV2, hasPng, repo } = loadLibraryCard(repoId, req.params.id);
+    const { cardV2, spec, hasPng, format, repo, history, variant } = loadLibraryCard(repoId, req.params.id);
     return ok(res, {
       cardV2,
+      spec,
+      format,
+      history,
+      variant: variant ?? null,
       avatarPngUrl: hasPng ? `/api/library/image/${req.params.id}?repo=${encodeURIComponent(repo.id)}` : null,
     });
   } catch (e: any) {
@@ -150,10 +233,10 @@ libraryRouter.get("/:id", wrap((req, res) => {
 }));
 
 // GET /api/library/image/:id
-libraryRouter.get("/image/:id", (req: any, res: any) => {
+libraryRouter.get("/image/:id", async (req: any, res: any) => {
   try {
     const repoId = getRepoIdFromQuery(req);
-    const png = loadLibraryPng(repoId, req.params.id);
+    const png = await toPngBuffer(loadLibraryPng(repoId, req.params.id));
     res.setHeader("Content-Type", "image/png");
     return res.send(png);
   } catch (e: any) {
@@ -162,10 +245,10 @@ libraryRouter.get("/image/:id", (req: any, res: any) => {
 });
 
 // POST /api/library/transfer
-libraryRouter.post("/transfer", wrap((req, res) => {
+libraryRouter.post("/transfer", wrap(async (req, res) => {
   try {
     const body = TransferSchema.parse(req.body);
-    const result = transferLibraryItem(body);
+    const result = await transferLibraryItem(body);
     return ok(res, result);
   } catch (e: any) {
     const message = String(e?.message ?? e);
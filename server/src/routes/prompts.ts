@@ -0,0 +1,89 @@
+import { Router } from "express";
+import { z } from "zod";
+import { loadConfig } from "../config/store.js";
+import { buildPromptPreview } from "../domain/character/prompt.js";
+import {
+  getPromptTemplateInfo,
+  listPromptTemplates,
+  loadPromptTemplate,
+  missingPlaceholders,
+  PROMPT_TEMPLATE_IDS,
+  resetPromptTemplate,
+  savePromptTemplate,
+  unknownPlaceholders,
+} from "../domain/character/promptTemplates.js";
+import { fail, ok, wrap } from "../lib/api.js";
+
+export const promptsRouter = Router();
+
+const TemplateIdSchema = z.enum(PROMPT_TEMPLATE_IDS);
+
+const SaveTemplateSchema = z.object({
+  template: z.string().min(1).max(50000),
+});
+
+const PreviewSchema = z.object({
+  id: TemplateIdSchema,
+  template: z.string().max(50000).optional(),
+});
+
+function parseId(req: any, res: any) {
+  const parsed = TemplateIdSchema.safeParse(req.params.id);
+  if (!parsed.success) {
+    fail(res, 404, "NOT_FOUND", "Unknown prompt template", { id: req.params.id });
+    return null;
+  }
+  return parsed.data;
+}
+
+// GET /api/prompts
+promptsRouter.get("/", wrap(async (req, res) => {
+  return ok(res, { templates: listPromptTemplates() });
+}));
+
+// PUT /api/prompts/:id
+promptsRouter.put("/:id", wrap(async (req, res) => {
+  const id = parseId(req, res);
+  if (!id) return;
+  const body = SaveTemplateSchema.parse(req.body);
+  // A template the generator cannot fill would only produce broken prompts, so it is not stored.
+  const unknown = unknownPlaceholders(id, body.template);
+  const missing = missingPlaceholders(id, body.template);
+  if (unknown.length || missing.length) {
+    const problems = [
+      missing.length ? `missing ${missing.map((name) => `{{${name}}}`).join(", ")}` : "",
+      unknown.length ? `unknown ${unknown.map((name) => `{{${name}}}`).join(", ")}` : "",
+    ].filter(Boolean);
+    return fail(res, 422, "TEMPLATE_INVALID", `Template not saved: ${problems.join("; ")}.`, {
+      unknownPlaceholders: unknown,
+      missingPlaceholders: missing,
+    });
+  }
+  savePromptTemplate(id, body.template);
+  return ok(res, { template: getPromptTemplateInfo(id) });
+}));
+
+// DELETE /api/prompts/:id (reset to default)
+promptsRouter.delete("/:id", wrap(async (req, res) => {
+  const id = parseId(req, res);
+  if (!id) return;
+  resetPromptTemplate(id);
+  return ok(res, { template: getPromptTemplateInfo(id) });
+}));
+
+// POST /api/prompts/preview
+promptsRouter.post("/preview", wrap(async (req, res) => {
+  const body = PreviewSchema.parse(req.body);
+  const cfg = loadConfig();
+  const template = body.template ?? loadPromptTemplate(body.id);
+  const prompt = buildPromptPreview(body.id, template, {
+    contentRating: cfg.generation?.contentRating ?? "nsfw_allowed",
+    fieldDetail: cfg.generation?.fieldDetail,
+    useDefaultNegativePrompt: cfg.image?.negativePrompt?.useDefault !== false,
+  });
+  return ok(res, {
+    prompt,
+    unknownPlaceholders: unknownPlaceholders(body.id, template),
+    missingPlaceholders: missingPlaceholders(body.id, template),
+  });
+}));
@@ -1,8 +1,11 @@
 import { Router } from "express";
+import { z } from "zod";
 import { listModels, pingProvider } from "../adapters/text/provider.js";
 import { loadConfig } from "../config/store.js";
+import { cancelTextJob, getTextJob } from "../domain/jobs/textJobs.js";
 import { fail, ok, wrap } from "../lib/api.js";
 import { mapUnknownError } from "../lib/errorMap.js";
+import { countTokensByKey, TokenizerError, TOKENIZERS } from "../lib/tokenizer.js";
 
 export const textRouter = Router();
 
@@ -29,3 +32,41 @@ textRouter.get("/ping", wrap(async (req, res) => {
     return fail(res, mapped.status, mapped.code, mapped.message, mapped.details);
   }
 }));
+
+const TokenizeSchema = z.object({
+  texts: z.record(z.string()),
+  tokenizer: z.enum(TOKENIZERS).optional(),
+});
+
+// POST /api/text/tokenize
+textRouter.post("/tokenize", wrap(async (req, res) => {
+  const body = TokenizeSchema.parse(req.body);
+  const tokenizer = body.tokenizer ?? loadConfig().generation.tokens.tokenizer;
+  try {
+    const counts = await countTokensByKey(body.texts, tokenizer);
+    const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+    return ok(res, { tokenizer, counts, total });
+  } catch (e: any) {
+    if (e instanceof TokenizerError && e.stage === "encode") {
+      return fail(res, 422, "TOKENIZE_FAILED", e.message, { tokenizer, ...e.details });
+    }
+    if (e instanceof TokenizerError) return fail(res, 500, "TOKENIZER_ERROR", e.message, e.details);
+    return fail(res, 500, "INTERNAL", String(e?.message ?? e));
+  }
+}));
+
+// GET /api/text/job/:jobId
+textRouter.get("/job/:jobId", wrap(async (req, res) => {
+  const jobId = String(req.params.jobId || "");
+  const job = getTextJob(jobId);
+  if (!job) return fail(res, 404, "NOT_FOUND", "Job not found", { jobId });
+  return ok(res, { job });
+}));
+
+// POST /api/text/job/:jobId/cancel
+textRouter.post("/job/:jobId/cancel", wrap(async (req, res) => {
+  const jobId = String(req.params.jobId || "");
+  const job = cancelTextJob(jobId);
+  if (!job) return fail(res, 404, "NOT_FOUND", "Job not found", { jobId });
+  return ok(res, { job });
+}));
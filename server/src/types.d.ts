@@ -1,4 +1,5 @@
 declare module "cors";
+declare module "mistral-tokenizer-js";
 declare module "multer";
 declare module "png-chunk-text";
 declare module "png-chunks-encode";
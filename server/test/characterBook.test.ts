@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { normalizeCharacterBook, parseCharacterBook } from "../src/domain/cards/characterBook.js";
+
+test("keeps entries with SillyTavern ids and positions", () => {
+  const book = normalizeCharacterBook({
+    name: "Saltmarsh",
+    entries: [
+      { keys: ["lighthouse"], content: "The lamp never goes out.", id: 1, position: "after_char" },
+      { keys: ["storm"], content: "Storms come from the west.", id: "2", position: 4 },
+    ],
+  });
+  assert.ok(book);
+  assert.equal(book.entries.length, 2);
+  assert.equal(book.entries[0]!.position, "after_char");
+  assert.equal(book.entries[1]!.id, 2);
+  assert.equal(book.entries[1]!.position, undefined);
+  assert.equal(book.entries[1]!.extensions.position, 4);
+});
+
+test("drops only the entries that cannot be recovered", () => {
+  const { book, dropped } = parseCharacterBook({
+    entries: [
+      { keys: ["lighthouse"], content: "The lamp never goes out." },
+      { keys: ["storm"], content: 42 },
+    ],
+  });
+  assert.equal(book?.entries.length, 1);
+  assert.deepEqual(dropped.map((entry) => entry.index), [1]);
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+
+import { strToU8, unzipSync, zipSync } from "fflate";
+import sharp from "sharp";
+
+// The asset store lives under the working directory, so the test runs in a scratch one.
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "charx-test-"));
+process.chdir(scratch);
+after(() => fs.rmSync(scratch, { recursive: true, force: true }));
+const { buildCharx, readCharx, readCharxCard, readCharxIcon } = await import("../src/domain/cards/charx.js");
+const { toPngBuffer } = await import("../src/lib/imageTranscode.js");
+
+const audio = Buffer.from("ID3 not really audio");
+const icon = await sharp({ create: { width: 4, height: 4, channels: 3, background: "#336699" } }).webp().toBuffer();
+
+function archive() {
+  const card = {
+    spec: "chara_card_v3",
+    spec_version: "3.0",
+    data: {
+      name: "Mira",
+      assets: [
+        { type: "icon", uri: "embeded://assets/icon/images/main.webp", name: "main", ext: "webp" },
+        { type: "other", uri: "embeded://assets/other/audio/theme.mp3", name: "theme", ext: "mp3" },
+      ],
+    },
+  };
+  return Buffer.from(zipSync({
+    "card.json": strToU8(JSON.stringify(card)),
+    "assets/icon/images/main.webp": new Uint8Array(icon),
+    "assets/other/audio/theme.mp3": new Uint8Array(audio),
+  }));
+}
+
+test("keeps assets out of the card and returns a non-PNG icon", async () => {
+  const { card, icon: read } = readCharx(archive());
+  const [main, theme] = card.data.assets;
+  assert.equal(main.uri, "ccdefault:");
+  assert.match(theme.uri, /^ccg-asset:\/\/[a-f0-9]{64}\.mp3$/);
+  assert.ok(read);
+  assert.equal((await sharp(await toPngBuffer(read)).metadata()).format, "png");
+});
+
+test("reads the icon and card.json without the other assets", () => {
+  const { card, hasIcon } = readCharxCard(archive());
+  assert.equal(card.data.name, "Mira");
+  assert.equal(hasIcon, true);
+  assert.deepEqual(readCharxIcon(archive()), icon);
+});
+
+test("writes stored assets back into exported archives", () => {
+  const { card } = readCharx(archive());
+  const files = unzipSync(new Uint8Array(buildCharx(card.data, null)));
+  const theme = Object.keys(files).find((name) => name.endsWith("theme.mp3"));
+  assert.ok(theme);
+  assert.deepEqual(Buffer.from(files[theme]!), audio);
+});
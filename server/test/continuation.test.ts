@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { classifyRawFailure, joinContinuation, parseJsonWithRepairs } from "../src/domain/character/parse.js";
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "continuation");
+
+// A truncated reply (`<name>.partial.txt`), the text the backend sent when asked to continue it
+// (`<name>.continuation.txt`) and the value the joined reply should parse to.
+const CASES: Array<{ name: string; value: any }> = [
+  { name: "mid_string", value: { name: "Mira Vale", description: "She keeps the light burning and fears the night it goes out." } },
+  { name: "mid_key", value: { name: "Mira Vale", tags: ["coastal", "mystery"] } },
+  { name: "after_comma", value: { name: "Mira Vale", tags: ["coastal"] } },
+  { name: "code_fence", value: { name: "Mira Vale", tags: [] } },
+  { name: "echoed", value: { name: "Mira Vale", tags: ["coastal"] } },
+];
+
+function fixture(file: string) {
+  return fs.readFileSync(path.join(FIXTURES, file), "utf-8");
+}
+
+for (const { name, value } of CASES) {
+  test(`joins ${name}`, () => {
+    const partial = fixture(`${name}.partial.txt`);
+    assert.equal(classifyRawFailure(partial), "truncated");
+    const joined = joinContinuation(partial, fixture(`${name}.continuation.txt`));
+    assert.deepEqual(parseJsonWithRepairs(joined)?.value, value);
+  });
+}
+
+test("does not drop text when the continuation starts like an object", () => {
+  const joined = joinContinuation('{"bio": "She said ', '{"no"} and left."}');
+  assert.equal(joined, '{"bio": "She said {"no"} and left."}');
+});
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { importCardObject } from "../src/domain/cards/importers.js";
+
+test("keeps V2 fields written flat without a spec", () => {
+  const book = { name: "Saltmarsh", extensions: {}, entries: [] };
+  const { card, report } = importCardObject({
+    name: "Mira",
+    description: "A lighthouse keeper.",
+    first_mes: "The lamp sputters.",
+    tags: ["coastal"],
+    creator_notes: "Notes",
+    alternate_greetings: ["Another night."],
+    system_prompt: "Stay in character.",
+    character_book: book,
+    talkativeness: "0.5",
+  });
+  assert.equal(report.format, "tavern_v1");
+  assert.deepEqual(card.data.tags, ["coastal"]);
+  assert.equal(card.data.creator_notes, "Notes");
+  assert.deepEqual(card.data.alternate_greetings, ["Another night."]);
+  assert.equal(card.data.system_prompt, "Stay in character.");
+  assert.deepEqual(card.data.character_book, book);
+  assert.deepEqual(card.data.extensions, { talkativeness: "0.5" });
+  assert.deepEqual(report.dropped, []);
+});
+
+test("keeps unknown V1 keys under extensions without overwriting them", () => {
+  const { card, report } = importCardObject({
+    name: "Mira",
+    first_mes: "The lamp sputters.",
+    fav: true,
+    create_date: "2024-5-1 @12h 00m 00s 000ms",
+    talkativeness: "0.5",
+    extensions: { talkativeness: "0.8", depth_prompt: { depth: 4 } },
+  });
+  assert.deepEqual(card.data.extensions, {
+    talkativeness: "0.8",
+    depth_prompt: { depth: 4 },
+    fav: true,
+    create_date: "2024-5-1 @12h 00m 00s 000ms",
+  });
+  assert.deepEqual(report.dropped, ["talkativeness"]);
+});
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { lintCard } from "../src/domain/cards/lint.js";
+import { checkCardLengths, FIELD_KEYS } from "../src/domain/character/fieldDetail.js";
+
+test("reports the same length problems as the length enforcer", () => {
+  const card = {
+    name: "Mira",
+    description: "A lighthouse keeper.",
+    personality: "Stubborn.\n\nKind.\n\nTired.\n\nCurious.\n\nLoyal.\n\nWry.",
+    first_mes: "The lamp sputters.",
+    mes_example: "<START>\n{{user}}: Hi.\n{{char}}: Hello.",
+    tags: ["coastal"],
+  };
+  const expected = Object.values(checkCardLengths(undefined, card, FIELD_KEYS))
+    .filter((check) => check && !check.ok)
+    .map((check) => check!.field)
+    .sort();
+  const reported = lintCard(card).diagnostics
+    .filter((diagnostic) => diagnostic.code === "length")
+    .map((diagnostic) => diagnostic.field)
+    .sort();
+  assert.ok(expected.length);
+  assert.deepEqual(reported, expected);
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { classifyRawFailure, parseJsonWithRepairs, type JsonRepair } from "../src/domain/character/parse.js";
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "model-json");
+
+// Captured model replies and what parseJsonWithRepairs should make of them.
+const CASES: Array<{ file: string; value: any; repairs: JsonRepair[] }> = [
+  {
+    file: "code_fence.txt",
+    value: { name: "Mira Vale", tags: ["coastal"] },
+    repairs: [],
+  },
+  {
+    file: "prose_around_json.txt",
+    value: { name: "Mira Vale", tags: ["coastal", "mystery"] },
+    repairs: ["extracted_json"],
+  },
+  {
+    file: "smart_quotes.txt",
+    value: { name: "Mira Vale", scenario: "A storm strands {{user}} at the lighthouse." },
+    repairs: ["smart_quotes"],
+  },
+  {
+    file: "raw_newlines.txt",
+    value: { name: "Mira Vale", first_mes: "The lamp sputters.\n\n\t\"You came,\" she says." },
+    repairs: ["escaped_control_chars"],
+  },
+  {
+    file: "trailing_commas_emoji.txt",
+    value: { name: "Ann 😀", tags: ["a", "b"], description: "d" },
+    repairs: ["trailing_commas"],
+  },
+  {
+    file: "truncated_in_string.txt",
+    value: { name: "Mira Vale", description: "She keeps the light burning and" },
+    repairs: ["closed_truncated"],
+  },
+  {
+    file: "truncated_in_key.txt",
+    value: { name: "Mira Vale", tags: ["coastal", "mystery"] },
+    repairs: ["closed_truncated"],
+  },
+  {
+    file: "mixed.txt",
+    value: { name: "Mira Vale", description: "Line one.\nLine two.", tags: ["coastal"] },
+    repairs: ["extracted_json", "escaped_control_chars", "trailing_commas"],
+  },
+];
+
+function fixture(file: string) {
+  return fs.readFileSync(path.join(FIXTURES, file), "utf-8");
+}
+
+for (const { file, value, repairs } of CASES) {
+  test(`repairs ${file}`, () => {
+    assert.deepEqual(parseJsonWithRepairs(fixture(file)), { value, repairs });
+  });
+}
+
+test("does not cut fields from a complete reply with curly dialogue quotes", () => {
+  const raw = fixture("smart_quotes_dialogue.txt");
+  assert.equal(classifyRawFailure(raw), "invalid_json");
+  assert.equal(parseJsonWithRepairs(raw), null);
+});
+
+test("classifies replies that stopped early as truncated", () => {
+  assert.equal(classifyRawFailure(fixture("truncated_in_string.txt")), "truncated");
+  assert.equal(classifyRawFailure(fixture("truncated_in_key.txt")), "truncated");
+});
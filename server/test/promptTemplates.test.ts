@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  defaultPromptTemplate,
+  missingPlaceholders,
+  PROMPT_TEMPLATE_IDS,
+  unknownPlaceholders,
+} from "../src/domain/character/promptTemplates.js";
+
+test("built-in templates use only their own placeholders and keep the required ones", () => {
+  for (const id of PROMPT_TEMPLATE_IDS) {
+    const template = defaultPromptTemplate(id);
+    assert.deepEqual(unknownPlaceholders(id, template), [], id);
+    assert.deepEqual(missingPlaceholders(id, template), [], id);
+  }
+});
+
+test("reports dropped and unknown placeholders", () => {
+  const template = "Write a card for {{idea}} as {{char}}, about {{mood}}.";
+  assert.deepEqual(missingPlaceholders("generate", template), ["json_keys"]);
+  assert.deepEqual(unknownPlaceholders("generate", template), ["mood"]);
+});
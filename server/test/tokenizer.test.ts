@@ -0,0 +1,12 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { countTokensByKey } from "../src/lib/tokenizer.js";
+
+test("counts prompt-format markers instead of throwing", async () => {
+  for (const tokenizer of ["gpt4", "gpt4o"] as const) {
+    const counts = await countTokensByKey({ system_prompt: "Reply as {{char}}.<|im_end|>\n<|endoftext|>", name: "" }, tokenizer);
+    assert.ok((counts.system_prompt ?? 0) > 0);
+    assert.equal(counts.name, 0);
+  }
+});